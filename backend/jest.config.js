@@ -0,0 +1,30 @@
+/**
+ * Jest Configuration
+ * Tests live next to the code in __tests__ folders and run against the
+ * in-memory stores and the scripted LLM, so no database, Redis or API key
+ * is needed
+ */
+
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/test/setupEnv.ts'],
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          // Type errors are caught by tsc; tests only need the code to run
+          isolatedModules: true,
+          target: 'ES2020',
+          module: 'commonjs',
+          esModuleInterop: true,
+          skipLibCheck: true,
+          strict: false,
+        },
+      },
+    ],
+  },
+};
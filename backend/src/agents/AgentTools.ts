@@ -0,0 +1,298 @@
+/**
+ * Agent Tools
+ * Capabilities the onboarding agent can call during a conversation turn.
+ * Each tool declares its arguments as JSON schema, which is shown to the model
+ * and checked before the tool runs.
+ */
+
+import { ValidationEngine } from '../services/ValidationEngine';
+import { ConsentService } from '../services/ConsentService';
+import { ExternalAPIService } from '../integrations/ExternalAPIService';
+import { FieldSource } from '../stores/SessionStore';
+import { AgentContext, MerchantData } from './OnboardingAgent';
+
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: 'string' | 'number' | 'boolean';
+    description: string;
+    enum?: string[];
+  }>;
+  required: string[];
+}
+
+export interface ToolResult {
+  output: Record<string, any>;
+  // Merchant fields the tool confirmed or filled in
+  dataUpdates?: Partial<MerchantData>;
+}
+
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+  // Provenance recorded for fields the tool updates
+  source: FieldSource;
+  run(args: Record<string, any>, context: AgentContext): Promise<ToolResult>;
+}
+
+/**
+ * One tool call as recorded in the conversation metadata
+ */
+export interface ToolCallRecord {
+  tool: string;
+  arguments: Record<string, any>;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+/**
+ * Thrown for arguments that do not match a tool's schema, or values the tool
+ * cannot work with. The message is passed back to the model.
+ */
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+/**
+ * Check arguments against a tool's schema, dropping properties it does not declare
+ */
+export const checkToolArguments = (
+  schema: ToolParameterSchema,
+  args: unknown
+): Record<string, any> => {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    throw new ToolArgumentError('arguments must be an object');
+  }
+
+  const input = args as Record<string, any>;
+  const result: Record<string, any> = {};
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const value = input[name];
+
+    if (value === undefined || value === null || value === '') {
+      if (schema.required.includes(name)) {
+        throw new ToolArgumentError(`${name} is required`);
+      }
+      continue;
+    }
+
+    if (typeof value !== property.type) {
+      throw new ToolArgumentError(`${name} must be a ${property.type}`);
+    }
+    if (property.enum && !property.enum.includes(value)) {
+      throw new ToolArgumentError(`${name} must be one of: ${property.enum.join(', ')}`);
+    }
+
+    result[name] = value;
+  }
+
+  return result;
+};
+
+/**
+ * Keep only the updates for fields the merchant has not filled in yet
+ */
+const missingFields = (
+  merchantData: Partial<MerchantData>,
+  updates: Partial<MerchantData>
+): Partial<MerchantData> => {
+  const result: Partial<MerchantData> = {};
+
+  for (const [field, value] of Object.entries(updates)) {
+    if (value && !merchantData[field]) {
+      result[field] = value;
+    }
+  }
+
+  return result;
+};
+
+// Fields ValidationEngine has a specific validator for
+const VALIDATED_FIELDS = [
+  'businessName',
+  'ownerName',
+  'email',
+  'phone',
+  'gstin',
+  'pan',
+  'pincode',
+  'ifscCode',
+  'accountNumber',
+];
+
+export interface AgentToolDependencies {
+  validationEngine: ValidationEngine;
+  externalAPI: ExternalAPIService;
+  consentService: ConsentService;
+}
+
+/**
+ * Build the tools available to the onboarding agent
+ */
+export const createAgentTools = ({
+  validationEngine,
+  externalAPI,
+  consentService,
+}: AgentToolDependencies): AgentTool[] => {
+  // Reject malformed identifiers before they are sent to an external API
+  const requireValid = async (field: string, value: string) => {
+    const validation = await validationEngine.validateField(field, value);
+    if (!validation.isValid) {
+      throw new ToolArgumentError(validation.error || `${field} is not valid`);
+    }
+  };
+
+  return [
+    {
+      name: 'validate_field',
+      description: 'Check the format of a merchant detail. A valid value is saved to the application.',
+      parameters: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', description: 'Field name', enum: VALIDATED_FIELDS },
+          value: { type: 'string', description: 'Value given by the merchant' },
+        },
+        required: ['field', 'value'],
+      },
+      source: 'ai',
+      async run({ field, value }) {
+        const validation = await validationEngine.validateField(field, value);
+
+        return {
+          output: {
+            field,
+            isValid: validation.isValid,
+            error: validation.error,
+            suggestion: validation.suggestion,
+          },
+          dataUpdates: validation.isValid ? { [field]: value } : undefined,
+        };
+      },
+    },
+    {
+      name: 'fetch_gst_details',
+      description: 'Look up the registered business name, type, address and state for a GSTIN. Needs bureau check consent.',
+      parameters: {
+        type: 'object',
+        properties: {
+          gstin: { type: 'string', description: '15-character GSTIN' },
+        },
+        required: ['gstin'],
+      },
+      source: 'external_api',
+      async run({ gstin }, context) {
+        await requireValid('gstin', gstin);
+        await consentService.requireConsent(context.sessionId, 'bureau_check');
+
+        const details = await externalAPI.fetchGSTDetails(gstin);
+
+        return {
+          output: details,
+          dataUpdates: {
+            gstin,
+            ...missingFields(context.merchantData, {
+              businessName: details.businessName,
+              businessType: details.businessType,
+              address: details.address,
+              state: details.state,
+            }),
+          },
+        };
+      },
+    },
+    {
+      name: 'fetch_location_from_pincode',
+      description: 'Look up the city and state for an Indian pincode.',
+      parameters: {
+        type: 'object',
+        properties: {
+          pincode: { type: 'string', description: '6-digit pincode' },
+        },
+        required: ['pincode'],
+      },
+      source: 'external_api',
+      // No consent needed: a pincode names a locality, not the merchant
+      async run({ pincode }, context) {
+        await requireValid('pincode', pincode);
+        const location = await externalAPI.fetchLocationFromPincode(pincode);
+
+        return {
+          output: location,
+          dataUpdates: {
+            pincode,
+            ...missingFields(context.merchantData, {
+              city: location.city,
+              state: location.state,
+            }),
+          },
+        };
+      },
+    },
+    {
+      name: 'verify_bank_account',
+      description: 'Confirm a bank account with a penny drop. Omitted details are taken from the application. Needs bureau check consent.',
+      parameters: {
+        type: 'object',
+        properties: {
+          accountNumber: { type: 'string', description: 'Bank account number' },
+          ifscCode: { type: 'string', description: '11-character IFSC code' },
+          accountHolderName: { type: 'string', description: 'Name on the account' },
+        },
+        required: [],
+      },
+      source: 'external_api',
+      async run(args, context) {
+        const accountNumber = args.accountNumber || context.merchantData.accountNumber;
+        const ifscCode = args.ifscCode || context.merchantData.ifscCode;
+        const accountHolderName = args.accountHolderName
+          || context.merchantData.accountHolderName
+          || context.merchantData.ownerName;
+
+        if (!accountNumber || !ifscCode || !accountHolderName) {
+          throw new ToolArgumentError('accountNumber, ifscCode and accountHolderName are needed');
+        }
+        await requireValid('accountNumber', accountNumber);
+        await requireValid('ifscCode', ifscCode);
+
+        // Same consent the verification endpoint requires
+        await consentService.requireConsent(context.sessionId, 'bureau_check');
+
+        const verification = await externalAPI.verifyBankAccount(accountNumber, ifscCode, accountHolderName);
+
+        return {
+          output: {
+            verified: verification.verified,
+            nameMatch: verification.match,
+          },
+          dataUpdates: verification.verified
+            ? { accountNumber, ifscCode, accountHolderName }
+            : undefined,
+        };
+      },
+    },
+    {
+      name: 'suggest_merchant_category',
+      description: 'Suggest merchant categories for a description of what the business sells.',
+      parameters: {
+        type: 'object',
+        properties: {
+          businessDescription: { type: 'string', description: 'What the business sells or does' },
+        },
+        required: ['businessDescription'],
+      },
+      source: 'external_api',
+      async run({ businessDescription }) {
+        return {
+          output: {
+            categories: await externalAPI.suggestMerchantCategory(businessDescription),
+          },
+        };
+      },
+    },
+  ];
+};
@@ -0,0 +1,117 @@
+/**
+ * Conversation Memory
+ * Keeps the prompt's view of a conversation bounded: the most recent messages
+ * are included verbatim and older ones are folded into a rolling summary that
+ * is stored on the session
+ */
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { RunnableSequence } from '@langchain/core/runnables';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { invokeSanitized, PLACEHOLDER_INSTRUCTION } from '../utils/redaction';
+import { PromptSelection } from '../services/PromptRegistry';
+import { ConversationMessage } from './OnboardingAgent';
+
+export interface ConversationSummary {
+  text: string;
+  messagesCovered: number; // How many of the earliest messages the text stands for
+  updatedAt: Date;
+}
+
+export interface ConversationMemoryOptions {
+  recentMessages: number; // Always included verbatim
+  summaryBatch: number; // Older messages that build up before they are summarised
+}
+
+const positiveInt = (value: string | undefined, fallback: number, name: string): number => {
+  if (!value) return fallback;
+
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+/**
+ * Read memory sizes from MEMORY_RECENT_MESSAGES and MEMORY_SUMMARY_BATCH
+ */
+export const loadMemoryOptions = (env: NodeJS.ProcessEnv = process.env): ConversationMemoryOptions => ({
+  recentMessages: positiveInt(env.MEMORY_RECENT_MESSAGES, 10, 'MEMORY_RECENT_MESSAGES'),
+  summaryBatch: positiveInt(env.MEMORY_SUMMARY_BATCH, 6, 'MEMORY_SUMMARY_BATCH'),
+});
+
+const formatMessages = (messages: ConversationMessage[]): string =>
+  messages.map(message => `${message.role}: ${message.content}`).join('\n');
+
+export class ConversationMemory {
+  constructor(
+    private llm: BaseChatModel,
+    private options: ConversationMemoryOptions = loadMemoryOptions()
+  ) {}
+
+  /**
+   * The conversation as prompt text: the summary, then every message it does not cover
+   */
+  render(history: ConversationMessage[], summary?: ConversationSummary): string {
+    const { covered, text } = this.usable(history, summary);
+    const recent = formatMessages(history.slice(covered));
+
+    if (!text) return recent;
+    return recent
+      ? `Summary of the earlier conversation: ${text}\n${recent}`
+      : `Summary of the earlier conversation: ${text}`;
+  }
+
+  /**
+   * Fold messages that have left the recent window into the summary once a
+   * batch of them has built up. Returns null when the summary is unchanged.
+   */
+  async update(
+    history: ConversationMessage[],
+    summary: ConversationSummary | undefined,
+    prompts: PromptSelection
+  ): Promise<ConversationSummary | null> {
+    const { covered, text } = this.usable(history, summary);
+    const foldUpTo = history.length - this.options.recentMessages;
+
+    if (foldUpTo - covered < this.options.summaryBatch) {
+      return null;
+    }
+
+    const chain = RunnableSequence.from([
+      prompts.template('memory.summary'),
+      this.llm,
+      new StringOutputParser(),
+    ]);
+
+    const updated = await invokeSanitized(chain, {
+      summary: text || 'none',
+      messages: formatMessages(history.slice(covered, foldUpTo)),
+      placeholderInstruction: PLACEHOLDER_INSTRUCTION,
+    });
+
+    return {
+      text: updated.trim(),
+      messagesCovered: foldUpTo,
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * A summary claiming more messages than the history holds does not belong
+   * to it, so it is ignored
+   */
+  private usable(
+    history: ConversationMessage[],
+    summary?: ConversationSummary
+  ): { covered: number; text: string } {
+    if (!summary || summary.messagesCovered > history.length) {
+      return { covered: 0, text: '' };
+    }
+
+    return { covered: summary.messagesCovered, text: summary.text };
+  }
+}
+
+export default ConversationMemory;
@@ -9,14 +9,136 @@
  * - Drop-off prevention
  */
 
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatAnthropic } from '@langchain/anthropic';
-import { PromptTemplate } from '@langchain/core/prompts';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { RunnableSequence } from '@langchain/core/runnables';
 import { StringOutputParser } from '@langchain/core/output_parsers';
+import { v4 as uuidv4 } from 'uuid';
+import Joi from 'joi';
 import { DocumentProcessor } from '../services/DocumentProcessor';
 import { ValidationEngine } from '../services/ValidationEngine';
 import { ExternalAPIService } from '../integrations/ExternalAPIService';
+import { LLMProvider, getLLMProvider } from '../integrations/LLMProvider';
+import { PromptRegistry, PromptSelection, PromptStamp, getPromptRegistry } from '../services/PromptRegistry';
+import { ConsentService, ConsentError } from '../services/ConsentService';
+import {
+  KnowledgeBase,
+  RetrievedPassage,
+  Citation,
+  getKnowledgeBase,
+  formatPassages,
+  toCitations,
+} from '../services/KnowledgeBase';
+import { GuardrailService } from '../services/GuardrailService';
+import { getConsentStore } from '../stores';
+import { invokeSanitized, streamSanitized, redactDeep, PLACEHOLDER_INSTRUCTION } from '../utils/redaction';
+import { FieldProvenance } from '../utils/fieldHistory';
+import { createStringFieldReader } from '../utils/jsonStream';
+import { ConversationMemory, ConversationSummary } from './ConversationMemory';
+import {
+  LanguageCode,
+  SessionLanguage,
+  DEFAULT_LANGUAGE,
+  languageName,
+  resolveSessionLanguage,
+  normalizeExtractedFields,
+} from '../i18n/languages';
+import { catalogFor } from '../i18n/catalog';
+import { logger } from '../utils/logger';
+import {
+  AgentTool,
+  ToolCallRecord,
+  ToolArgumentError,
+  createAgentTools,
+  checkToolArguments,
+} from './AgentTools';
+
+// Upper bound on tool calls in one conversation turn
+const MAX_TOOL_STEPS = 4;
+
+// Policy passages shown to the model when answering a question
+const KNOWLEDGE_PASSAGES = 3;
+
+const CONVERSATION_INTENTS = [
+  'provide_information',
+  'ask_question',
+  'express_confusion',
+  'request_help',
+  'ready_to_proceed',
+  'go_back',
+  'off_topic',
+];
+
+// Merchant fields the model may pick out of a chat message
+const EXTRACTABLE_FIELDS = [
+  'businessName',
+  'ownerName',
+  'email',
+  'phone',
+  'address',
+  'city',
+  'state',
+  'pincode',
+  'gstin',
+  'pan',
+];
+
+const STRUCTURED_REPLY_SCHEMA = Joi.object({
+  intent: Joi.string().valid(...CONVERSATION_INTENTS).required(),
+  // Empty only while the model waits on a tool it asked for
+  reply: Joi.string().trim().allow('').required(),
+  extractedFields: Joi.object(
+    Object.fromEntries(EXTRACTABLE_FIELDS.map(field => [field, Joi.string().allow('')]))
+  ).default({}),
+  confidence: Joi.number().min(0).max(1).required(),
+  tool: Joi.object({
+    tool: Joi.string().required(),
+    arguments: Joi.object().default({}),
+  }).allow(null).default(null),
+});
+
+/**
+ * A tool the model asked to call
+ */
+interface ToolCall {
+  tool: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * The tools run for one message and what they filled in
+ */
+interface ToolRun {
+  toolCalls: ToolCallRecord[];
+  dataUpdates: Partial<MerchantData>;
+  fieldProvenance: Record<string, FieldProvenance>;
+  seen: Set<string>;
+}
+
+/**
+ * What one way of generating the reply produces for a message
+ */
+interface ConversationTurn {
+  intent: string;
+  response: string;
+  dataUpdates: Partial<MerchantData>;
+  confidence?: number;
+  toolCall?: ToolCall;
+}
+
+/**
+ * What the reply prompts are filled in with
+ */
+interface ConversationInput {
+  userMessage: string;
+  currentStep: OnboardingStep;
+  fieldsCompleted: number;
+  fieldsTotal: number;
+  documentsUploaded: number;
+  documentsRequired: number;
+  conversationHistory: string;
+  toolResults: string;
+  language: string;
+}
 
 export interface AgentContext {
   sessionId: string;
@@ -24,6 +146,8 @@ export interface AgentContext {
   currentStep: OnboardingStep;
   merchantData: Partial<MerchantData>;
   conversationHistory: ConversationMessage[];
+  conversationSummary?: ConversationSummary;
+  language?: SessionLanguage;
   userBehavior: UserBehaviorMetrics;
   extractedDocuments: ExtractedDocument[];
 }
@@ -48,6 +172,7 @@ export interface MerchantData {
 
   // Contact Information
   ownerName: string;
+  aadhaar?: string; // Only collected with Aadhaar eKYC consent
   email: string;
   phone: string;
 
@@ -78,6 +203,10 @@ export interface ConversationMessage {
     intent?: string;
     confidence?: number;
     suggestedActions?: string[];
+    dataUpdates?: Partial<MerchantData>;
+    toolCalls?: ToolCallRecord[];
+    citations?: Citation[];
+    prompts?: PromptStamp[];
   };
 }
 
@@ -92,124 +221,544 @@ export interface UserBehaviorMetrics {
   dropOffRisk: number; // 0-1 score
 }
 
+export interface ProactiveIntervention {
+  type: 'help_offer' | 'clarification' | 'auto_fill_suggestion' | 'drop_off_prevention';
+  message: string;
+  suggestedActions: string[];
+  priority: 'low' | 'medium' | 'high';
+  triggeredBy: 'time_spent' | 'hesitation' | 'error' | 'confusion';
+}
+
+/**
+ * An intervention as recorded in session.interventions once it was pushed
+ */
+export interface DeliveredIntervention extends ProactiveIntervention {
+  id: string;
+  step: OnboardingStep;
+  deliveredAt: Date;
+}
+
 export interface ExtractedDocument {
+  id?: string;
   documentType: string;
   filePath: string;
   extractedData: Record<string, any>;
   confidence: number;
   validationStatus: 'pending' | 'valid' | 'invalid';
   issues?: string[];
+  prompt?: PromptStamp;
 }
 
 export class OnboardingAgent {
-  private llm: ChatOpenAI | ChatAnthropic;
+  private llm: BaseChatModel;
   private documentProcessor: DocumentProcessor;
   private validationEngine: ValidationEngine;
   private externalAPI: ExternalAPIService;
-
-  constructor() {
-    // Initialize LLM (Claude Sonnet for high quality responses)
-    this.llm = new ChatAnthropic({
-      modelName: 'claude-sonnet-4-5-20250929',
-      temperature: 0.3,
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
-    this.documentProcessor = new DocumentProcessor();
-    this.validationEngine = new ValidationEngine();
+  private tools: AgentTool[];
+  private memory: ConversationMemory;
+  private prompts: PromptRegistry;
+  private knowledgeBase: KnowledgeBase;
+  private guardrails: GuardrailService;
+  private structuredOutput: boolean;
+
+  constructor(
+    llmProvider: LLMProvider = getLLMProvider(),
+    consentService: ConsentService = new ConsentService(getConsentStore()),
+    options: {
+      structuredOutput?: boolean;
+      promptRegistry?: PromptRegistry;
+      knowledgeBase?: KnowledgeBase;
+      guardrails?: GuardrailService;
+    } = {}
+  ) {
+    this.llm = llmProvider.chatModel('conversation');
+    this.prompts = options.promptRegistry || getPromptRegistry();
+    this.knowledgeBase = options.knowledgeBase || getKnowledgeBase();
+    this.guardrails = options.guardrails || new GuardrailService();
+    this.structuredOutput = options.structuredOutput ?? process.env.AGENT_STRUCTURED_OUTPUT !== 'false';
+    this.memory = new ConversationMemory(llmProvider.chatModel('summarization'));
+
+    this.documentProcessor = new DocumentProcessor(llmProvider, this.prompts);
+    this.validationEngine = new ValidationEngine(llmProvider, this.prompts);
     this.externalAPI = new ExternalAPIService();
+    this.tools = createAgentTools({
+      validationEngine: this.validationEngine,
+      externalAPI: this.externalAPI,
+      consentService,
+    });
   }
 
   /**
    * Main conversation handler
-   * Processes user input and generates contextual responses
+   * Processes user input and generates contextual responses in the merchant's
+   * language. When onToken is given, the reply is streamed to it as it is generated.
    */
   async handleConversation(
     userMessage: string,
-    context: AgentContext
+    context: AgentContext,
+    onToken?: (token: string) => void
   ): Promise<{
     response: string;
     suggestedActions?: string[];
     dataUpdates?: Partial<MerchantData>;
     nextStep?: OnboardingStep;
+    intent?: string;
+    confidence?: number;
+    toolCalls?: ToolCallRecord[];
+    fieldProvenance?: Record<string, FieldProvenance>;
+    conversationSummary?: ConversationSummary;
+    language?: SessionLanguage;
+    citations?: Citation[];
+    prompts?: PromptStamp[];
   }> {
-    // Analyze user intent
-    const intent = await this.analyzeIntent(userMessage, context);
+    // Sessions are assigned to prompt experiment variants by ID
+    const prompts = this.prompts.select(context.sessionId);
+
+    // A changed language is returned so the session keeps replying in it
+    const language = resolveSessionLanguage(context.language, userMessage) || undefined;
+    const replyLanguage = (language || context.language)?.code || DEFAULT_LANGUAGE;
+
+    // A message trying to instruct the assistant never reaches a prompt
+    const injection = await this.guardrails.screenInput(context.sessionId, userMessage, 'chat');
+    if (injection.length > 0) {
+      const response = catalogFor(replyLanguage).refusals.injection;
+      onToken?.(response);
+      return {
+        response,
+        intent: 'prompt_injection',
+        suggestedActions: this.generateSuggestedActions(context, 'prompt_injection', replyLanguage),
+        language,
+      };
+    }
 
-    // Check if proactive intervention is needed
-    const intervention = await this.checkProactiveIntervention(context);
-    if (intervention) {
-      return intervention;
+    // Proactive help is pushed over the intervention channel (see
+    // InterventionMonitor), so a message the merchant sends always gets an answer
+
+    // Our own policy content for answering questions; the lookup is local, so
+    // it is done before the intent is known
+    const passages = this.knowledgeBase.search(userMessage, KNOWLEDGE_PASSAGES);
+
+    // Tools the model uses to validate, enrich and verify what the merchant told us
+    const tools: ToolRun = { toolCalls: [], dataUpdates: {}, fieldProvenance: {}, seen: new Set() };
+
+    let turn = this.structuredOutput
+      ? await this.respondStructured(userMessage, context, tools, passages, prompts, replyLanguage, onToken)
+      : null;
+    if (!turn) {
+      // Tools already run are kept; the selection call picks up from there
+      await this.runTools(userMessage, context, tools, prompts);
+
+      // A streamed partial reply is replaced by the final message, so don't stream a second one
+      turn = await this.respondWithSeparateCalls(
+        this.buildConversationInput(userMessage, context, this.formatToolResults(tools.toolCalls), replyLanguage),
+        passages,
+        context,
+        prompts,
+        this.structuredOutput ? undefined : onToken
+      );
     }
 
-    // Generate contextual response
-    const prompt = this.buildConversationalPrompt(
-      userMessage,
-      context,
-      intent
+    // Unrelated requests get the standard refusal rather than the model's answer
+    if (this.isOffTopic(turn.intent)) {
+      await this.guardrails.recordOffTopic(context.sessionId, userMessage);
+      turn = { ...turn, response: catalogFor(replyLanguage).refusals.offTopic, dataUpdates: {} };
+    }
+
+    // Fields are stored in canonical English/ASCII form whatever language the chat is in
+    const extracted = normalizeExtractedFields(turn.dataUpdates);
+    if (extracted.dropped.length > 0) {
+      logger.warn(`Dropped extracted fields that were not in ASCII: ${extracted.dropped.join(', ')}`);
+    }
+
+    // Model output is only applied to fields it may set, with values of the right type
+    const screened = await this.guardrails.screenDataUpdates(
+      context.sessionId,
+      'chat',
+      extracted.fields,
+      EXTRACTABLE_FIELDS
     );
 
+    // Tool results are screened too, since validate_field saves the value the
+    // model passes once its format checks out. Tools fill bank and GST details
+    // the model may not extract, so they are held to every merchant field.
+    const confirmed = await this.guardrails.screenDataUpdates(context.sessionId, 'chat', tools.dataUpdates);
+
+    // Values confirmed by a tool take precedence over extracted ones
+    const dataUpdates = { ...screened, ...confirmed };
+
+    // Determine if we should move to next step
+    const nextStep = this.shouldMoveToNextStep(context, dataUpdates);
+
+    const conversationSummary = await this.updateMemory(context, prompts);
+
+    return {
+      response: turn.response,
+      dataUpdates,
+      nextStep,
+      intent: turn.intent,
+      confidence: turn.confidence,
+      suggestedActions: this.generateSuggestedActions(context, turn.intent, replyLanguage),
+      // Conversation metadata is stored as is, so identity and bank details are redacted
+      toolCalls: tools.toolCalls.length > 0 ? redactDeep(tools.toolCalls) : undefined,
+      fieldProvenance: Object.fromEntries(
+        Object.entries(tools.fieldProvenance).filter(([field]) => field in confirmed)
+      ),
+      conversationSummary,
+      language,
+      citations: this.isQuestion(turn.intent) && passages.length > 0 ? toCitations(passages) : undefined,
+      prompts: prompts.used,
+    };
+  }
+
+  /**
+   * Fold older messages into the rolling summary when a batch is due. A failed
+   * summary is retried on a later message, so it does not fail this one.
+   */
+  private async updateMemory(
+    context: AgentContext,
+    prompts: PromptSelection
+  ): Promise<ConversationSummary | undefined> {
+    try {
+      const summary = await this.memory.update(context.conversationHistory, context.conversationSummary, prompts);
+      return summary || undefined;
+    } catch (error) {
+      logger.warn('Failed to update conversation summary:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * One schema-constrained call for intent, reply, extracted fields and the
+   * tool to run, repeated with each tool's result until the model answers.
+   * Policy passages are only loaded once the model says the message is a
+   * question. Any other message that needs no tool costs a single call.
+   * Returns null if an output does not match the schema.
+   */
+  private async respondStructured(
+    userMessage: string,
+    context: AgentContext,
+    tools: ToolRun,
+    passages: RetrievedPassage[],
+    prompts: PromptSelection,
+    language: LanguageCode,
+    onToken?: (token: string) => void
+  ): Promise<ConversationTurn | null> {
+    let offerTools = true;
+    let knowledge: RetrievedPassage[] | null = null;
+
+    for (let step = 0; ; step++) {
+      const conversationInput = this.buildConversationInput(
+        userMessage,
+        context,
+        this.formatToolResults(tools.toolCalls),
+        language
+      );
+
+      const turn = await this.structuredTurn(conversationInput, knowledge, prompts, offerTools, onToken);
+      if (!turn) {
+        return null;
+      }
+
+      if (turn.toolCall) {
+        // After a repeated call or MAX_TOOL_STEPS tools, the model has to answer
+        const ran = await this.runToolCall(turn.toolCall, context, tools);
+        offerTools = ran && step + 1 < MAX_TOOL_STEPS;
+      } else if (this.isQuestion(turn.intent) && !knowledge) {
+        knowledge = passages;
+      } else {
+        return turn;
+      }
+    }
+  }
+
+  /**
+   * A single structured call. Tools are only listed when offerTools is set,
+   * and passages are "not loaded" when null.
+   */
+  private async structuredTurn(
+    conversationInput: ConversationInput,
+    passages: RetrievedPassage[] | null,
+    prompts: PromptSelection,
+    offerTools: boolean,
+    onToken?: (token: string) => void
+  ): Promise<ConversationTurn | null> {
     const chain = RunnableSequence.from([
-      prompt,
+      prompts.template('agent.structured_reply'),
       this.llm,
       new StringOutputParser(),
     ]);
 
-    const response = await chain.invoke({
-      userMessage,
-      context: JSON.stringify(context),
+    const input = {
+      ...conversationInput,
+      knowledge: passages ? formatPassages(passages) : 'not loaded',
+      intents: CONVERSATION_INTENTS.map(intent => `"${intent}"`).join(', '),
+      fields: EXTRACTABLE_FIELDS.join(', '),
+      tools: offerTools ? this.describeTools() : 'none',
+      placeholderInstruction: PLACEHOLDER_INSTRUCTION,
+    };
+
+    let output = '';
+    if (onToken) {
+      // Stream the reply property as the JSON is generated
+      const readReply = createStringFieldReader('reply', onToken);
+      for await (const token of streamSanitized(chain, input)) {
+        output += token;
+        readReply(token);
+      }
+    } else {
+      output = await invokeSanitized(chain, input);
+    }
+
+    const { value, error } = STRUCTURED_REPLY_SCHEMA.validate(this.extractJson(output), { stripUnknown: true });
+    if (error) {
+      logger.warn(`Structured reply did not match the schema, using separate calls: ${error.message}`);
+      return null;
+    }
+
+    const toolCall: ToolCall | undefined = offerTools && value.tool ? value.tool : undefined;
+    const awaitingPassages = !passages && this.isQuestion(value.intent);
+    if (!value.reply && !toolCall && !awaitingPassages) {
+      logger.warn('Structured reply was empty with nothing to wait on, using separate calls');
+      return null;
+    }
+
+    const dataUpdates: Partial<MerchantData> = {};
+    for (const [field, fieldValue] of Object.entries(value.extractedFields as Record<string, string>)) {
+      if (fieldValue) {
+        dataUpdates[field] = fieldValue;
+      }
+    }
+
+    return {
+      intent: value.intent,
+      response: value.reply,
+      dataUpdates,
+      confidence: value.confidence,
+      toolCall,
+    };
+  }
+
+  /**
+   * The original flow: classify intent, generate the reply, then extract data
+   * from the exchange, each with its own call
+   */
+  private async respondWithSeparateCalls(
+    conversationInput: ConversationInput,
+    passages: RetrievedPassage[],
+    context: AgentContext,
+    prompts: PromptSelection,
+    onToken?: (token: string) => void
+  ): Promise<ConversationTurn> {
+    const { userMessage } = conversationInput;
+
+    // Analyze user intent
+    const intent = await this.analyzeIntent(userMessage, context, prompts);
+
+    // Generate contextual response
+    const chain = RunnableSequence.from([
+      prompts.template('agent.reply'),
+      this.llm,
+      new StringOutputParser(),
+    ]);
+
+    const input = {
+      ...conversationInput,
       intent,
-    });
+      knowledge: this.isQuestion(intent) ? formatPassages(passages) : 'none',
+    };
+
+    let response = '';
+    if (onToken) {
+      for await (const token of streamSanitized(chain, input)) {
+        response += token;
+        onToken(token);
+      }
+    } else {
+      response = await invokeSanitized(chain, input);
+    }
 
     // Extract any data from the conversation
     const dataUpdates = await this.extractDataFromConversation(
       userMessage,
       response,
-      context
+      context,
+      prompts
     );
 
-    // Determine if we should move to next step
-    const nextStep = this.shouldMoveToNextStep(context, dataUpdates);
+    return { intent, response, dataUpdates };
+  }
 
+  /**
+   * Whether the merchant asked a question, so policy passages back the answer
+   */
+  private isQuestion(intent: string): boolean {
+    return intent.trim() === 'ask_question';
+  }
+
+  /**
+   * Whether the message has nothing to do with onboarding
+   */
+  private isOffTopic(intent: string): boolean {
+    return intent.trim() === 'off_topic';
+  }
+
+  /**
+   * Prompt inputs shared by both ways of generating the reply
+   */
+  private buildConversationInput(
+    userMessage: string,
+    context: AgentContext,
+    toolResults: string,
+    language: LanguageCode
+  ): ConversationInput {
     return {
-      response,
-      dataUpdates,
-      nextStep,
-      suggestedActions: this.generateSuggestedActions(context, intent),
+      userMessage,
+      currentStep: context.currentStep,
+      fieldsCompleted: context.userBehavior.fieldsCompleted,
+      fieldsTotal: context.userBehavior.fieldsTotal,
+      documentsUploaded: context.userBehavior.documentsUploaded,
+      documentsRequired: context.userBehavior.documentsRequired,
+      conversationHistory: this.memory.render(context.conversationHistory, context.conversationSummary),
+      toolResults,
+      language: languageName(language),
     };
   }
 
   /**
-   * Analyzes user intent from their message
+   * Bounded tool-use loop: the model picks one tool at a time, sees its result,
+   * and stops when it needs nothing more or MAX_TOOL_STEPS is reached
    */
-  private async analyzeIntent(
-    message: string,
-    context: AgentContext
-  ): Promise<string> {
-    const intentPrompt = PromptTemplate.fromTemplate(`
-      Analyze the user's intent from their message in the context of merchant onboarding.
+  private async runTools(
+    userMessage: string,
+    context: AgentContext,
+    tools: ToolRun,
+    prompts: PromptSelection
+  ): Promise<void> {
+    const chain = RunnableSequence.from([
+      prompts.template('agent.tool_selection'),
+      this.llm,
+      new StringOutputParser(),
+    ]);
+
+    while (tools.seen.size < MAX_TOOL_STEPS) {
+      const decision = await invokeSanitized(chain, {
+        userMessage,
+        currentStep: context.currentStep,
+        knownFields: Object.keys({ ...context.merchantData, ...tools.dataUpdates }).join(', ') || 'none',
+        tools: this.describeTools(),
+        toolResults: this.formatToolResults(tools.toolCalls),
+        placeholderInstruction: PLACEHOLDER_INSTRUCTION,
+      });
+
+      const call = this.parseToolCall(decision);
+      if (!call || !(await this.runToolCall(call, context, tools))) break;
+    }
+  }
+
+  /**
+   * Run one tool call and record its result in the run. Returns false for a
+   * repeated call: it would get the same answer, so the model is going in circles.
+   */
+  private async runToolCall(call: ToolCall, context: AgentContext, tools: ToolRun): Promise<boolean> {
+    const key = JSON.stringify(call);
+    if (tools.seen.has(key)) return false;
+    tools.seen.add(key);
+
+    const tool = this.tools.find(candidate => candidate.name === call.tool);
+    if (!tool) {
+      tools.toolCalls.push({ tool: call.tool, arguments: call.arguments, error: `Unknown tool: ${call.tool}` });
+      return true;
+    }
+
+    try {
+      const args = checkToolArguments(tool.parameters, call.arguments);
+      const result = await tool.run(args, {
+        ...context,
+        merchantData: { ...context.merchantData, ...tools.dataUpdates },
+      });
+
+      tools.toolCalls.push({ tool: tool.name, arguments: args, result: result.output });
+      for (const [field, value] of Object.entries(result.dataUpdates || {})) {
+        tools.dataUpdates[field] = value;
+        tools.fieldProvenance[field] = { source: tool.source, confidence: 0.9, provider: tool.name };
+      }
+    } catch (error) {
+      // Argument and consent problems are for the model to explain; anything else is logged
+      const expected = error instanceof ToolArgumentError || error instanceof ConsentError;
+      if (!expected) {
+        logger.error(`Agent tool ${tool.name} failed:`, error);
+      }
 
-      User message: {message}
-      Current step: {currentStep}
+      tools.toolCalls.push({
+        tool: tool.name,
+        arguments: call.arguments,
+        error: expected ? (error as Error).message : 'The tool failed, please try again later',
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * The tools as prompt text, with their argument schemas
+   */
+  private describeTools(): string {
+    return JSON.stringify(this.tools.map(({ name, description, parameters }) => ({ name, description, parameters })));
+  }
 
-      Classify intent as one of:
-      - provide_information: User is providing requested information
-      - ask_question: User has a question
-      - express_confusion: User is confused or stuck
-      - request_help: User explicitly asks for help
-      - ready_to_proceed: User wants to move forward
-      - go_back: User wants to revisit a previous step
+  /**
+   * Read a tool call from the model's reply; null means no (more) tools
+   */
+  private parseToolCall(text: string): ToolCall | null {
+    const parsed = this.extractJson(text);
+    if (!parsed || typeof parsed.tool !== 'string') return null;
 
-      Return only the intent classification.
-    `);
+    return { tool: parsed.tool, arguments: parsed.arguments || {} };
+  }
 
+  /**
+   * Parse the outermost JSON object in a model reply, ignoring any text or
+   * code fences around it
+   */
+  private extractJson(text: string): any {
+    const json = text.match(/\{[\s\S]*\}/);
+    if (!json) return null;
+
+    try {
+      return JSON.parse(json[0]);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * One line per tool call, for prompts
+   */
+  private formatToolResults(toolCalls: ToolCallRecord[]): string {
+    if (toolCalls.length === 0) return 'none';
+
+    return toolCalls
+      .map(call => `${call.tool}(${JSON.stringify(call.arguments)}) -> ${
+        call.error ? `error: ${call.error}` : JSON.stringify(call.result)
+      }`)
+      .join('\n');
+  }
+
+  /**
+   * Analyzes user intent from their message
+   */
+  private async analyzeIntent(
+    message: string,
+    context: AgentContext,
+    prompts: PromptSelection
+  ): Promise<string> {
     const chain = RunnableSequence.from([
-      intentPrompt,
+      prompts.template('agent.intent'),
       this.llm,
       new StringOutputParser(),
     ]);
 
-    return await chain.invoke({
+    return await invokeSanitized(chain, {
       message,
       currentStep: context.currentStep,
     });
@@ -218,35 +767,31 @@ export class OnboardingAgent {
   /**
    * Checks if proactive intervention is needed based on user behavior
    */
-  private async checkProactiveIntervention(
-    context: AgentContext
-  ): Promise<{
-    response: string;
-    suggestedActions?: string[];
-  } | null> {
-    const { userBehavior, currentStep } = context;
+  detectIntervention(
+    userBehavior: UserBehaviorMetrics,
+    language: LanguageCode
+  ): ProactiveIntervention | null {
+    const { interventions } = catalogFor(language);
 
     // High drop-off risk
     if (userBehavior.dropOffRisk > 0.7) {
       return {
-        response: "I notice you might be stuck. No worries! I'm here to help. What's confusing you right now?",
-        suggestedActions: [
-          'Explain this step',
-          'Show an example',
-          'Skip for now',
-        ],
+        type: 'drop_off_prevention',
+        message: interventions.stuck.response,
+        suggestedActions: interventions.stuck.suggestedActions,
+        priority: 'high',
+        triggeredBy: userBehavior.hesitationPoints.length > 0 ? 'hesitation' : 'time_spent',
       };
     }
 
     // User spending too much time on a field
     if (userBehavior.timeOnCurrentStep > 120) { // 2 minutes
       return {
-        response: "Taking your time is fine! Would you like me to explain this section or provide an example?",
-        suggestedActions: [
-          'Yes, explain this',
-          'Show an example',
-          "I'm fine, thanks",
-        ],
+        type: 'clarification',
+        message: interventions.slow.response,
+        suggestedActions: interventions.slow.suggestedActions,
+        priority: 'medium',
+        triggeredBy: 'time_spent',
       };
     }
 
@@ -254,98 +799,37 @@ export class OnboardingAgent {
     const completionRate = userBehavior.fieldsCompleted / userBehavior.fieldsTotal;
     if (completionRate < 0.3 && userBehavior.totalTimeSpent > 300) {
       return {
-        response: "I can help speed this up! Would you like me to auto-fill information from your documents?",
-        suggestedActions: [
-          'Yes, please auto-fill',
-          'No, I prefer manual entry',
-        ],
+        type: 'auto_fill_suggestion',
+        message: interventions.autoFill.response,
+        suggestedActions: interventions.autoFill.suggestedActions,
+        priority: 'low',
+        triggeredBy: 'time_spent',
       };
     }
 
     return null;
   }
 
-  /**
-   * Builds the conversational prompt for the LLM
-   */
-  private buildConversationalPrompt(
-    userMessage: string,
-    context: AgentContext,
-    intent: string
-  ): PromptTemplate {
-    return PromptTemplate.fromTemplate(`
-      You are an AI assistant helping merchants onboard to a payment gateway.
-
-      Your goals:
-      1. Be friendly, clear, and concise
-      2. Minimize user effort
-      3. Explain technical terms in simple language
-      4. Provide specific, actionable guidance
-      5. Celebrate progress
-
-      Current Context:
-      - Step: {currentStep}
-      - User intent: {intent}
-      - Progress: {fieldsCompleted}/{fieldsTotal} fields completed
-      - Documents uploaded: {documentsUploaded}/{documentsRequired}
-
-      Conversation history:
-      {conversationHistory}
-
-      User message: {userMessage}
-
-      Generate a helpful, conversational response that:
-      - Addresses the user's intent
-      - Guides them toward completion
-      - Uses simple language
-      - Keeps response under 2-3 sentences
-      - Provides specific next steps when appropriate
-
-      Response:
-    `);
-  }
-
   /**
    * Extracts structured data from conversational exchange
    */
   private async extractDataFromConversation(
     userMessage: string,
     agentResponse: string,
-    context: AgentContext
+    context: AgentContext,
+    prompts: PromptSelection
   ): Promise<Partial<MerchantData>> {
-    // Use NLP to extract entities from user message
-    const extractionPrompt = PromptTemplate.fromTemplate(`
-      Extract merchant data from this conversation exchange.
-
-      User: {userMessage}
-      Agent: {agentResponse}
-      Current step: {currentStep}
-
-      Extract any of the following if present:
-      - businessName
-      - ownerName
-      - email
-      - phone
-      - address
-      - city
-      - state
-      - pincode
-      - gstin
-      - pan
-
-      Return as JSON object with only the fields found. Return empty object if nothing to extract.
-    `);
-
     const chain = RunnableSequence.from([
-      extractionPrompt,
+      prompts.template('agent.extraction'),
       this.llm,
       new StringOutputParser(),
     ]);
 
-    const result = await chain.invoke({
+    const result = await invokeSanitized(chain, {
       userMessage,
       agentResponse,
       currentStep: context.currentStep,
+      placeholderInstruction: PLACEHOLDER_INSTRUCTION,
     });
 
     try {
@@ -366,10 +850,27 @@ export class OnboardingAgent {
     // Run OCR
     const ocrResult = await this.documentProcessor.extractText(file);
 
+    // Text in a document can carry instructions too; such a document is left
+    // for the team to check instead of being read by the model
+    const injection = await this.guardrails.screenInput(context.sessionId, ocrResult.text, 'ocr');
+    if (injection.length > 0) {
+      return {
+        id: uuidv4(),
+        documentType,
+        filePath: ocrResult.filePath,
+        extractedData: {},
+        confidence: 0,
+        validationStatus: 'invalid',
+        issues: ['This document could not be read automatically and will be checked by our team'],
+      };
+    }
+
     // Use AI to extract structured data
+    const prompts = this.prompts.select(context.sessionId);
     const extractedData = await this.documentProcessor.extractEntities(
       ocrResult.text,
-      documentType
+      documentType,
+      prompts
     );
 
     // Validate extracted data
@@ -386,12 +887,14 @@ export class OnboardingAgent {
     );
 
     const result: ExtractedDocument = {
+      id: uuidv4(),
       documentType,
       filePath: ocrResult.filePath,
       extractedData,
       confidence,
       validationStatus: validation.isValid ? 'valid' : 'invalid',
       issues: validation.issues,
+      prompt: prompts.used[0],
     };
 
     // If confidence is high, auto-fill data
@@ -447,14 +950,25 @@ export class OnboardingAgent {
   async enrichData(
     context: AgentContext
   ): Promise<Partial<MerchantData>> {
-    const enrichedData: Partial<MerchantData> = {};
+    const results = await this.enrichDataBySource(context);
+    return Object.assign({}, ...results.map(result => result.data));
+  }
+
+  /**
+   * Enrich data using external APIs, keeping each provider's result separate
+   * so callers can record where every field came from
+   */
+  async enrichDataBySource(
+    context: AgentContext
+  ): Promise<Array<{ provider: string; data: Partial<MerchantData> }>> {
+    const results: Array<{ provider: string; data: Partial<MerchantData> }> = [];
 
     // Fetch from GST API if GSTIN available
     if (context.merchantData.gstin) {
       const gstData = await this.externalAPI.fetchGSTDetails(
         context.merchantData.gstin
       );
-      Object.assign(enrichedData, gstData);
+      results.push({ provider: 'gst_api', data: gstData as Partial<MerchantData> });
     }
 
     // Fetch from PAN API
@@ -462,7 +976,7 @@ export class OnboardingAgent {
       const panData = await this.externalAPI.fetchPANDetails(
         context.merchantData.pan
       );
-      Object.assign(enrichedData, panData);
+      results.push({ provider: 'pan_api', data: panData as Partial<MerchantData> });
     }
 
     // Auto-fill address from pincode
@@ -470,7 +984,7 @@ export class OnboardingAgent {
       const locationData = await this.externalAPI.fetchLocationFromPincode(
         context.merchantData.pincode
       );
-      Object.assign(enrichedData, locationData);
+      results.push({ provider: 'pincode_api', data: locationData as Partial<MerchantData> });
     }
 
     // Get IFSC details
@@ -478,10 +992,10 @@ export class OnboardingAgent {
       const bankData = await this.externalAPI.fetchBankDetails(
         context.merchantData.ifscCode
       );
-      Object.assign(enrichedData, bankData);
+      results.push({ provider: 'ifsc_api', data: bankData as Partial<MerchantData> });
     }
 
-    return enrichedData;
+    return results;
   }
 
   /**
@@ -489,52 +1003,33 @@ export class OnboardingAgent {
    */
   private generateSuggestedActions(
     context: AgentContext,
-    intent: string
+    intent: string,
+    language: LanguageCode
   ): string[] {
     const { currentStep, merchantData } = context;
+    const { suggestions } = catalogFor(language);
 
     switch (currentStep) {
       case OnboardingStep.WELCOME:
-        return [
-          'Get started',
-          'Learn more about the process',
-          'Estimated time: 10 minutes',
-        ];
+        return suggestions.welcome;
 
       case OnboardingStep.BUSINESS_INFO:
         if (!merchantData.gstin) {
-          return [
-            'Enter GST number',
-            "I don't have GST",
-            'What is GST?',
-          ];
+          return suggestions.businessInfoWithoutGst;
         }
-        return ['Continue', 'Review information'];
+        return suggestions.businessInfo;
 
       case OnboardingStep.DOCUMENT_UPLOAD:
-        return [
-          'Upload document',
-          'Take a photo',
-          'What documents do I need?',
-          'Why is this needed?',
-        ];
+        return suggestions.documentUpload;
 
       case OnboardingStep.FORM_COMPLETION:
-        return [
-          'Auto-fill from documents',
-          'Continue manually',
-          'Save and continue later',
-        ];
+        return suggestions.formCompletion;
 
       case OnboardingStep.REVIEW:
-        return [
-          'Submit application',
-          'Edit information',
-          'How long for approval?',
-        ];
+        return suggestions.review;
 
       default:
-        return ['Continue', 'Get help'];
+        return suggestions.other;
     }
   }
 
@@ -643,7 +1138,7 @@ export class OnboardingAgent {
   /**
    * Calculate drop-off risk based on behavior
    */
-  calculateDropOffRisk(behavior: UserBehaviorMetrics): number {
+  calculateDropOffRisk(behavior: Omit<UserBehaviorMetrics, 'dropOffRisk'>): number {
     let risk = 0;
 
     // Time-based risk
@@ -0,0 +1,58 @@
+import { ConversationMemory, ConversationSummary } from '../ConversationMemory';
+import { ConversationMessage } from '../OnboardingAgent';
+import { ScriptedChatModel } from '../../integrations/ScriptedChatModel';
+import { PromptRegistry } from '../../services/PromptRegistry';
+
+const history = (count: number): ConversationMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'agent',
+    content: `message ${i + 1}`,
+    timestamp: new Date(),
+  }));
+
+describe('ConversationMemory.update', () => {
+  const prompts = new PromptRegistry().select();
+  let llm: ScriptedChatModel;
+  let memory: ConversationMemory;
+
+  beforeEach(() => {
+    llm = new ScriptedChatModel({ script: [{ match: 'Update the running summary', response: ' Merchant sells sarees in Pune. ' }] });
+    memory = new ConversationMemory(llm, { recentMessages: 4, summaryBatch: 3 });
+  });
+
+  it('leaves the summary alone until a full batch has left the recent window', async () => {
+    const call = jest.spyOn(llm, '_call');
+
+    await expect(memory.update(history(6), undefined, prompts)).resolves.toBeNull();
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('folds everything outside the recent window into the summary', async () => {
+    const summary = await memory.update(history(7), undefined, prompts);
+
+    expect(summary).toMatchObject({ text: 'Merchant sells sarees in Pune.', messagesCovered: 3 });
+  });
+
+  it('only sends the messages the summary does not cover yet', async () => {
+    const call = jest.spyOn(llm, '_call');
+    const existing: ConversationSummary = { text: 'Earlier notes', messagesCovered: 3, updatedAt: new Date() };
+
+    const summary = await memory.update(history(10), existing, prompts);
+    const prompt = String(call.mock.calls[0][0].map(message => message.content).join('\n'));
+
+    expect(summary?.messagesCovered).toBe(6);
+    expect(prompt).toContain('Earlier notes');
+    expect(prompt).toContain('message 4');
+    expect(prompt).toContain('message 6');
+    expect(prompt).not.toContain('message 3\n');
+    expect(prompt).not.toContain('message 7');
+  });
+
+  it('starts over when the stored summary claims more messages than exist', async () => {
+    const stale: ConversationSummary = { text: 'From another session', messagesCovered: 50, updatedAt: new Date() };
+
+    const summary = await memory.update(history(7), stale, prompts);
+
+    expect(summary?.messagesCovered).toBe(3);
+  });
+});
@@ -0,0 +1,177 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { BaseMessage } from '@langchain/core/messages';
+import { LLMResult } from '@langchain/core/outputs';
+import { OnboardingAgent, AgentContext, OnboardingStep } from '../OnboardingAgent';
+import { FakeLLMProvider } from '../../integrations/LLMProvider';
+import { DEFAULT_SCRIPT, ScriptRule } from '../../integrations/ScriptedChatModel';
+import { ExternalAPIService } from '../../integrations/ExternalAPIService';
+import { ConsentService } from '../../services/ConsentService';
+import { GuardrailService } from '../../services/GuardrailService';
+import { InMemoryConsentStore, InMemoryGuardrailEventStore } from '../../stores';
+
+// Rough English average, good enough to compare prompt sizes
+const CHARS_PER_TOKEN = 4;
+
+// Simulated round trip per LLM call
+const LATENCY_MS = 25;
+
+const MESSAGES = [
+  'Hi, I run a bakery called Sweet Crumbs',
+  'My name is Asha Rao',
+  'What is a GSTIN and do I need one?',
+  'You can reach me at asha@sweetcrumbs.in',
+  "I'm ready to move on",
+];
+
+class UsageCounter extends BaseCallbackHandler {
+  name = 'usage_counter';
+  calls = 0;
+  promptChars = 0;
+  completionChars = 0;
+
+  async handleChatModelStart(_llm: unknown, messages: BaseMessage[][]) {
+    this.calls++;
+    for (const message of messages.flat()) {
+      this.promptChars += String(message.content).length;
+    }
+  }
+
+  async handleLLMEnd(output: LLMResult) {
+    for (const generation of output.generations.flat()) {
+      this.completionChars += generation.text.length;
+    }
+  }
+
+  get tokens(): number {
+    return Math.ceil((this.promptChars + this.completionChars) / CHARS_PER_TOKEN);
+  }
+}
+
+const newContext = (): AgentContext => ({
+  sessionId: 'conversation-modes',
+  currentStep: OnboardingStep.BUSINESS_INFO,
+  merchantData: {},
+  conversationHistory: [],
+  userBehavior: {
+    timeOnCurrentStep: 0,
+    totalTimeSpent: 0,
+    fieldsCompleted: 0,
+    fieldsTotal: 13,
+    documentsUploaded: 0,
+    documentsRequired: 3,
+    hesitationPoints: [],
+    dropOffRisk: 0,
+  },
+  extractedDocuments: [],
+});
+
+const createAgent = (structuredOutput: boolean, counter: UsageCounter, script: ScriptRule[] = DEFAULT_SCRIPT) =>
+  new OnboardingAgent(
+    new FakeLLMProvider({ script, latencyMs: LATENCY_MS, callbacks: [counter] }),
+    new ConsentService(new InMemoryConsentStore()),
+    { structuredOutput, guardrails: new GuardrailService(new InMemoryGuardrailEventStore()) }
+  );
+
+/**
+ * Send every message through one mode and measure what it cost
+ */
+const runConversation = async (structuredOutput: boolean) => {
+  const counter = new UsageCounter();
+  const agent = createAgent(structuredOutput, counter);
+  const context = newContext();
+  const started = Date.now();
+
+  for (const message of MESSAGES) {
+    const reply = await agent.handleConversation(message, context);
+    context.conversationHistory.push(
+      { role: 'user', content: message, timestamp: new Date() },
+      { role: 'agent', content: reply.response, timestamp: new Date() }
+    );
+  }
+
+  return { calls: counter.calls, tokens: counter.tokens, elapsedMs: Date.now() - started };
+};
+
+describe('conversation modes on the scripted provider', () => {
+  it('structured output makes one call per message, fewer tokens and less latency than separate calls', async () => {
+    const structured = await runConversation(true);
+    const separate = await runConversation(false);
+
+    expect(structured.calls).toBe(MESSAGES.length);
+    expect(separate.calls).toBeGreaterThanOrEqual(MESSAGES.length * 3);
+    expect(structured.tokens).toBeLessThan(separate.tokens);
+    expect(structured.elapsedMs).toBeLessThan(separate.elapsedMs);
+  });
+
+  it('structured output spends one extra call per tool the model asks for', async () => {
+    const lookup = jest
+      .spyOn(ExternalAPIService.prototype, 'fetchLocationFromPincode')
+      .mockResolvedValue({ city: 'Pune', state: 'Maharashtra' });
+
+    const script: ScriptRule[] = [
+      {
+        // Second call: the tool result is in the prompt, so the model answers
+        match: 'Tools you ran for this message:\\s*fetch_location_from_pincode',
+        response: JSON.stringify({
+          intent: 'provide_information',
+          reply: 'Thanks, that pincode is in Pune, Maharashtra.',
+          extractedFields: { pincode: '411001' },
+          confidence: 0.9,
+          tool: null,
+        }),
+      },
+      {
+        match: 'Respond with one JSON object matching this schema',
+        response: JSON.stringify({
+          intent: 'provide_information',
+          reply: '',
+          extractedFields: { pincode: '411001' },
+          confidence: 0.9,
+          tool: { tool: 'fetch_location_from_pincode', arguments: { pincode: '411001' } },
+        }),
+      },
+      ...DEFAULT_SCRIPT,
+    ];
+
+    const counter = new UsageCounter();
+    const reply = await createAgent(true, counter, script).handleConversation('My pincode is 411001', newContext());
+
+    expect(counter.calls).toBe(2);
+    expect(lookup).toHaveBeenCalledWith('411001');
+    expect(reply.response).toBe('Thanks, that pincode is in Pune, Maharashtra.');
+    expect(reply.dataUpdates).toMatchObject({ pincode: '411001', city: 'Pune', state: 'Maharashtra' });
+    expect(reply.toolCalls).toHaveLength(1);
+
+    lookup.mockRestore();
+  });
+
+  it('structured output loads policy passages only once the model sees a question', async () => {
+    const script: ScriptRule[] = [
+      {
+        match: 'Onboarding policy passages:\\s*not loaded',
+        response: JSON.stringify({ intent: 'ask_question', reply: '', extractedFields: {}, confidence: 0.8, tool: null }),
+      },
+      {
+        match: 'Respond with one JSON object matching this schema',
+        response: JSON.stringify({
+          intent: 'ask_question',
+          reply: 'A GSTIN is your 15-character GST registration number.',
+          extractedFields: {},
+          confidence: 0.8,
+          tool: null,
+        }),
+      },
+      ...DEFAULT_SCRIPT,
+    ];
+
+    const counter = new UsageCounter();
+    const reply = await createAgent(true, counter, script).handleConversation(
+      'What is a GSTIN and do I need one?',
+      newContext()
+    );
+
+    expect(counter.calls).toBe(2);
+    expect(reply.response).toBe('A GSTIN is your 15-character GST registration number.');
+    expect(reply.citations?.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Auth Controller
+ * Issues access tokens for merchants
+ */
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { signToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { diffFields } from '../utils/fieldHistory';
+import { OtpService, OtpError } from '../services/OtpService';
+import { createSmsProvider } from '../integrations/SmsProvider';
+import { SessionStore, getSessionStore, getOtpStore } from '../stores';
+
+export class AuthController {
+  private otpService: OtpService;
+  private sessionStore: SessionStore;
+
+  constructor(
+    otpService: OtpService = new OtpService(getOtpStore(), createSmsProvider()),
+    sessionStore: SessionStore = getSessionStore()
+  ) {
+    this.otpService = otpService;
+    this.sessionStore = sessionStore;
+  }
+
+  /**
+   * Issue a token for an anonymous merchant.
+   * The token is the merchant's identity until they verify a phone number,
+   * so sessions cannot be read by someone who only knows the sessionId.
+   */
+  issueGuestToken = async (req: Request, res: Response) => {
+    try {
+      const userId = `guest_${uuidv4()}`;
+      const token = signToken({ userId, role: 'merchant' });
+
+      logger.info(`Guest token issued: ${userId}`);
+
+      res.json({
+        success: true,
+        data: { token, userId },
+      });
+    } catch (error) {
+      logger.error('Error issuing guest token:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TOKEN_ISSUE_FAILED',
+          message: 'Failed to issue token',
+        },
+      });
+    }
+  };
+
+  /**
+   * Send a login OTP to a mobile number
+   */
+  requestOtp = async (req: Request, res: Response) => {
+    try {
+      const { phone } = req.body;
+      const result = await this.otpService.requestOtp(phone);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Verification code sent',
+          expiresIn: result.expiresInSeconds,
+        },
+      });
+    } catch (error) {
+      if (error instanceof OtpError) {
+        return this.sendOtpError(res, error);
+      }
+
+      logger.error('Error requesting OTP:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'OTP_REQUEST_FAILED',
+          message: 'Failed to send verification code',
+        },
+      });
+    }
+  };
+
+  /**
+   * Verify a login OTP and issue a token tied to the phone number.
+   * Sessions started under the caller's guest token move to the verified user.
+   */
+  verifyOtp = async (req: Request, res: Response) => {
+    try {
+      const { phone: phoneInput, otp } = req.body;
+      const phone = await this.otpService.verifyOtp(phoneInput, otp);
+      const userId = `phone_${phone}`;
+
+      let claimedSessions = 0;
+      if (req.user?.userId.startsWith('guest_')) {
+        claimedSessions = await this.claimGuestSessions(req.user.userId, userId, phone);
+      }
+
+      const token = signToken({ userId, role: 'merchant', phone });
+      logger.info(`Phone verified, ${claimedSessions} guest session(s) claimed`);
+
+      res.json({
+        success: true,
+        data: { token, userId, phone, claimedSessions },
+      });
+    } catch (error) {
+      if (error instanceof OtpError) {
+        return this.sendOtpError(res, error);
+      }
+
+      logger.error('Error verifying OTP:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'OTP_VERIFY_FAILED',
+          message: 'Failed to verify code',
+        },
+      });
+    }
+  };
+
+  /**
+   * Helper: Re-assign a guest's sessions to the verified user and prefill their phone
+   */
+  private async claimGuestSessions(
+    guestId: string,
+    userId: string,
+    phone: string
+  ): Promise<number> {
+    const sessions = await this.sessionStore.list({ userId: guestId });
+
+    for (const session of sessions) {
+      const merchantData = session.merchantData.phone
+        ? undefined
+        : { ...session.merchantData, phone };
+
+      await this.sessionStore.update(session.sessionId, {
+        userId,
+        merchantData,
+        addFieldChanges: merchantData
+          ? diffFields(session.merchantData, merchantData, {
+            source: 'user',
+            confidence: 1,
+            provider: 'otp_verification',
+          })
+          : undefined,
+      });
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * Helper: Map OTP failures to HTTP responses
+   */
+  private sendOtpError(res: Response, error: OtpError) {
+    const status = error.code === 'OTP_RESEND_THROTTLED' || error.code === 'OTP_ATTEMPTS_EXCEEDED'
+      ? 429
+      : 400;
+
+    if (error.retryAfterSeconds) {
+      res.set('Retry-After', String(error.retryAfterSeconds));
+    }
+
+    return res.status(status).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.retryAfterSeconds ? { retryAfter: error.retryAfterSeconds } : undefined,
+      },
+    });
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Consent Controller
+ * Serves the consent texts and records grants and withdrawals in the consent ledger
+ */
+
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { ConsentService, ConsentError, ConsentContext } from '../services/ConsentService';
+import { ConsentStore, getConsentStore } from '../stores';
+
+export class ConsentController {
+  private consentService: ConsentService;
+
+  constructor(consentStore: ConsentStore = getConsentStore()) {
+    this.consentService = new ConsentService(consentStore);
+  }
+
+  /**
+   * Current consent texts, one per purpose
+   */
+  getTexts = async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: { texts: this.consentService.getCurrentTexts() },
+    });
+  };
+
+  /**
+   * Consent status and full ledger for a session
+   */
+  getConsents = async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+
+      const [consents, ledger] = await Promise.all([
+        this.consentService.getStatus(sessionId),
+        this.consentService.getLedger(sessionId),
+      ]);
+
+      res.json({
+        success: true,
+        data: { consents, ledger },
+      });
+    } catch (error) {
+      logger.error('Error getting consents:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CONSENT_FETCH_FAILED',
+          message: 'Failed to get consents',
+        },
+      });
+    }
+  };
+
+  /**
+   * Grant consent for a purpose against the text version that was shown
+   */
+  grantConsent = async (req: Request, res: Response) => {
+    try {
+      const { purpose, version } = req.body;
+
+      if (!purpose || !version) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'purpose and version are required',
+          },
+        });
+      }
+
+      const record = await this.consentService.grant(this.context(req), purpose, version);
+      logger.info(`Consent granted for ${purpose} (v${version}) on session ${req.params.sessionId}`);
+
+      res.status(201).json({
+        success: true,
+        data: { record },
+      });
+    } catch (error) {
+      if (error instanceof ConsentError) {
+        return this.sendConsentError(res, error);
+      }
+
+      logger.error('Error granting consent:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CONSENT_GRANT_FAILED',
+          message: 'Failed to record consent',
+        },
+      });
+    }
+  };
+
+  /**
+   * Withdraw a previously granted consent
+   */
+  withdrawConsent = async (req: Request, res: Response) => {
+    try {
+      const { purpose } = req.body;
+
+      if (!purpose) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'purpose is required',
+          },
+        });
+      }
+
+      const record = await this.consentService.withdraw(this.context(req), purpose);
+      logger.info(`Consent withdrawn for ${purpose} on session ${req.params.sessionId}`);
+
+      res.status(201).json({
+        success: true,
+        data: { record },
+      });
+    } catch (error) {
+      if (error instanceof ConsentError) {
+        return this.sendConsentError(res, error);
+      }
+
+      logger.error('Error withdrawing consent:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CONSENT_WITHDRAW_FAILED',
+          message: 'Failed to withdraw consent',
+        },
+      });
+    }
+  };
+
+  /**
+   * Who consented, and from where, for the ledger record
+   */
+  private context(req: Request): ConsentContext {
+    return {
+      sessionId: req.params.sessionId,
+      userId: req.user?.userId,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
+  }
+
+  /**
+   * Withdrawing what was never granted conflicts with the ledger; anything else is a bad request
+   */
+  private sendConsentError(res: Response, error: ConsentError) {
+    const status = error.code === 'CONSENT_NOT_GRANTED' ? 409 : 400;
+
+    return res.status(status).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      },
+    });
+  }
+}
+
+export default ConsentController;
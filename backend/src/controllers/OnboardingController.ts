@@ -9,22 +9,68 @@ import { OnboardingAgent } from '../agents/OnboardingAgent';
 import { DocumentProcessor } from '../services/DocumentProcessor';
 import { ValidationEngine } from '../services/ValidationEngine';
 import { ExternalAPIService } from '../integrations/ExternalAPIService';
+import { LLMProvider, getLLMProvider } from '../integrations/LLMProvider';
+import { ConsentService, ConsentError, VERIFICATION_CONSENT } from '../services/ConsentService';
+import { DataRetentionService, ErasureRestrictedError } from '../services/DataRetentionService';
+import { GuardrailService, MERCHANT_FIELDS } from '../services/GuardrailService';
+import { BehaviorAggregator, InvalidTelemetryError, parseTelemetryBatch } from '../services/BehaviorAggregator';
 import { logger } from '../utils/logger';
-import { OnboardingStep } from '../agents/OnboardingAgent';
-
-// In-memory session store (in production, use Redis or Database)
-const sessions = new Map<string, any>();
+import { OnboardingStep, AgentContext } from '../agents/OnboardingAgent';
+import {
+  SessionStore,
+  SessionUpdate,
+  OnboardingSession,
+  VersionConflictError,
+  ConsentStore,
+  ErasureAuditStore,
+  GuardrailEventStore,
+  TelemetryStore,
+  getSessionStore,
+  getConsentStore,
+  getErasureAuditStore,
+  getGuardrailEventStore,
+  getTelemetryStore,
+} from '../stores';
+import { diffFields, FieldProvenance } from '../utils/fieldHistory';
+import { maskFields, maskSession, dropMaskedEchoes } from '../utils/sensitiveData';
+import { openEventStream } from '../utils/sse';
+import { SUPPORTED_LANGUAGES, isLanguageCode } from '../i18n/languages';
+
+type AgentReply = Awaited<ReturnType<OnboardingAgent['handleConversation']>>;
 
 export class OnboardingController {
   private agent: OnboardingAgent;
   private documentProcessor: DocumentProcessor;
   private validationEngine: ValidationEngine;
   private externalAPI: ExternalAPIService;
-
-  constructor() {
-    this.agent = new OnboardingAgent();
-    this.documentProcessor = new DocumentProcessor();
-    this.validationEngine = new ValidationEngine();
+  private sessionStore: SessionStore;
+  private consentService: ConsentService;
+  private retentionService: DataRetentionService;
+  private guardrails: GuardrailService;
+  private behavior: BehaviorAggregator;
+
+  constructor(
+    sessionStore: SessionStore = getSessionStore(),
+    consentStore: ConsentStore = getConsentStore(),
+    erasureAuditStore: ErasureAuditStore = getErasureAuditStore(),
+    llmProvider: LLMProvider = getLLMProvider(),
+    guardrailEventStore: GuardrailEventStore = getGuardrailEventStore(),
+    telemetryStore: TelemetryStore = getTelemetryStore()
+  ) {
+    this.sessionStore = sessionStore;
+    this.consentService = new ConsentService(consentStore);
+    this.retentionService = new DataRetentionService(
+      sessionStore,
+      consentStore,
+      erasureAuditStore,
+      telemetryStore,
+      guardrailEventStore
+    );
+    this.behavior = new BehaviorAggregator(telemetryStore);
+    this.guardrails = new GuardrailService(guardrailEventStore);
+    this.agent = new OnboardingAgent(llmProvider, this.consentService, { guardrails: this.guardrails });
+    this.documentProcessor = new DocumentProcessor(llmProvider);
+    this.validationEngine = new ValidationEngine(llmProvider);
     this.externalAPI = new ExternalAPIService();
   }
 
@@ -34,25 +80,33 @@ export class OnboardingController {
   startSession = async (req: Request, res: Response) => {
     try {
       const sessionId = uuidv4();
-      const session = {
+      const { userId, phone } = req.user;
+      const merchantData = phone ? { phone } : undefined;
+
+      let session = await this.sessionStore.create({
         sessionId,
-        userId: req.body.userId,
-        startedAt: new Date(),
-        lastActivityAt: new Date(),
+        userId,
         currentStep: OnboardingStep.WELCOME,
-        merchantData: {},
-        documents: [],
-        conversationHistory: [],
-        interventions: [],
-        status: 'in_progress',
-      };
+        merchantData,
+      });
+
+      // A verified phone number is known before the merchant types anything
+      if (merchantData) {
+        session = await this.sessionStore.update(sessionId, {
+          addFieldChanges: diffFields({}, merchantData, {
+            source: 'user',
+            confidence: 1,
+            provider: 'otp_verification',
+          }),
+        });
+      }
 
-      sessions.set(sessionId, session);
       logger.info(`New session started: ${sessionId}`);
 
+      this.setSessionHeaders(res, session);
       res.json({
         success: true,
-        data: { sessionId, session },
+        data: { sessionId, session: maskSession(session) },
       });
     } catch (error) {
       logger.error('Error starting session:', error);
@@ -72,9 +126,9 @@ export class OnboardingController {
   resumeSession = async (req: Request, res: Response) => {
     try {
       const { sessionId } = req.params;
-      const session = sessions.get(sessionId);
+      const existing = await this.sessionStore.get(sessionId);
 
-      if (!session) {
+      if (!existing) {
         return res.status(404).json({
           success: false,
           error: {
@@ -84,12 +138,24 @@ export class OnboardingController {
         });
       }
 
-      session.lastActivityAt = new Date();
+      if (existing.status === 'abandoned') {
+        return res.status(410).json({
+          success: false,
+          error: {
+            code: 'SESSION_EXPIRED',
+            message: 'Session expired due to inactivity',
+            details: { lastActivityAt: existing.lastActivityAt },
+          },
+        });
+      }
+
+      const session = await this.sessionStore.update(sessionId, this.activity(existing));
       logger.info(`Session resumed: ${sessionId}`);
 
+      this.setSessionHeaders(res, session);
       res.json({
         success: true,
-        data: session,
+        data: maskSession(session),
       });
     } catch (error) {
       logger.error('Error resuming session:', error);
@@ -104,23 +170,39 @@ export class OnboardingController {
   };
 
   /**
-   * Send a message to the AI agent
+   * List the languages the agent can converse in
    */
-  sendMessage = async (req: Request, res: Response) => {
+  listLanguages = async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: { languages: SUPPORTED_LANGUAGES },
+    });
+  };
+
+  /**
+   * Set the session's reply language. A chosen language is kept rather than
+   * following the language detected in later messages.
+   */
+  setLanguage = async (req: Request, res: Response) => {
     try {
-      const { sessionId, message, context } = req.body;
+      const { sessionId } = req.params;
+      const { language } = req.body;
 
-      if (!sessionId || !message) {
+      if (!isLanguageCode(language)) {
         return res.status(400).json({
           success: false,
           error: {
-            code: 'INVALID_REQUEST',
-            message: 'sessionId and message are required',
+            code: 'UNSUPPORTED_LANGUAGE',
+            message: 'language must be one of the supported language codes',
+            details: { supported: SUPPORTED_LANGUAGES.map(supported => supported.code) },
           },
         });
       }
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.update(sessionId, {
+        language: { code: language, source: 'user' },
+        lastActivityAt: new Date(),
+      });
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -131,69 +213,69 @@ export class OnboardingController {
         });
       }
 
-      // Build agent context
-      const agentContext = {
-        sessionId,
-        currentStep: session.currentStep,
-        merchantData: session.merchantData,
-        conversationHistory: session.conversationHistory || [],
-        userBehavior: {
-          timeOnCurrentStep: 0,
-          totalTimeSpent: Math.floor((new Date().getTime() - new Date(session.startedAt).getTime()) / 1000),
-          fieldsCompleted: Object.keys(session.merchantData).length,
-          fieldsTotal: 13,
-          documentsUploaded: session.documents.length,
-          documentsRequired: 3,
-          hesitationPoints: [],
-          dropOffRisk: 0.2,
-        },
-        extractedDocuments: session.documents,
-      };
-
-      // Get AI response
-      const aiResponse = await this.agent.handleConversation(message, agentContext);
-
-      // Update session
-      session.conversationHistory.push({
-        role: 'user',
-        content: message,
-        timestamp: new Date(),
+      this.setSessionHeaders(res, session);
+      res.json({
+        success: true,
+        data: { language: session.language },
       });
-
-      session.conversationHistory.push({
-        role: 'agent',
-        content: aiResponse.response,
-        timestamp: new Date(),
-        metadata: {
-          suggestedActions: aiResponse.suggestedActions,
-          dataUpdates: aiResponse.dataUpdates,
+    } catch (error) {
+      logger.error('Error setting session language:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'LANGUAGE_UPDATE_FAILED',
+          message: 'Failed to set language',
         },
       });
+    }
+  };
 
-      // Apply data updates if any
-      if (aiResponse.dataUpdates) {
-        session.merchantData = { ...session.merchantData, ...aiResponse.dataUpdates };
+  /**
+   * Send a message to the AI agent
+   */
+  sendMessage = async (req: Request, res: Response) => {
+    try {
+      const { sessionId, message, context } = req.body;
+
+      if (!sessionId || !message) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'sessionId and message are required',
+          },
+        });
       }
 
-      // Update step if needed
-      if (aiResponse.nextStep) {
-        session.currentStep = aiResponse.nextStep;
+      const session = await this.sessionStore.get(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Session not found',
+          },
+        });
       }
 
-      session.lastActivityAt = new Date();
+      const aiResponse = await this.agent.handleConversation(message, await this.buildAgentContext(session));
+      const updated = await this.recordExchange(session, message, aiResponse);
 
+      this.setSessionHeaders(res, updated);
       res.json({
         success: true,
         data: {
           response: {
             message: aiResponse.response,
             suggestedActions: aiResponse.suggestedActions,
-            dataUpdates: aiResponse.dataUpdates,
+            dataUpdates: maskFields(aiResponse.dataUpdates),
             nextStep: aiResponse.nextStep,
+            citations: aiResponse.citations,
           },
           updatedContext: {
-            currentStep: session.currentStep,
-            merchantData: session.merchantData,
+            currentStep: updated.currentStep,
+            merchantData: maskFields(updated.merchantData),
+            language: updated.language,
           },
         },
       });
@@ -209,6 +291,83 @@ export class OnboardingController {
     }
   };
 
+  /**
+   * Streaming variant of sendMessage over Server-Sent Events: "token" events
+   * carry the reply as it is generated, then "suggestedActions", "dataUpdates",
+   * "nextStep" and "citations" follow, and "done" closes the stream
+   */
+  streamMessage = async (req: Request, res: Response) => {
+    const { sessionId, message } = req.body;
+
+    if (!sessionId || !message) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'sessionId and message are required',
+        },
+      });
+    }
+
+    let session: OnboardingSession | null;
+    try {
+      session = await this.sessionStore.get(sessionId);
+    } catch (error) {
+      logger.error('Error loading session for stream:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'MESSAGE_FAILED',
+          message: 'Failed to process message',
+        },
+      });
+    }
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found',
+        },
+      });
+    }
+
+    const stream = openEventStream(res);
+
+    try {
+      const aiResponse = await this.agent.handleConversation(
+        message,
+        await this.buildAgentContext(session),
+        (token) => stream.send('token', { text: token })
+      );
+      const updated = await this.recordExchange(session, message, aiResponse);
+
+      // Headers are already sent, so the new session version travels as an event
+      stream.send('session', { sessionId, etag: `"${updated.version}"` });
+      stream.send('suggestedActions', aiResponse.suggestedActions || []);
+      stream.send('dataUpdates', maskFields(aiResponse.dataUpdates || {}));
+      stream.send('nextStep', aiResponse.nextStep || null);
+      stream.send('citations', aiResponse.citations || []);
+      stream.send('done', {
+        message: aiResponse.response,
+        updatedContext: {
+          currentStep: updated.currentStep,
+          merchantData: maskFields(updated.merchantData),
+          language: updated.language,
+        },
+      });
+    } catch (error) {
+      logger.error('Error streaming message:', error);
+      stream.send('error', {
+        code: 'MESSAGE_FAILED',
+        message: 'Failed to process message',
+      });
+    } finally {
+      stream.close();
+    }
+  };
+
   /**
    * Upload and process a document
    */
@@ -227,7 +386,7 @@ export class OnboardingController {
         });
       }
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -238,11 +397,11 @@ export class OnboardingController {
         });
       }
 
-      // Process document
+      // Process document (the agent may auto-fill high-confidence fields into the context copy)
       const agentContext = {
         sessionId,
         currentStep: session.currentStep,
-        merchantData: session.merchantData,
+        merchantData: { ...session.merchantData },
         conversationHistory: session.conversationHistory,
         userBehavior: {} as any,
         extractedDocuments: session.documents,
@@ -254,29 +413,44 @@ export class OnboardingController {
         agentContext
       );
 
-      // Add to session documents
-      session.documents.push(result);
+      const candidates: Record<string, any> = {};
+      for (const [key, value] of Object.entries(agentContext.merchantData)) {
+        if (value !== session.merchantData[key]) {
+          candidates[key] = value;
+        }
+      }
 
-      // Auto-fill merchant data
-      const autoFilledFields: string[] = [];
+      // Auto-fill merchant data; extracted keys that are not merchant fields
+      // (document dates, bank branch) are only kept on the document
+      const extractedFields: string[] = [];
       if (result.extractedData) {
         for (const [key, value] of Object.entries(result.extractedData)) {
-          if (value && !session.merchantData[key]) {
-            session.merchantData[key] = value;
-            autoFilledFields.push(key);
+          if (value && MERCHANT_FIELDS.includes(key) && !session.merchantData[key] && !(key in candidates)) {
+            candidates[key] = value;
+            extractedFields.push(key);
           }
         }
       }
 
-      session.lastActivityAt = new Date();
+      // Extraction is model output, so it is checked before it is merged
+      const updates = await this.guardrails.screenDataUpdates(sessionId, 'ocr', candidates);
+      const autoFilledFields = extractedFields.filter(key => key in updates);
+
+      const updated = await this.mergeMerchantData(
+        session,
+        updates,
+        { source: 'ocr', confidence: result.confidence, documentId: result.id },
+        { addDocuments: [result], ...this.activity(session) }
+      );
 
       logger.info(`Document processed for session ${sessionId}: ${documentType}`);
 
+      this.setSessionHeaders(res, updated);
       res.json({
         success: true,
         data: {
-          document: result,
-          extractedData: result.extractedData,
+          document: { ...result, extractedData: maskFields(result.extractedData) },
+          extractedData: maskFields(result.extractedData),
           autoFilled: autoFilledFields,
         },
       });
@@ -298,9 +472,8 @@ export class OnboardingController {
   updateData = async (req: Request, res: Response) => {
     try {
       const { sessionId } = req.params;
-      const { data } = req.body;
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -311,14 +484,27 @@ export class OnboardingController {
         });
       }
 
-      session.merchantData = { ...session.merchantData, ...data };
-      session.lastActivityAt = new Date();
+      const merchantData = { ...session.merchantData, ...dropMaskedEchoes(req.body.data, session.merchantData) };
+      const updated = await this.sessionStore.update(sessionId, {
+        merchantData,
+        addFieldChanges: diffFields(session.merchantData, merchantData, {
+          source: 'user',
+          confidence: 1,
+        }),
+        expectedVersion: this.parseIfMatch(req),
+        ...this.activity(session),
+      });
 
+      this.setSessionHeaders(res, updated);
       res.json({
         success: true,
-        data: session.merchantData,
+        data: maskFields(updated.merchantData),
       });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return this.sendConflict(res, error);
+      }
+
       logger.error('Error updating data:', error);
       res.status(500).json({
         success: false,
@@ -337,7 +523,7 @@ export class OnboardingController {
     try {
       const { sessionId, data } = req.body;
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -348,29 +534,59 @@ export class OnboardingController {
         });
       }
 
+      const merchantData = { ...session.merchantData, ...dropMaskedEchoes(data, session.merchantData) };
+
+      // GSTIN and PAN lookups send the merchant's identifiers out, as verification does.
+      // Pincode and IFSC lookups only name a locality or bank branch, so need no consent.
+      if (merchantData.gstin || merchantData.pan) {
+        await this.consentService.requireConsent(sessionId, 'bureau_check');
+      }
+
       const agentContext = {
         sessionId,
         currentStep: session.currentStep,
-        merchantData: { ...session.merchantData, ...data },
+        merchantData,
         conversationHistory: session.conversationHistory,
         userBehavior: {} as any,
         extractedDocuments: session.documents,
       };
 
-      const enrichedData = await this.agent.enrichData(agentContext);
+      const results = await this.agent.enrichDataBySource(agentContext);
+      const enrichedData = Object.assign({}, ...results.map(result => result.data));
 
-      session.merchantData = { ...session.merchantData, ...enrichedData };
-      session.lastActivityAt = new Date();
+      // Later providers win on overlapping fields, so attribute each field to the last one
+      const providerByField: Record<string, string> = {};
+      for (const result of results) {
+        for (const field of Object.keys(result.data)) {
+          providerByField[field] = result.provider;
+        }
+      }
+
+      const updated = await this.mergeMerchantData(
+        session,
+        enrichedData,
+        (field) => ({
+          source: 'external_api',
+          confidence: 0.9,
+          provider: providerByField[field],
+        }),
+        this.activity(session)
+      );
 
+      this.setSessionHeaders(res, updated);
       res.json({
         success: true,
         data: {
-          enrichedData,
+          enrichedData: maskFields(enrichedData),
           sources: ['GST API', 'PAN API', 'IFSC API'],
           confidence: 0.9,
         },
       });
     } catch (error) {
+      if (error instanceof ConsentError) {
+        return this.sendConsentRequired(res, error);
+      }
+
       logger.error('Error enriching data:', error);
       res.status(500).json({
         success: false,
@@ -420,7 +636,7 @@ export class OnboardingController {
     try {
       const { sessionId, verificationType, data } = req.body;
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -431,23 +647,43 @@ export class OnboardingController {
         });
       }
 
+      const purpose = VERIFICATION_CONSENT[verificationType];
+      if (!purpose) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_VERIFICATION_TYPE',
+            message: `verificationType must be one of: ${Object.keys(VERIFICATION_CONSENT).join(', ')}`,
+          },
+        });
+      }
+
+      // No external check is made without a consent record in force
+      const consent = await this.consentService.requireConsent(sessionId, purpose);
+
+      // Masked values echoed back by the client fall back to the stored ones
+      const values = { ...session.merchantData, ...dropMaskedEchoes(data, session.merchantData) };
       let verificationResult;
 
       switch (verificationType) {
         case 'pan':
-          verificationResult = await this.externalAPI.verifyPAN(data.pan);
+          verificationResult = await this.externalAPI.verifyPAN(values.pan);
           break;
         case 'gstin':
-          verificationResult = await this.externalAPI.verifyGSTIN(data.gstin);
+          verificationResult = await this.externalAPI.verifyGSTIN(values.gstin);
           break;
         case 'bank_account':
           verificationResult = await this.externalAPI.verifyBankAccount(
-            data.accountNumber,
-            data.ifscCode
+            values.accountNumber,
+            values.ifscCode
+          );
+          break;
+        case 'aadhaar':
+          verificationResult = await this.externalAPI.initiateAadhaarVerification(
+            values.aadhaar,
+            consent
           );
           break;
-        default:
-          throw new Error('Invalid verification type');
       }
 
       res.json({
@@ -455,6 +691,10 @@ export class OnboardingController {
         data: verificationResult,
       });
     } catch (error) {
+      if (error instanceof ConsentError) {
+        return this.sendConsentRequired(res, error);
+      }
+
       logger.error('Error verifying info:', error);
       res.status(500).json({
         success: false,
@@ -466,6 +706,43 @@ export class OnboardingController {
     }
   };
 
+  /**
+   * Record a batch of client behaviour events (field focus and blur, idle
+   * time, validation errors, step changes) for the agent's metrics
+   */
+  recordTelemetry = async (req: Request, res: Response) => {
+    try {
+      const { sessionId, sentAt, events } = req.body;
+      const parsed = parseTelemetryBatch(events, sentAt);
+
+      await this.behavior.record(sessionId, parsed);
+
+      res.status(202).json({
+        success: true,
+        data: { received: parsed.length },
+      });
+    } catch (error) {
+      if (error instanceof InvalidTelemetryError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_TELEMETRY',
+            message: error.message,
+          },
+        });
+      }
+
+      logger.error('Error recording telemetry:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TELEMETRY_FAILED',
+          message: 'Failed to record telemetry',
+        },
+      });
+    }
+  };
+
   /**
    * Get session progress
    */
@@ -473,7 +750,7 @@ export class OnboardingController {
     try {
       const { sessionId } = req.params;
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -523,7 +800,7 @@ export class OnboardingController {
     try {
       const { sessionId, data } = req.body;
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -534,12 +811,22 @@ export class OnboardingController {
         });
       }
 
-      session.merchantData = { ...session.merchantData, ...data };
-      session.status = 'paused';
-      session.lastActivityAt = new Date();
+      // Masked values echoed back by the client fall back to the stored ones
+      const merchantData = { ...session.merchantData, ...dropMaskedEchoes(data, session.merchantData) };
+      const updated = await this.sessionStore.update(sessionId, {
+        merchantData,
+        addFieldChanges: diffFields(session.merchantData, merchantData, {
+          source: 'user',
+          confidence: 1,
+        }),
+        expectedVersion: this.parseIfMatch(req),
+        status: 'paused',
+        lastActivityAt: new Date(),
+      });
 
       logger.info(`Draft saved for session ${sessionId}`);
 
+      this.setSessionHeaders(res, updated);
       res.json({
         success: true,
         data: {
@@ -547,6 +834,10 @@ export class OnboardingController {
         },
       });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return this.sendConflict(res, error);
+      }
+
       logger.error('Error saving draft:', error);
       res.status(500).json({
         success: false,
@@ -565,7 +856,7 @@ export class OnboardingController {
     try {
       const { sessionId, data } = req.body;
 
-      const session = sessions.get(sessionId);
+      const session = await this.sessionStore.get(sessionId);
       if (!session) {
         return res.status(404).json({
           success: false,
@@ -576,8 +867,14 @@ export class OnboardingController {
         });
       }
 
+      if (session.status === 'completed') {
+        return this.sendAlreadySubmitted(res, session);
+      }
+
+      await this.consentService.requireConsent(sessionId, 'terms');
+
       // Validate all required fields
-      const finalData = { ...session.merchantData, ...data };
+      const finalData = { ...session.merchantData, ...dropMaskedEchoes(data, session.merchantData) };
       const validation = await this.validationEngine.validateMerchantData(finalData);
 
       if (!validation.isValid) {
@@ -591,24 +888,45 @@ export class OnboardingController {
         });
       }
 
-      // Mark session as completed
-      session.status = 'completed';
-      session.merchantData = finalData;
-      session.submittedAt = new Date();
+      // Mark session as completed. Without If-Match the version read above is
+      // expected, so of two concurrent submits only one issues an application
+      const updated = await this.sessionStore.update(sessionId, {
+        status: 'completed',
+        merchantData: finalData,
+        addFieldChanges: diffFields(session.merchantData, finalData, {
+          source: 'user',
+          confidence: 1,
+        }),
+        expectedVersion: this.parseIfMatch(req) ?? session.version,
+        applicationId: uuidv4(),
+        submittedAt: new Date(),
+        lastActivityAt: new Date(),
+      });
 
       logger.info(`Application submitted for session ${sessionId}`);
 
+      this.setSessionHeaders(res, updated);
       // In production, save to database and trigger approval workflow
 
       res.json({
         success: true,
         data: {
           message: 'Application submitted successfully',
-          applicationId: uuidv4(),
+          applicationId: updated.applicationId,
           estimatedApprovalTime: '2-4 hours',
         },
       });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        if (error.current.status === 'completed') {
+          return this.sendAlreadySubmitted(res, error.current);
+        }
+        return this.sendConflict(res, error);
+      }
+      if (error instanceof ConsentError) {
+        return this.sendConsentRequired(res, error);
+      }
+
       logger.error('Error submitting application:', error);
       res.status(500).json({
         success: false,
@@ -620,6 +938,313 @@ export class OnboardingController {
     }
   };
 
+  /**
+   * List the authenticated merchant's sessions, most recent first
+   */
+  listSessions = async (req: Request, res: Response) => {
+    try {
+      const sessions = await this.sessionStore.list({ userId: req.user.userId });
+
+      res.json({
+        success: true,
+        data: {
+          sessions: sessions.map(session => ({
+            sessionId: session.sessionId,
+            status: session.status,
+            currentStep: session.currentStep,
+            businessName: session.merchantData.businessName,
+            applicationId: session.applicationId,
+            startedAt: session.startedAt,
+            lastActivityAt: session.lastActivityAt,
+          })),
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing sessions:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SESSION_LIST_FAILED',
+          message: 'Failed to list sessions',
+        },
+      });
+    }
+  };
+
+  /**
+   * Erase a session's personal data at the merchant's request
+   */
+  eraseSession = async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await this.sessionStore.get(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Session not found',
+          },
+        });
+      }
+
+      const stub = await this.retentionService.eraseOnRequest(session);
+      logger.info(`Session erased on request (ref ${stub.sessionRef})`);
+
+      res.json({
+        success: true,
+        data: {
+          erasedAt: stub.erasedAt,
+          deleted: stub.deleted,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ErasureRestrictedError) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'ERASURE_RESTRICTED',
+            message: error.message,
+          },
+        });
+      }
+
+      logger.error('Error erasing session:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ERASURE_FAILED',
+          message: 'Failed to erase session',
+        },
+      });
+    }
+  };
+
+  /**
+   * Get field-level change history for a session
+   */
+  getHistory = async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const { field } = req.query;
+
+      const session = await this.sessionStore.get(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Session not found',
+          },
+        });
+      }
+
+      const { fieldHistory } = maskSession(session);
+      const changes = field
+        ? fieldHistory.filter(change => change.field === field)
+        : fieldHistory;
+
+      res.json({
+        success: true,
+        data: {
+          sessionId,
+          changes,
+        },
+      });
+    } catch (error) {
+      logger.error('Error getting history:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'HISTORY_FAILED',
+          message: 'Failed to get history',
+        },
+      });
+    }
+  };
+
+  /**
+   * Helper: Merge field updates from a background writer (AI, OCR, enrichment).
+   * These writers read the session before a slow call, so if the merchant edited
+   * in the meantime the updates are re-applied on top of the latest data once
+   * rather than overwriting it.
+   */
+  private async mergeMerchantData(
+    session: OnboardingSession,
+    updates: Record<string, any>,
+    provenance: FieldProvenance | ((field: string) => FieldProvenance),
+    changes: SessionUpdate = {}
+  ): Promise<OnboardingSession> {
+    const attempt = (base: OnboardingSession) => {
+      const merchantData = { ...base.merchantData, ...updates };
+      return this.sessionStore.update(base.sessionId, {
+        ...changes,
+        merchantData,
+        addFieldChanges: diffFields(base.merchantData, merchantData, provenance),
+        expectedVersion: base.version,
+      });
+    };
+
+    try {
+      return await attempt(session);
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) {
+        throw error;
+      }
+      return attempt(error.current);
+    }
+  }
+
+  /**
+   * Helper: Read the expected session version from an If-Match header ("3" or W/"3")
+   */
+  private parseIfMatch(req: Request): number | undefined {
+    const header = req.get('If-Match');
+    if (!header || header.trim() === '*') {
+      return undefined;
+    }
+
+    const version = parseInt(header.replace(/^W\//, '').replace(/"/g, ''), 10);
+    return Number.isNaN(version) ? undefined : version;
+  }
+
+  /**
+   * Helper: Record activity on a session. A saved draft the merchant comes
+   * back to is open again, so it is cached, expires and gets help like any other.
+   */
+  private activity(session: OnboardingSession): SessionUpdate {
+    return session.status === 'paused'
+      ? { status: 'in_progress', lastActivityAt: new Date() }
+      : { lastActivityAt: new Date() };
+  }
+
+  /**
+   * Helper: Build the agent's view of a session, with behaviour metrics from
+   * the client's telemetry
+   */
+  private async buildAgentContext(session: OnboardingSession): Promise<AgentContext> {
+    const behavior = await this.behavior.metricsFor(session);
+
+    return {
+      sessionId: session.sessionId,
+      currentStep: session.currentStep,
+      merchantData: session.merchantData,
+      conversationHistory: session.conversationHistory || [],
+      conversationSummary: session.conversationSummary,
+      language: session.language,
+      userBehavior: {
+        ...behavior,
+        dropOffRisk: this.agent.calculateDropOffRisk(behavior),
+      },
+      extractedDocuments: session.documents,
+    };
+  }
+
+  /**
+   * Helper: Save a chat exchange with any data updates and the next step
+   */
+  private async recordExchange(
+    session: OnboardingSession,
+    message: string,
+    aiResponse: AgentReply
+  ): Promise<OnboardingSession> {
+    const changes: SessionUpdate = {
+      addMessages: [
+        {
+          role: 'user',
+          content: message,
+          timestamp: new Date(),
+        },
+        {
+          role: 'agent',
+          content: aiResponse.response,
+          timestamp: new Date(),
+          metadata: {
+            intent: aiResponse.intent,
+            confidence: aiResponse.confidence,
+            suggestedActions: aiResponse.suggestedActions,
+            dataUpdates: aiResponse.dataUpdates,
+            toolCalls: aiResponse.toolCalls,
+            citations: aiResponse.citations,
+            prompts: aiResponse.prompts,
+          },
+        },
+      ],
+      currentStep: aiResponse.nextStep,
+      conversationSummary: aiResponse.conversationSummary,
+      language: aiResponse.language,
+      ...this.activity(session),
+    };
+
+    return aiResponse.dataUpdates
+      ? this.mergeMerchantData(
+        session,
+        aiResponse.dataUpdates,
+        (field) => aiResponse.fieldProvenance?.[field] || { source: 'ai' },
+        changes
+      )
+      : this.sessionStore.update(session.sessionId, changes);
+  }
+
+  /**
+   * Helper: Expose the session version as an ETag
+   */
+  private setSessionHeaders(res: Response, session: OnboardingSession) {
+    res.set('ETag', `"${session.version}"`);
+    res.set('X-Session-ID', session.sessionId);
+  }
+
+  /**
+   * Helper: Reply with 403 naming the consent that has to be granted first
+   */
+  private sendConsentRequired(res: Response, error: ConsentError) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      },
+    });
+  }
+
+  /**
+   * Helper: Reply with 409 and the server's current data so the client can reconcile
+   */
+  private sendConflict(res: Response, error: VersionConflictError) {
+    this.setSessionHeaders(res, error.current);
+    return res.status(409).json({
+      success: false,
+      error: {
+        code: 'VERSION_CONFLICT',
+        message: 'Session data was modified by another request',
+        details: {
+          version: error.current.version,
+          merchantData: maskFields(error.current.merchantData),
+        },
+      },
+    });
+  }
+
+  /**
+   * Helper: Reject a repeat submit, pointing at the application already issued
+   */
+  private sendAlreadySubmitted(res: Response, session: OnboardingSession) {
+    this.setSessionHeaders(res, session);
+    return res.status(409).json({
+      success: false,
+      error: {
+        code: 'ALREADY_SUBMITTED',
+        message: 'This application has already been submitted',
+        details: {
+          applicationId: session.applicationId,
+          submittedAt: session.submittedAt,
+        },
+      },
+    });
+  }
+
   /**
    * Helper: Get completed steps based on current step
    */
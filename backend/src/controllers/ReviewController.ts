@@ -0,0 +1,224 @@
+/**
+ * Review Controller
+ * Lets the ops team read submitted applications, record decisions and
+ * review what the guardrails flagged
+ */
+
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { hasPermission } from '../utils/roles';
+import { maskSession } from '../utils/sensitiveData';
+import {
+  SessionStore,
+  SessionStatus,
+  ReviewDecision,
+  GuardrailEventStore,
+  GuardrailEventKind,
+  getSessionStore,
+  getGuardrailEventStore,
+} from '../stores';
+
+const DECISIONS: ReviewDecision[] = ['approved', 'rejected', 'needs_info'];
+const GUARDRAIL_EVENT_KINDS: GuardrailEventKind[] = ['prompt_injection', 'off_topic', 'rejected_update'];
+
+export class ReviewController {
+  private sessionStore: SessionStore;
+  private guardrailEventStore: GuardrailEventStore;
+
+  constructor(
+    sessionStore: SessionStore = getSessionStore(),
+    guardrailEventStore: GuardrailEventStore = getGuardrailEventStore()
+  ) {
+    this.sessionStore = sessionStore;
+    this.guardrailEventStore = guardrailEventStore;
+  }
+
+  /**
+   * List applications, submitted ones by default
+   */
+  listApplications = async (req: Request, res: Response) => {
+    try {
+      const status = (req.query.status as SessionStatus) || 'completed';
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+      const sessions = await this.sessionStore.list({ status, limit });
+
+      res.json({
+        success: true,
+        data: {
+          applications: sessions.map(session => ({
+            sessionId: session.sessionId,
+            userId: session.userId,
+            status: session.status,
+            businessName: session.merchantData.businessName,
+            businessType: session.merchantData.businessType,
+            submittedAt: session.submittedAt,
+            applicationId: session.applicationId,
+            review: session.review,
+          })),
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing applications:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATION_LIST_FAILED',
+          message: 'Failed to list applications',
+        },
+      });
+    }
+  };
+
+  /**
+   * Get a full application for review
+   */
+  getApplication = async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const session = await this.sessionStore.get(sessionId);
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'APPLICATION_NOT_FOUND',
+            message: 'Application not found',
+          },
+        });
+      }
+
+      // Identity and bank details are shown in full only to pii:read holders
+      res.json({
+        success: true,
+        data: {
+          application: hasPermission(req.user.role, 'pii:read') ? session : maskSession(session),
+        },
+      });
+    } catch (error) {
+      logger.error('Error getting application:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATION_FETCH_FAILED',
+          message: 'Failed to get application',
+        },
+      });
+    }
+  };
+
+  /**
+   * Record a decision on a submitted application.
+   * Changing an existing decision requires the override permission.
+   */
+  decideApplication = async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const { decision, notes } = req.body;
+
+      if (!DECISIONS.includes(decision)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_DECISION',
+            message: `Decision must be one of: ${DECISIONS.join(', ')}`,
+          },
+        });
+      }
+
+      const session = await this.sessionStore.get(sessionId);
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'APPLICATION_NOT_FOUND',
+            message: 'Application not found',
+          },
+        });
+      }
+
+      if (session.status !== 'completed') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'APPLICATION_NOT_SUBMITTED',
+            message: 'Only submitted applications can be reviewed',
+          },
+        });
+      }
+
+      if (session.review && !hasPermission(req.user.role, 'application:override')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'A senior reviewer is required to change an existing decision',
+            details: { review: session.review },
+          },
+        });
+      }
+
+      const updated = await this.sessionStore.update(sessionId, {
+        review: {
+          decision,
+          notes: notes || undefined,
+          reviewerId: req.user.userId,
+          decidedAt: new Date(),
+        },
+      });
+
+      logger.info(`Application ${sessionId} marked ${decision} by ${req.user.userId}`);
+
+      res.json({
+        success: true,
+        data: { sessionId, review: updated.review },
+      });
+    } catch (error) {
+      logger.error('Error deciding application:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DECISION_FAILED',
+          message: 'Failed to record decision',
+        },
+      });
+    }
+  };
+  /**
+   * List flagged messages, documents and rejected updates, newest first
+   */
+  listGuardrailEvents = async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.query.sessionId as string | undefined;
+      const kind = req.query.kind as GuardrailEventKind | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+      if (kind && !GUARDRAIL_EVENT_KINDS.includes(kind)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_EVENT_KIND',
+            message: `Kind must be one of: ${GUARDRAIL_EVENT_KINDS.join(', ')}`,
+          },
+        });
+      }
+
+      const events = await this.guardrailEventStore.list({ sessionId, kind, limit });
+
+      res.json({
+        success: true,
+        data: { events },
+      });
+    } catch (error) {
+      logger.error('Error listing guardrail events:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GUARDRAIL_EVENT_LIST_FAILED',
+          message: 'Failed to list guardrail events',
+        },
+      });
+    }
+  };
+}
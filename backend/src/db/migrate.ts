@@ -0,0 +1,32 @@
+/**
+ * Migration Runner
+ * Usage: npm run migrate
+ */
+
+import dotenv from 'dotenv';
+import { getPool, closePool } from './pool';
+import { runMigrations } from './migrations';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+const main = async () => {
+  if (!process.env.DATABASE_URL) {
+    logger.error('DATABASE_URL is not set');
+    process.exit(1);
+  }
+
+  try {
+    const applied = await runMigrations(getPool());
+    logger.info(applied.length > 0
+      ? `Applied ${applied.length} migration(s)`
+      : 'Database is up to date');
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+};
+
+main();
@@ -0,0 +1,218 @@
+/**
+ * Database Migrations
+ * Applied in order; each migration runs once and is recorded in schema_migrations
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+
+export interface Migration {
+  id: string;
+  up: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    id: '001_create_onboarding_sessions',
+    up: `
+      CREATE TABLE onboarding_sessions (
+        session_id        UUID PRIMARY KEY,
+        user_id           TEXT,
+        status            TEXT NOT NULL DEFAULT 'in_progress',
+        current_step      TEXT NOT NULL,
+        merchant_data     JSONB NOT NULL DEFAULT '{}'::jsonb,
+        interventions     JSONB NOT NULL DEFAULT '[]'::jsonb,
+        started_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_activity_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        submitted_at      TIMESTAMPTZ
+      );
+
+      CREATE INDEX idx_onboarding_sessions_user_id ON onboarding_sessions (user_id);
+      CREATE INDEX idx_onboarding_sessions_status_activity
+        ON onboarding_sessions (status, last_activity_at);
+    `,
+  },
+  {
+    id: '002_create_session_documents',
+    up: `
+      CREATE TABLE session_documents (
+        id                 BIGSERIAL PRIMARY KEY,
+        session_id         UUID NOT NULL REFERENCES onboarding_sessions (session_id) ON DELETE CASCADE,
+        document_type      TEXT NOT NULL,
+        file_path          TEXT,
+        extracted_data     JSONB NOT NULL DEFAULT '{}'::jsonb,
+        confidence         NUMERIC(4, 3),
+        validation_status  TEXT NOT NULL DEFAULT 'pending',
+        issues             JSONB NOT NULL DEFAULT '[]'::jsonb,
+        created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_session_documents_session_id ON session_documents (session_id);
+    `,
+  },
+  {
+    id: '003_create_conversation_messages',
+    up: `
+      CREATE TABLE conversation_messages (
+        id          BIGSERIAL PRIMARY KEY,
+        session_id  UUID NOT NULL REFERENCES onboarding_sessions (session_id) ON DELETE CASCADE,
+        role        TEXT NOT NULL,
+        content     TEXT NOT NULL,
+        metadata    JSONB,
+        created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_conversation_messages_session_id ON conversation_messages (session_id);
+    `,
+  },
+  {
+    id: '004_create_field_changes',
+    up: `
+      ALTER TABLE session_documents ADD COLUMN document_id UUID;
+
+      CREATE TABLE field_changes (
+        id              BIGSERIAL PRIMARY KEY,
+        session_id      UUID NOT NULL REFERENCES onboarding_sessions (session_id) ON DELETE CASCADE,
+        field           TEXT NOT NULL,
+        value           JSONB,
+        previous_value  JSONB,
+        source          TEXT NOT NULL,
+        confidence      NUMERIC(4, 3),
+        document_id     UUID,
+        provider        TEXT,
+        changed_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_field_changes_session_field ON field_changes (session_id, field);
+    `,
+  },
+  {
+    id: '005_add_session_version',
+    up: `
+      ALTER TABLE onboarding_sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    `,
+  },
+  {
+    id: '006_add_session_review',
+    up: `
+      ALTER TABLE onboarding_sessions ADD COLUMN review JSONB;
+    `,
+  },
+  {
+    // No foreign key: the ledger is evidence of consent and is kept after a session is removed
+    id: '007_create_consent_records',
+    up: `
+      CREATE TABLE consent_records (
+        id            BIGSERIAL PRIMARY KEY,
+        session_id    UUID NOT NULL,
+        user_id       TEXT,
+        purpose       TEXT NOT NULL,
+        action        TEXT NOT NULL,
+        text_version  TEXT NOT NULL,
+        ip_address    TEXT,
+        user_agent    TEXT,
+        recorded_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_consent_records_session_id ON consent_records (session_id);
+    `,
+  },
+  {
+    id: '008_create_erasure_audit',
+    up: `
+      CREATE TABLE erasure_audit (
+        id              BIGSERIAL PRIMARY KEY,
+        session_ref     TEXT NOT NULL,
+        reason          TEXT NOT NULL,
+        data_class      TEXT,
+        session_status  TEXT NOT NULL,
+        deleted         JSONB NOT NULL,
+        erased_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_erasure_audit_session_ref ON erasure_audit (session_ref);
+    `,
+  },
+  {
+    id: '009_add_conversation_summary',
+    up: `
+      ALTER TABLE onboarding_sessions ADD COLUMN conversation_summary JSONB;
+    `,
+  },
+  {
+    // Prompt ID and version behind each extraction, for comparing experiment variants
+    id: '010_add_document_prompt',
+    up: `
+      ALTER TABLE session_documents ADD COLUMN prompt JSONB;
+    `,
+  },
+  {
+    // Reply language and whether the merchant chose it or it was detected
+    id: '011_add_session_language',
+    up: `
+      ALTER TABLE onboarding_sessions ADD COLUMN language JSONB;
+    `,
+  },
+  {
+    id: '012_create_guardrail_events',
+    up: `
+      CREATE TABLE guardrail_events (
+        id          BIGSERIAL PRIMARY KEY,
+        session_id  TEXT NOT NULL,
+        kind        TEXT NOT NULL,
+        origin      TEXT NOT NULL,
+        reasons     JSONB NOT NULL,
+        fields      JSONB,
+        excerpt     TEXT,
+        created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX idx_guardrail_events_session ON guardrail_events (session_id);
+    `,
+  },
+  {
+    // Application id issued when the session is submitted
+    id: '013_add_session_application_id',
+    up: `
+      ALTER TABLE onboarding_sessions ADD COLUMN application_id TEXT;
+    `,
+  },
+];
+
+/**
+ * Apply all pending migrations inside a single transaction
+ */
+export const runMigrations = async (pool: Pool): Promise<string[]> => {
+  const client = await pool.connect();
+  const applied: string[] = [];
+
+  try {
+    await client.query('BEGIN');
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        id          TEXT PRIMARY KEY,
+        applied_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    const { rows } = await client.query('SELECT id FROM schema_migrations');
+    const done = new Set(rows.map(row => row.id));
+
+    for (const migration of migrations) {
+      if (done.has(migration.id)) continue;
+
+      await client.query(migration.up);
+      await client.query('INSERT INTO schema_migrations (id) VALUES ($1)', [migration.id]);
+      applied.push(migration.id);
+      logger.info(`Applied migration ${migration.id}`);
+    }
+
+    await client.query('COMMIT');
+    return applied;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
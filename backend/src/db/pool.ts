@@ -0,0 +1,36 @@
+/**
+ * PostgreSQL Connection Pool
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+
+let pool: Pool | null = null;
+
+/**
+ * Get the shared connection pool, creating it on first use
+ */
+export const getPool = (): Pool => {
+  if (!pool) {
+    pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      max: parseInt(process.env.DATABASE_POOL_SIZE || '10', 10),
+    });
+
+    pool.on('error', (error) => {
+      logger.error(`PostgreSQL pool error: ${error.message}`);
+    });
+  }
+
+  return pool;
+};
+
+/**
+ * Close the shared pool (used on shutdown and by the migration script)
+ */
+export const closePool = async (): Promise<void> => {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+};
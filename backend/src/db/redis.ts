@@ -0,0 +1,38 @@
+/**
+ * Redis Client
+ */
+
+import { createClient, RedisClientType } from 'redis';
+import { logger } from '../utils/logger';
+
+let client: RedisClientType | null = null;
+
+/**
+ * Get the shared Redis client, connecting on first use.
+ * Commands issued before the connection is ready are queued by the client.
+ */
+export const getRedisClient = (): RedisClientType => {
+  if (!client) {
+    client = createClient({ url: process.env.REDIS_URL });
+
+    client.on('error', (error) => {
+      logger.error(`Redis client error: ${error.message}`);
+    });
+
+    client.connect().catch((error) => {
+      logger.error(`Redis connection failed: ${error.message}`);
+    });
+  }
+
+  return client;
+};
+
+/**
+ * Close the shared client
+ */
+export const closeRedisClient = async (): Promise<void> => {
+  if (client) {
+    await client.quit();
+    client = null;
+  }
+};
@@ -0,0 +1,273 @@
+/**
+ * Localised Catalogue
+ * The agent's canned texts (proactive interventions, suggested actions and
+ * refusals) in every supported language
+ */
+
+import { LanguageCode } from './languages';
+
+export interface Intervention {
+  response: string;
+  suggestedActions: string[];
+}
+
+export interface Catalog {
+  interventions: {
+    stuck: Intervention; // High drop-off risk
+    slow: Intervention; // Long time on the current step
+    autoFill: Intervention; // Little progress after a while
+  };
+  suggestions: {
+    welcome: string[];
+    businessInfoWithoutGst: string[];
+    businessInfo: string[];
+    documentUpload: string[];
+    formCompletion: string[];
+    review: string[];
+    other: string[];
+  };
+  refusals: {
+    offTopic: string; // Message unrelated to onboarding
+    injection: string; // Message trying to instruct the assistant
+  };
+}
+
+const CATALOGS: Record<LanguageCode, Catalog> = {
+  en: {
+    interventions: {
+      stuck: {
+        response: "I notice you might be stuck. No worries! I'm here to help. What's confusing you right now?",
+        suggestedActions: ['Explain this step', 'Show an example', 'Skip for now'],
+      },
+      slow: {
+        response: 'Taking your time is fine! Would you like me to explain this section or provide an example?',
+        suggestedActions: ['Yes, explain this', 'Show an example', "I'm fine, thanks"],
+      },
+      autoFill: {
+        response: 'I can help speed this up! Would you like me to auto-fill information from your documents?',
+        suggestedActions: ['Yes, please auto-fill', 'No, I prefer manual entry'],
+      },
+    },
+    suggestions: {
+      welcome: ['Get started', 'Learn more about the process', 'Estimated time: 10 minutes'],
+      businessInfoWithoutGst: ['Enter GST number', "I don't have GST", 'What is GST?'],
+      businessInfo: ['Continue', 'Review information'],
+      documentUpload: ['Upload document', 'Take a photo', 'What documents do I need?', 'Why is this needed?'],
+      formCompletion: ['Auto-fill from documents', 'Continue manually', 'Save and continue later'],
+      review: ['Submit application', 'Edit information', 'How long for approval?'],
+      other: ['Continue', 'Get help'],
+    },
+    refusals: {
+      offTopic: 'I can only help with setting up your payment gateway account. Is there anything about your onboarding I can help with?',
+      injection: "I can't follow instructions that change how I work or the status of your application. I'm happy to keep helping with your onboarding.",
+    },
+  },
+  hi: {
+    interventions: {
+      stuck: {
+        response: 'लगता है आप अटक गए हैं। कोई बात नहीं! मैं मदद के लिए यहाँ हूँ। अभी आपको क्या समझ नहीं आ रहा है?',
+        suggestedActions: ['यह चरण समझाइए', 'एक उदाहरण दिखाइए', 'अभी के लिए छोड़ें'],
+      },
+      slow: {
+        response: 'आराम से समय लीजिए! क्या मैं यह हिस्सा समझाऊँ या एक उदाहरण दूँ?',
+        suggestedActions: ['हाँ, समझाइए', 'एक उदाहरण दिखाइए', 'मैं ठीक हूँ, धन्यवाद'],
+      },
+      autoFill: {
+        response: 'मैं इसे जल्दी पूरा करने में मदद कर सकता हूँ! क्या मैं आपके दस्तावेज़ों से जानकारी अपने-आप भर दूँ?',
+        suggestedActions: ['हाँ, अपने-आप भर दीजिए', 'नहीं, खुद भरना है'],
+      },
+    },
+    suggestions: {
+      welcome: ['शुरू करें', 'प्रक्रिया के बारे में जानें', 'अनुमानित समय: 10 मिनट'],
+      businessInfoWithoutGst: ['GST नंबर दर्ज करें', 'मेरे पास GST नहीं है', 'GST क्या है?'],
+      businessInfo: ['आगे बढ़ें', 'जानकारी देखें'],
+      documentUpload: ['दस्तावेज़ अपलोड करें', 'फ़ोटो लें', 'कौन से दस्तावेज़ चाहिए?', 'यह क्यों ज़रूरी है?'],
+      formCompletion: ['दस्तावेज़ों से अपने-आप भरें', 'खुद भरना जारी रखें', 'सेव करें और बाद में जारी रखें'],
+      review: ['आवेदन जमा करें', 'जानकारी बदलें', 'मंज़ूरी में कितना समय लगेगा?'],
+      other: ['आगे बढ़ें', 'मदद लें'],
+    },
+    refusals: {
+      offTopic: 'मैं केवल आपके पेमेंट गेटवे खाते को सेट अप करने में मदद कर सकता हूँ। क्या ऑनबोर्डिंग से जुड़ी किसी बात में मैं आपकी मदद करूँ?',
+      injection: 'मैं ऐसे निर्देशों का पालन नहीं कर सकता जो मेरे काम करने का तरीका या आपके आवेदन की स्थिति बदलें। ऑनबोर्डिंग में आपकी मदद करते रहना मुझे खुशी देगा।',
+    },
+  },
+  mr: {
+    interventions: {
+      stuck: {
+        response: 'तुम्ही अडकलात असे दिसते. काळजी करू नका! मी मदतीसाठी इथे आहे. तुम्हाला आत्ता काय समजत नाहीये?',
+        suggestedActions: ['ही पायरी समजावून सांगा', 'एक उदाहरण दाखवा', 'आत्तासाठी वगळा'],
+      },
+      slow: {
+        response: 'सावकाश वेळ घ्या! हा भाग मी समजावून सांगू की एक उदाहरण देऊ?',
+        suggestedActions: ['हो, समजावून सांगा', 'एक उदाहरण दाखवा', 'मी ठीक आहे, धन्यवाद'],
+      },
+      autoFill: {
+        response: 'मी हे लवकर पूर्ण करायला मदत करू शकतो! तुमच्या कागदपत्रांमधून माहिती आपोआप भरू का?',
+        suggestedActions: ['हो, आपोआप भरा', 'नाही, मी स्वतः भरेन'],
+      },
+    },
+    suggestions: {
+      welcome: ['सुरू करा', 'प्रक्रियेबद्दल जाणून घ्या', 'अंदाजे वेळ: 10 मिनिटे'],
+      businessInfoWithoutGst: ['GST क्रमांक टाका', 'माझ्याकडे GST नाही', 'GST म्हणजे काय?'],
+      businessInfo: ['पुढे चला', 'माहिती तपासा'],
+      documentUpload: ['कागदपत्र अपलोड करा', 'फोटो काढा', 'कोणती कागदपत्रे लागतील?', 'हे का आवश्यक आहे?'],
+      formCompletion: ['कागदपत्रांमधून आपोआप भरा', 'स्वतः भरणे सुरू ठेवा', 'सेव्ह करा आणि नंतर सुरू ठेवा'],
+      review: ['अर्ज सबमिट करा', 'माहिती बदला', 'मंजुरीला किती वेळ लागेल?'],
+      other: ['पुढे चला', 'मदत घ्या'],
+    },
+    refusals: {
+      offTopic: 'मी फक्त तुमचे पेमेंट गेटवे खाते सेट अप करण्यात मदत करू शकतो. ऑनबोर्डिंगबद्दल मी तुम्हाला कशात मदत करू?',
+      injection: 'माझी काम करण्याची पद्धत किंवा तुमच्या अर्जाची स्थिती बदलणाऱ्या सूचना मी पाळू शकत नाही. ऑनबोर्डिंगमध्ये मदत करत राहायला मला आनंद होईल.',
+    },
+  },
+  ta: {
+    interventions: {
+      stuck: {
+        response: 'நீங்கள் சிக்கிக்கொண்டிருப்பது போல் தெரிகிறது. கவலை வேண்டாம்! உதவ நான் இருக்கிறேன். இப்போது எது புரியவில்லை?',
+        suggestedActions: ['இந்தப் படியை விளக்குங்கள்', 'ஒரு உதாரணம் காட்டுங்கள்', 'இப்போதைக்குத் தவிர்க்கவும்'],
+      },
+      slow: {
+        response: 'நிதானமாக நேரம் எடுத்துக்கொள்ளுங்கள்! இந்தப் பகுதியை விளக்கட்டுமா அல்லது ஒரு உதாரணம் தரட்டுமா?',
+        suggestedActions: ['ஆம், விளக்குங்கள்', 'ஒரு உதாரணம் காட்டுங்கள்', 'பரவாயில்லை, நன்றி'],
+      },
+      autoFill: {
+        response: 'இதை விரைவாக முடிக்க நான் உதவ முடியும்! உங்கள் ஆவணங்களிலிருந்து தகவல்களைத் தானாக நிரப்பட்டுமா?',
+        suggestedActions: ['ஆம், தானாக நிரப்புங்கள்', 'வேண்டாம், நானே நிரப்புகிறேன்'],
+      },
+    },
+    suggestions: {
+      welcome: ['தொடங்குங்கள்', 'செயல்முறை பற்றி அறிக', 'தோராயமான நேரம்: 10 நிமிடங்கள்'],
+      businessInfoWithoutGst: ['GST எண்ணை உள்ளிடுங்கள்', 'என்னிடம் GST இல்லை', 'GST என்றால் என்ன?'],
+      businessInfo: ['தொடரவும்', 'தகவலைச் சரிபார்க்கவும்'],
+      documentUpload: ['ஆவணத்தைப் பதிவேற்றவும்', 'புகைப்படம் எடுக்கவும்', 'எந்த ஆவணங்கள் தேவை?', 'இது ஏன் தேவை?'],
+      formCompletion: ['ஆவணங்களிலிருந்து தானாக நிரப்பவும்', 'நானே நிரப்புகிறேன்', 'சேமித்து பிறகு தொடரவும்'],
+      review: ['விண்ணப்பத்தைச் சமர்ப்பிக்கவும்', 'தகவலைத் திருத்தவும்', 'ஒப்புதலுக்கு எவ்வளவு நேரம் ஆகும்?'],
+      other: ['தொடரவும்', 'உதவி பெறவும்'],
+    },
+    refusals: {
+      offTopic: 'உங்கள் பேமெண்ட் கேட்வே கணக்கை அமைப்பதில் மட்டுமே என்னால் உதவ முடியும். உங்கள் ஆன்போர்டிங் பற்றி ஏதாவது உதவி வேண்டுமா?',
+      injection: 'நான் செயல்படும் விதத்தையோ உங்கள் விண்ணப்பத்தின் நிலையையோ மாற்றும் அறிவுறுத்தல்களை என்னால் பின்பற்ற முடியாது. உங்கள் ஆன்போர்டிங்கில் தொடர்ந்து உதவ மகிழ்ச்சி.',
+    },
+  },
+  bn: {
+    interventions: {
+      stuck: {
+        response: 'মনে হচ্ছে আপনি আটকে গেছেন। চিন্তা করবেন না! আমি সাহায্য করতে আছি। এখন কোন বিষয়টা বুঝতে অসুবিধা হচ্ছে?',
+        suggestedActions: ['এই ধাপটি বুঝিয়ে বলুন', 'একটি উদাহরণ দেখান', 'আপাতত বাদ দিন'],
+      },
+      slow: {
+        response: 'সময় নিন, কোনো তাড়া নেই! আমি কি এই অংশটি বুঝিয়ে বলব, নাকি একটি উদাহরণ দেব?',
+        suggestedActions: ['হ্যাঁ, বুঝিয়ে বলুন', 'একটি উদাহরণ দেখান', 'আমি ঠিক আছি, ধন্যবাদ'],
+      },
+      autoFill: {
+        response: 'আমি এটা তাড়াতাড়ি শেষ করতে সাহায্য করতে পারি! আপনার নথি থেকে তথ্য কি নিজে থেকে পূরণ করে দেব?',
+        suggestedActions: ['হ্যাঁ, পূরণ করে দিন', 'না, আমি নিজে পূরণ করব'],
+      },
+    },
+    suggestions: {
+      welcome: ['শুরু করুন', 'প্রক্রিয়া সম্পর্কে জানুন', 'আনুমানিক সময়: 10 মিনিট'],
+      businessInfoWithoutGst: ['GST নম্বর লিখুন', 'আমার GST নেই', 'GST কী?'],
+      businessInfo: ['এগিয়ে যান', 'তথ্য দেখে নিন'],
+      documentUpload: ['নথি আপলোড করুন', 'ছবি তুলুন', 'কোন নথি লাগবে?', 'এটা কেন দরকার?'],
+      formCompletion: ['নথি থেকে পূরণ করুন', 'নিজে পূরণ করতে থাকুন', 'সেভ করে পরে চালিয়ে যান'],
+      review: ['আবেদন জমা দিন', 'তথ্য সম্পাদনা করুন', 'অনুমোদনে কত সময় লাগবে?'],
+      other: ['এগিয়ে যান', 'সাহায্য নিন'],
+    },
+    refusals: {
+      offTopic: 'আমি শুধু আপনার পেমেন্ট গেটওয়ে অ্যাকাউন্ট সেট আপ করতে সাহায্য করতে পারি। অনবোর্ডিং নিয়ে কোনো বিষয়ে সাহায্য করব?',
+      injection: 'আমার কাজের ধরন বা আপনার আবেদনের অবস্থা বদলায় এমন নির্দেশ আমি মানতে পারি না। অনবোর্ডিংয়ে সাহায্য করে যেতে পেরে আমি খুশি।',
+    },
+  },
+  te: {
+    interventions: {
+      stuck: {
+        response: 'మీరు ఎక్కడో ఆగిపోయినట్లు అనిపిస్తోంది. పర్వాలేదు! సహాయం చేయడానికి నేను ఉన్నాను. ఇప్పుడు మీకు ఏది అర్థం కావడం లేదు?',
+        suggestedActions: ['ఈ దశను వివరించండి', 'ఒక ఉదాహరణ చూపించండి', 'ప్రస్తుతానికి దాటవేయండి'],
+      },
+      slow: {
+        response: 'నిదానంగా సమయం తీసుకోండి! ఈ భాగాన్ని వివరించమంటారా లేదా ఒక ఉదాహరణ ఇవ్వమంటారా?',
+        suggestedActions: ['అవును, వివరించండి', 'ఒక ఉదాహరణ చూపించండి', 'పర్వాలేదు, ధన్యవాదాలు'],
+      },
+      autoFill: {
+        response: 'దీన్ని త్వరగా పూర్తి చేయడానికి నేను సహాయం చేయగలను! మీ పత్రాల నుండి సమాచారాన్ని ఆటోమేటిక్‌గా నింపమంటారా?',
+        suggestedActions: ['అవును, ఆటోమేటిక్‌గా నింపండి', 'వద్దు, నేనే నింపుతాను'],
+      },
+    },
+    suggestions: {
+      welcome: ['ప్రారంభించండి', 'ప్రక్రియ గురించి తెలుసుకోండి', 'అంచనా సమయం: 10 నిమిషాలు'],
+      businessInfoWithoutGst: ['GST నంబర్ నమోదు చేయండి', 'నా దగ్గర GST లేదు', 'GST అంటే ఏమిటి?'],
+      businessInfo: ['కొనసాగించండి', 'సమాచారాన్ని సమీక్షించండి'],
+      documentUpload: ['పత్రాన్ని అప్‌లోడ్ చేయండి', 'ఫోటో తీయండి', 'ఏ పత్రాలు కావాలి?', 'ఇది ఎందుకు అవసరం?'],
+      formCompletion: ['పత్రాల నుండి ఆటోమేటిక్‌గా నింపండి', 'నేనే నింపుతాను', 'సేవ్ చేసి తర్వాత కొనసాగించండి'],
+      review: ['దరఖాస్తును సమర్పించండి', 'సమాచారాన్ని మార్చండి', 'ఆమోదానికి ఎంత సమయం పడుతుంది?'],
+      other: ['కొనసాగించండి', 'సహాయం పొందండి'],
+    },
+    refusals: {
+      offTopic: 'మీ పేమెంట్ గేట్‌వే ఖాతాను సెటప్ చేయడంలో మాత్రమే నేను సహాయం చేయగలను. మీ ఆన్‌బోర్డింగ్ గురించి ఏదైనా సహాయం కావాలా?',
+      injection: 'నేను పనిచేసే విధానాన్ని లేదా మీ దరఖాస్తు స్థితిని మార్చే సూచనలను నేను పాటించలేను. మీ ఆన్‌బోర్డింగ్‌లో సహాయం కొనసాగించడానికి సంతోషిస్తాను.',
+    },
+  },
+  gu: {
+    interventions: {
+      stuck: {
+        response: 'લાગે છે કે તમે અટવાઈ ગયા છો. ચિંતા ન કરો! હું મદદ માટે અહીં છું. અત્યારે તમને શું સમજાતું નથી?',
+        suggestedActions: ['આ પગલું સમજાવો', 'એક ઉદાહરણ બતાવો', 'હાલ પૂરતું છોડી દો'],
+      },
+      slow: {
+        response: 'નિરાંતે સમય લો! શું હું આ ભાગ સમજાવું કે એક ઉદાહરણ આપું?',
+        suggestedActions: ['હા, સમજાવો', 'એક ઉદાહરણ બતાવો', 'હું ઠીક છું, આભાર'],
+      },
+      autoFill: {
+        response: 'હું આ ઝડપથી પૂરું કરવામાં મદદ કરી શકું છું! શું હું તમારા દસ્તાવેજોમાંથી માહિતી આપમેળે ભરી દઉં?',
+        suggestedActions: ['હા, આપમેળે ભરી દો', 'ના, હું જાતે ભરીશ'],
+      },
+    },
+    suggestions: {
+      welcome: ['શરૂ કરો', 'પ્રક્રિયા વિશે જાણો', 'અંદાજિત સમય: 10 મિનિટ'],
+      businessInfoWithoutGst: ['GST નંબર દાખલ કરો', 'મારી પાસે GST નથી', 'GST શું છે?'],
+      businessInfo: ['આગળ વધો', 'માહિતી તપાસો'],
+      documentUpload: ['દસ્તાવેજ અપલોડ કરો', 'ફોટો લો', 'કયા દસ્તાવેજો જોઈએ?', 'આ શા માટે જરૂરી છે?'],
+      formCompletion: ['દસ્તાવેજોમાંથી આપમેળે ભરો', 'જાતે ભરવાનું ચાલુ રાખો', 'સેવ કરો અને પછી ચાલુ રાખો'],
+      review: ['અરજી સબમિટ કરો', 'માહિતી બદલો', 'મંજૂરીમાં કેટલો સમય લાગશે?'],
+      other: ['આગળ વધો', 'મદદ લો'],
+    },
+    refusals: {
+      offTopic: 'હું ફક્ત તમારું પેમેન્ટ ગેટવે ખાતું સેટ અપ કરવામાં મદદ કરી શકું છું. ઓનબોર્ડિંગ વિશે હું તમને શેમાં મદદ કરું?',
+      injection: 'મારી કામ કરવાની રીત અથવા તમારી અરજીની સ્થિતિ બદલતી સૂચનાઓ હું અનુસરી શકતો નથી. ઓનબોર્ડિંગમાં મદદ કરતા રહેવામાં મને આનંદ થશે.',
+    },
+  },
+  kn: {
+    interventions: {
+      stuck: {
+        response: 'ನೀವು ಎಲ್ಲೋ ಸಿಲುಕಿಕೊಂಡಿರುವಂತೆ ಕಾಣುತ್ತದೆ. ಚಿಂತೆ ಬೇಡ! ಸಹಾಯ ಮಾಡಲು ನಾನು ಇದ್ದೇನೆ. ಈಗ ನಿಮಗೆ ಏನು ಅರ್ಥವಾಗುತ್ತಿಲ್ಲ?',
+        suggestedActions: ['ಈ ಹಂತವನ್ನು ವಿವರಿಸಿ', 'ಒಂದು ಉದಾಹರಣೆ ತೋರಿಸಿ', 'ಸದ್ಯಕ್ಕೆ ಬಿಟ್ಟುಬಿಡಿ'],
+      },
+      slow: {
+        response: 'ನಿಧಾನವಾಗಿ ಸಮಯ ತೆಗೆದುಕೊಳ್ಳಿ! ಈ ಭಾಗವನ್ನು ವಿವರಿಸಲೇ ಅಥವಾ ಒಂದು ಉದಾಹರಣೆ ಕೊಡಲೇ?',
+        suggestedActions: ['ಹೌದು, ವಿವರಿಸಿ', 'ಒಂದು ಉದಾಹರಣೆ ತೋರಿಸಿ', 'ಪರವಾಗಿಲ್ಲ, ಧನ್ಯವಾದಗಳು'],
+      },
+      autoFill: {
+        response: 'ಇದನ್ನು ಬೇಗ ಮುಗಿಸಲು ನಾನು ಸಹಾಯ ಮಾಡಬಲ್ಲೆ! ನಿಮ್ಮ ದಾಖಲೆಗಳಿಂದ ಮಾಹಿತಿಯನ್ನು ಸ್ವಯಂಚಾಲಿತವಾಗಿ ತುಂಬಿಸಲೇ?',
+        suggestedActions: ['ಹೌದು, ಸ್ವಯಂಚಾಲಿತವಾಗಿ ತುಂಬಿಸಿ', 'ಬೇಡ, ನಾನೇ ತುಂಬುತ್ತೇನೆ'],
+      },
+    },
+    suggestions: {
+      welcome: ['ಪ್ರಾರಂಭಿಸಿ', 'ಪ್ರಕ್ರಿಯೆಯ ಬಗ್ಗೆ ತಿಳಿಯಿರಿ', 'ಅಂದಾಜು ಸಮಯ: 10 ನಿಮಿಷಗಳು'],
+      businessInfoWithoutGst: ['GST ಸಂಖ್ಯೆ ನಮೂದಿಸಿ', 'ನನ್ನ ಬಳಿ GST ಇಲ್ಲ', 'GST ಎಂದರೇನು?'],
+      businessInfo: ['ಮುಂದುವರಿಸಿ', 'ಮಾಹಿತಿಯನ್ನು ಪರಿಶೀಲಿಸಿ'],
+      documentUpload: ['ದಾಖಲೆಯನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ', 'ಫೋಟೋ ತೆಗೆಯಿರಿ', 'ಯಾವ ದಾಖಲೆಗಳು ಬೇಕು?', 'ಇದು ಏಕೆ ಅಗತ್ಯ?'],
+      formCompletion: ['ದಾಖಲೆಗಳಿಂದ ಸ್ವಯಂ ತುಂಬಿಸಿ', 'ನಾನೇ ತುಂಬುತ್ತೇನೆ', 'ಉಳಿಸಿ ಮತ್ತು ನಂತರ ಮುಂದುವರಿಸಿ'],
+      review: ['ಅರ್ಜಿಯನ್ನು ಸಲ್ಲಿಸಿ', 'ಮಾಹಿತಿಯನ್ನು ಬದಲಿಸಿ', 'ಅನುಮೋದನೆಗೆ ಎಷ್ಟು ಸಮಯ ಬೇಕು?'],
+      other: ['ಮುಂದುವರಿಸಿ', 'ಸಹಾಯ ಪಡೆಯಿರಿ'],
+    },
+    refusals: {
+      offTopic: 'ನಿಮ್ಮ ಪೇಮೆಂಟ್ ಗೇಟ್‌ವೇ ಖಾತೆಯನ್ನು ಹೊಂದಿಸಲು ಮಾತ್ರ ನಾನು ಸಹಾಯ ಮಾಡಬಲ್ಲೆ. ನಿಮ್ಮ ಆನ್‌ಬೋರ್ಡಿಂಗ್ ಬಗ್ಗೆ ಏನಾದರೂ ಸಹಾಯ ಬೇಕೆ?',
+      injection: 'ನಾನು ಕೆಲಸ ಮಾಡುವ ರೀತಿಯನ್ನು ಅಥವಾ ನಿಮ್ಮ ಅರ್ಜಿಯ ಸ್ಥಿತಿಯನ್ನು ಬದಲಾಯಿಸುವ ಸೂಚನೆಗಳನ್ನು ನಾನು ಪಾಲಿಸಲಾರೆ. ನಿಮ್ಮ ಆನ್‌ಬೋರ್ಡಿಂಗ್‌ನಲ್ಲಿ ಸಹಾಯ ಮುಂದುವರಿಸಲು ಸಂತೋಷ.',
+    },
+  },
+};
+
+/**
+ * The catalogue for a language, falling back to English
+ */
+export const catalogFor = (code?: LanguageCode): Catalog => CATALOGS[code || 'en'] || CATALOGS.en;
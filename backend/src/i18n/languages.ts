@@ -0,0 +1,154 @@
+/**
+ * Languages
+ * The languages merchants can onboard in, detection of the language a chat
+ * message is written in, and normalisation of values typed in Indian scripts
+ */
+
+export type LanguageCode = 'en' | 'hi' | 'mr' | 'ta' | 'bn' | 'te' | 'gu' | 'kn';
+
+export interface SupportedLanguage {
+  code: LanguageCode;
+  name: string; // English name, used in prompts
+  nativeName: string;
+}
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * A session's reply language. A language the merchant chose is kept; a
+ * detected one follows the language of their latest message.
+ */
+export interface SessionLanguage {
+  code: LanguageCode;
+  source: 'user' | 'detected';
+}
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  SUPPORTED_LANGUAGES.some(language => language.code === value);
+
+export const languageName = (code: LanguageCode): string =>
+  SUPPORTED_LANGUAGES.find(language => language.code === code)!.name;
+
+// Unicode blocks of the scripts we detect. Devanagari is shared by Hindi and Marathi.
+const SCRIPTS: Array<{ pattern: RegExp; languages: LanguageCode[] }> = [
+  { pattern: /[\u0900-\u097F]/g, languages: ['hi', 'mr'] },
+  { pattern: /[\u0980-\u09FF]/g, languages: ['bn'] },
+  { pattern: /[\u0A80-\u0AFF]/g, languages: ['gu'] },
+  { pattern: /[\u0B80-\u0BFF]/g, languages: ['ta'] },
+  { pattern: /[\u0C00-\u0C7F]/g, languages: ['te'] },
+  { pattern: /[\u0C80-\u0CFF]/g, languages: ['kn'] },
+];
+
+// Common words that tell Marathi apart from Hindi
+const MARATHI_WORDS = new Set(['आहे', 'आहेत', 'माझे', 'माझा', 'माझी', 'माझ्या', 'नाही', 'आणि', 'मला', 'आम्ही', 'तुम्ही', 'काय', 'कसे', 'करा', 'हवे']);
+const HINDI_WORDS = new Set(['है', 'हैं', 'मेरा', 'मेरी', 'मेरे', 'नहीं', 'और', 'मुझे', 'क्या', 'कैसे', 'हम', 'आप', 'का', 'की', 'के']);
+
+// Fewer characters than this in a script is not enough to go on
+const MIN_SCRIPT_CHARS = 2;
+
+/**
+ * The language a message is written in, from the script it uses.
+ * Returns null when the message has too little text to tell, such as a GSTIN
+ * or a one-word reply, so the session keeps its current language.
+ * Romanised Hindi and other languages typed in Latin script read as English.
+ */
+export const detectLanguage = (text: string): LanguageCode | null => {
+  let best: { languages: LanguageCode[]; count: number } | null = null;
+
+  for (const { pattern, languages } of SCRIPTS) {
+    const count = (text.match(pattern) || []).length;
+    if (count >= MIN_SCRIPT_CHARS && (!best || count > best.count)) {
+      best = { languages, count };
+    }
+  }
+
+  if (best) {
+    if (best.languages.length === 1) {
+      return best.languages[0];
+    }
+
+    const words = text.split(/[\s,.!?।]+/);
+    const marathi = words.filter(word => MARATHI_WORDS.has(word)).length;
+    const hindi = words.filter(word => HINDI_WORDS.has(word)).length;
+    return marathi > hindi ? 'mr' : 'hi';
+  }
+
+  // At least two words of letters, so identifiers and "ok" don't switch the language
+  const latinWords = text.match(/\b[A-Za-z]{2,}\b/g) || [];
+  return latinWords.length >= 2 ? 'en' : null;
+};
+
+/**
+ * The session language after a message: a language the merchant chose is
+ * kept, otherwise it follows the detected language. Returns null when it is
+ * unchanged.
+ */
+export const resolveSessionLanguage = (
+  current: SessionLanguage | undefined,
+  message: string
+): SessionLanguage | null => {
+  if (current?.source === 'user') return null;
+
+  const detected = detectLanguage(message);
+  if (!detected || detected === (current?.code || DEFAULT_LANGUAGE)) return null;
+
+  return { code: detected, source: 'detected' };
+};
+
+/**
+ * Replace digits written in Indian scripts with 0-9. Every script's digits
+ * run in order from a code point ending in 6, so the low nibble gives the value.
+ */
+export const toAsciiDigits = (text: string): string =>
+  text.replace(
+    /[\u0966-\u096F\u09E6-\u09EF\u0AE6-\u0AEF\u0BE6-\u0BEF\u0C66-\u0C6F\u0CE6-\u0CEF]/g,
+    digit => String((digit.charCodeAt(0) & 0xF) - 6)
+  );
+
+// Identifiers stored in upper case
+const UPPERCASE_FIELDS = new Set(['gstin', 'pan', 'ifscCode']);
+
+/**
+ * Bring values extracted from a conversation in any language to the canonical
+ * form they are stored in: ASCII digits, upper-case identifiers and lower-case
+ * email. Values still outside ASCII (a name the model did not transliterate)
+ * are returned in dropped rather than stored.
+ */
+export const normalizeExtractedFields = (
+  fields: Record<string, any>
+): { fields: Record<string, any>; dropped: string[] } => {
+  const result: Record<string, any> = {};
+  const dropped: string[] = [];
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== 'string') {
+      result[field] = value;
+      continue;
+    }
+
+    let normalized = toAsciiDigits(value).trim();
+    if (UPPERCASE_FIELDS.has(field)) normalized = normalized.toUpperCase();
+    if (field === 'email') normalized = normalized.toLowerCase();
+
+    if (!normalized) continue;
+    if (/[^\x20-\x7E]/.test(normalized)) {
+      dropped.push(field);
+      continue;
+    }
+
+    result[field] = normalized;
+  }
+
+  return { fields: result, dropped };
+};
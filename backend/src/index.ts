@@ -3,25 +3,48 @@
  * AI-Powered Merchant Onboarding API
  */
 
+// Load environment variables before any module reads them
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import dotenv from 'dotenv';
 import { onboardingRouter } from './routes/onboarding';
+import { authRouter } from './routes/auth';
+import { reviewRouter } from './routes/review';
+import { consentRouter } from './routes/consent';
 import { errorHandler, notFoundHandler } from './middleware/errorHandlers';
 import { logger } from './utils/logger';
-
-// Load environment variables
-dotenv.config();
+import { getPool } from './db/pool';
+import { runMigrations } from './db/migrations';
+import {
+  getSessionStore,
+  getConsentStore,
+  getErasureAuditStore,
+  SESSION_TIMEOUT_MS,
+  DRAFT_TIMEOUT_MS,
+} from './stores';
+import { startSessionExpiryJob } from './jobs/sessionExpiry';
+import { startRetentionPurgeJob } from './jobs/retentionPurge';
+import { DataRetentionService } from './services/DataRetentionService';
+import { InterventionChannel } from './services/InterventionChannel';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a load balancer, req.ip (used for per-IP rate limits) needs the proxy hop count
+if (process.env.TRUST_PROXY_HOPS) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS, 10));
+}
+
+// ETags carry the session version (see OnboardingController), not a body hash
+app.set('etag', false);
+
 // Middleware
 app.use(helmet());
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true,
+  exposedHeaders: ['ETag', 'X-Session-ID', 'Retry-After', 'Idempotent-Replayed'],
 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -42,7 +65,10 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
+app.use('/api/auth', authRouter);
 app.use('/api/onboarding', onboardingRouter);
+app.use('/api/review', reviewRouter);
+app.use('/api/consent', consentRouter);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -51,10 +77,33 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 // Start server
-app.listen(PORT, () => {
-  logger.info(`🚀 Server running on port ${PORT}`);
-  logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
-  logger.info(`Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
+const start = async () => {
+  // Bring the schema up to date before accepting requests
+  if (process.env.DATABASE_URL) {
+    await runMigrations(getPool());
+  }
+
+  startSessionExpiryJob(getSessionStore(), SESSION_TIMEOUT_MS, DRAFT_TIMEOUT_MS);
+  startRetentionPurgeJob(
+    new DataRetentionService(getSessionStore(), getConsentStore(), getErasureAuditStore()),
+    parseInt(process.env.RETENTION_PURGE_INTERVAL_MS || '3600000', 10)
+  );
+
+  const server = app.listen(PORT, () => {
+    logger.info(`🚀 Server running on port ${PORT}`);
+    logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    logger.info(`Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
+  });
+
+  // Proactive help is pushed to open onboarding screens over a WebSocket
+  const interventionChannel = new InterventionChannel();
+  interventionChannel.attach(server);
+  interventionChannel.start(parseInt(process.env.INTERVENTION_CHECK_INTERVAL_MS || '15000', 10));
+};
+
+start().catch((error) => {
+  logger.error(`Failed to start server: ${error.message}`);
+  process.exit(1);
 });
 
 export default app;
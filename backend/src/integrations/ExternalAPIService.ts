@@ -3,6 +3,8 @@
  * Integrates with government and third-party APIs for data enrichment
  */
 
+import { ConsentRecord } from '../stores/ConsentStore';
+
 export interface GSTDetails {
   businessName: string;
   gstin: string;
@@ -197,16 +199,16 @@ export class ExternalAPIService {
 
   /**
    * Verify Aadhaar (with user consent)
-   * Uses UIDAI APIs
+   * Uses UIDAI APIs. `consent` is the ledger record of the merchant's eKYC consent.
    */
   async initiateAadhaarVerification(
     aadhaarNumber: string,
-    consent: boolean
+    consent: ConsentRecord | null
   ): Promise<{
     transactionId: string;
     status: string;
   }> {
-    if (!consent) {
+    if (consent?.purpose !== 'aadhaar_ekyc' || consent.action !== 'granted') {
       throw new Error('Aadhaar verification requires user consent');
     }
 
@@ -0,0 +1,106 @@
+/**
+ * Key Provider
+ * Supplies master keys for envelope encryption. The local key file stands in
+ * for a KMS; a KMS-backed provider can implement the same interface.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface KeyProvider {
+  /**
+   * The key new data keys are wrapped with
+   */
+  getActiveKey(): MasterKey;
+
+  /**
+   * Look up any key, including retired ones, to unwrap existing data
+   */
+  getKey(id: string): MasterKey;
+
+  /**
+   * Create a new active key. Retired keys are kept so existing data stays readable.
+   */
+  rotate(): MasterKey;
+}
+
+interface KeyFile {
+  activeKeyId: string;
+  keys: Record<string, { key: string; createdAt: string }>;
+}
+
+export class LocalKeyFileProvider implements KeyProvider {
+  private keyFile: KeyFile;
+
+  constructor(private filePath: string) {
+    this.keyFile = this.load();
+  }
+
+  getActiveKey(): MasterKey {
+    return this.getKey(this.keyFile.activeKeyId);
+  }
+
+  getKey(id: string): MasterKey {
+    // Another process may have rotated the file since it was loaded
+    if (!this.keyFile.keys[id]) {
+      this.keyFile = this.load();
+    }
+
+    const entry = this.keyFile.keys[id];
+    if (!entry) {
+      throw new Error(`Unknown encryption key: ${id}`);
+    }
+
+    return { id, key: Buffer.from(entry.key, 'base64') };
+  }
+
+  rotate(): MasterKey {
+    const id = `k${Object.keys(this.keyFile.keys).length + 1}_${Date.now()}`;
+
+    this.keyFile.keys[id] = {
+      key: randomBytes(32).toString('base64'),
+      createdAt: new Date().toISOString(),
+    };
+    this.keyFile.activeKeyId = id;
+    this.save();
+
+    logger.info(`Encryption key rotated, active key is now ${id}`);
+    return this.getActiveKey();
+  }
+
+  private load(): KeyFile {
+    if (fs.existsSync(this.filePath)) {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`Encryption key file not found: ${this.filePath}`);
+    }
+
+    // Development convenience: start with a fresh key
+    logger.warn(`Encryption key file not found, creating ${this.filePath}`);
+    this.keyFile = { activeKeyId: '', keys: {} };
+    this.rotate();
+    return this.keyFile;
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.keyFile, null, 2), { mode: 0o600 });
+  }
+}
+
+/**
+ * Build the key provider; ENCRYPTION_KEY_FILE points at the local key file
+ */
+export const createKeyProvider = (): KeyProvider =>
+  new LocalKeyFileProvider(process.env.ENCRYPTION_KEY_FILE || 'keys/field-encryption.json');
+
+export default LocalKeyFileProvider;
@@ -0,0 +1,148 @@
+/**
+ * LLM Provider
+ * Builds the chat model for each use case from environment configuration:
+ * LLM_PROVIDER / LLM_MODEL / LLM_TEMPERATURE set the defaults and
+ * LLM_<USE_CASE>_PROVIDER / _MODEL / _TEMPERATURE override them per use case
+ */
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatOpenAI } from '@langchain/openai';
+import { ScriptedChatModel, ScriptedChatModelParams, DEFAULT_SCRIPT, loadScript } from './ScriptedChatModel';
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'fake';
+
+/**
+ * conversation: replies, intent and data extraction in the chat agent
+ * extraction: structured fields from OCR text
+ * validation: explanations of validation errors
+ * summarization: rolling summaries of older chat messages
+ */
+export type LLMUseCase = 'conversation' | 'extraction' | 'validation' | 'summarization';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+}
+
+const PROVIDERS: LLMProviderName[] = ['anthropic', 'openai', 'fake'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  anthropic: 'claude-sonnet-4-5-20250929',
+  openai: 'gpt-4o',
+  fake: 'scripted',
+};
+
+const DEFAULT_TEMPERATURES: Record<LLMUseCase, number> = {
+  conversation: 0.3,
+  extraction: 0,
+  validation: 0,
+  summarization: 0,
+};
+
+/**
+ * Resolve the configuration for one use case
+ */
+export const loadLLMConfig = (
+  useCase: LLMUseCase,
+  env: NodeJS.ProcessEnv = process.env
+): LLMConfig => {
+  const prefix = `LLM_${useCase.toUpperCase()}_`;
+
+  const provider = (env[`${prefix}PROVIDER`] || env.LLM_PROVIDER || 'anthropic') as LLMProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM provider for ${useCase}: ${provider}`);
+  }
+
+  const temperature = parseFloat(
+    env[`${prefix}TEMPERATURE`] || env.LLM_TEMPERATURE || String(DEFAULT_TEMPERATURES[useCase])
+  );
+  if (!Number.isFinite(temperature)) {
+    throw new Error(`Invalid LLM temperature for ${useCase}`);
+  }
+
+  return {
+    provider,
+    model: env[`${prefix}MODEL`] || env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature,
+  };
+};
+
+export interface LLMProvider {
+  /**
+   * Chat model configured for a use case
+   */
+  chatModel(useCase: LLMUseCase): BaseChatModel;
+}
+
+/**
+ * Builds models from environment configuration, one per use case
+ */
+export class ConfiguredLLMProvider implements LLMProvider {
+  private models = new Map<LLMUseCase, BaseChatModel>();
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  chatModel(useCase: LLMUseCase): BaseChatModel {
+    let model = this.models.get(useCase);
+
+    if (!model) {
+      model = this.build(loadLLMConfig(useCase, this.env));
+      this.models.set(useCase, model);
+    }
+
+    return model;
+  }
+
+  private build({ provider, model, temperature }: LLMConfig): BaseChatModel {
+    switch (provider) {
+      case 'anthropic':
+        return new ChatAnthropic({
+          modelName: model,
+          temperature,
+          anthropicApiKey: this.env.ANTHROPIC_API_KEY,
+        });
+      case 'openai':
+        return new ChatOpenAI({
+          modelName: model,
+          temperature,
+          openAIApiKey: this.env.OPENAI_API_KEY,
+        });
+      case 'fake': {
+        const script = this.env.LLM_FAKE_SCRIPT
+          ? [...loadScript(this.env.LLM_FAKE_SCRIPT), ...DEFAULT_SCRIPT]
+          : DEFAULT_SCRIPT;
+        return new ScriptedChatModel({ script });
+      }
+    }
+  }
+}
+
+/**
+ * Offline provider for tests and local runs: every use case gets the scripted model
+ */
+export class FakeLLMProvider implements LLMProvider {
+  private model: ScriptedChatModel;
+
+  constructor(params: ScriptedChatModelParams = {}) {
+    this.model = new ScriptedChatModel(params);
+  }
+
+  chatModel(): BaseChatModel {
+    return this.model;
+  }
+}
+
+let sharedProvider: LLMProvider | null = null;
+
+/**
+ * Get the process-wide LLM provider
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!sharedProvider) {
+    sharedProvider = new ConfiguredLLMProvider();
+  }
+
+  return sharedProvider;
+};
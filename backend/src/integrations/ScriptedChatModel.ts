@@ -0,0 +1,109 @@
+/**
+ * Scripted Chat Model
+ * Deterministic stand-in for a real LLM: replies come from a script of
+ * pattern/response rules, so the backend runs with no network or API key
+ */
+
+import fs from 'fs';
+import { SimpleChatModel, BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { BaseMessage, AIMessageChunk } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+
+export interface ScriptRule {
+  match: string; // Regular expression tested against the prompt text
+  response: string;
+}
+
+/**
+ * Replies for the prompts this backend sends. Later rules are only tried when
+ * earlier ones do not match, so the last rule is the fallback.
+ */
+export const DEFAULT_SCRIPT: ScriptRule[] = [
+  { match: 'Classify intent as one of', response: 'provide_information' },
+  { match: 'Choose the next tool to call', response: '{"tool": null}' },
+  { match: 'Update the running summary', response: 'The merchant is working through onboarding with the assistant.' },
+  {
+    match: 'Respond with one JSON object matching this schema',
+    response: JSON.stringify({
+      intent: 'provide_information',
+      reply: "Thanks! Let's keep going. Tell me a little about your business and I'll fill in the details as we go.",
+      extractedFields: {},
+      confidence: 0.5,
+    }),
+  },
+  { match: 'as JSON', response: '{}' },
+  {
+    match: 'encountered a validation error',
+    response: "That value doesn't look quite right. Please check the format and try again, and I'm happy to help if you're unsure.",
+  },
+  {
+    match: '[\\s\\S]*',
+    response: "Thanks! Let's keep going. Tell me a little about your business and I'll fill in the details as we go.",
+  },
+];
+
+/**
+ * Load extra rules from a JSON file of ScriptRule objects
+ */
+export const loadScript = (filePath: string): ScriptRule[] => {
+  const rules = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  if (!Array.isArray(rules) || rules.some(rule => typeof rule.match !== 'string' || typeof rule.response !== 'string')) {
+    throw new Error(`LLM script ${filePath} must be an array of { match, response } objects`);
+  }
+
+  return rules;
+};
+
+export interface ScriptedChatModelParams extends BaseChatModelParams {
+  script?: ScriptRule[];
+  // Simulated round-trip time per call
+  latencyMs?: number;
+}
+
+export class ScriptedChatModel extends SimpleChatModel {
+  private rules: Array<{ pattern: RegExp; response: string }>;
+  private latencyMs: number;
+
+  constructor({ script = DEFAULT_SCRIPT, latencyMs = 0, ...params }: ScriptedChatModelParams = {}) {
+    super(params);
+    this.rules = script.map(rule => ({ pattern: new RegExp(rule.match, 'i'), response: rule.response }));
+    this.latencyMs = latencyMs;
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const prompt = messages
+      .map(message => (typeof message.content === 'string' ? message.content : JSON.stringify(message.content)))
+      .join('\n');
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    const rule = this.rules.find(({ pattern }) => pattern.test(prompt));
+    return rule ? rule.response : '';
+  }
+
+  /**
+   * Stream the scripted reply a word at a time, like a real model's tokens
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const reply = await this._call(messages);
+
+    for (const token of reply.match(/\S+\s*|\s+/g) || []) {
+      yield new ChatGenerationChunk({ text: token, message: new AIMessageChunk(token) });
+      await runManager?.handleLLMNewToken(token);
+    }
+  }
+}
+
+export default ScriptedChatModel;
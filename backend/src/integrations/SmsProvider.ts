@@ -0,0 +1,56 @@
+/**
+ * SMS Providers
+ * Outbound SMS for OTP delivery. Local stubs write messages to the console or a file.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export interface SmsProvider {
+  send(phone: string, message: string): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them (local development)
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  async send(phone: string, message: string): Promise<void> {
+    logger.info(`[SMS to ${phone}] ${message}`);
+  }
+}
+
+/**
+ * Appends messages to a file instead of sending them (local development and e2e tests)
+ */
+export class FileSmsProvider implements SmsProvider {
+  constructor(private filePath: string) {}
+
+  async send(phone: string, message: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ phone, message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+/**
+ * Pick the provider from SMS_PROVIDER (console | file). Both stubs expose live
+ * codes, and there is no real provider yet, so production refuses to start.
+ */
+export const createSmsProvider = (): SmsProvider => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('No SMS provider is available in production: OTP codes would only be logged');
+  }
+
+  switch (process.env.SMS_PROVIDER) {
+    case 'file':
+      return new FileSmsProvider(process.env.SMS_OUTBOX_FILE || 'logs/sms-outbox.log');
+    case 'console':
+    case undefined:
+      return new ConsoleSmsProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER: ${process.env.SMS_PROVIDER}`);
+  }
+};
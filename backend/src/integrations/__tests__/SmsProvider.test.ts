@@ -0,0 +1,23 @@
+import { createSmsProvider, ConsoleSmsProvider } from '../SmsProvider';
+
+describe('createSmsProvider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('defaults to the console stub outside production', () => {
+    delete process.env.SMS_PROVIDER;
+
+    expect(createSmsProvider()).toBeInstanceOf(ConsoleSmsProvider);
+  });
+
+  it.each([undefined, 'console', 'file'])('refuses the %s stub in production', provider => {
+    process.env.NODE_ENV = 'production';
+    if (provider) process.env.SMS_PROVIDER = provider;
+    else delete process.env.SMS_PROVIDER;
+
+    expect(() => createSmsProvider()).toThrow(/production/);
+  });
+});
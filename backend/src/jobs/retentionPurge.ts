@@ -0,0 +1,32 @@
+/**
+ * Retention Purge Job
+ * Periodically erases sessions whose retention period has ended
+ */
+
+import { DataRetentionService } from '../services/DataRetentionService';
+import { logger } from '../utils/logger';
+
+export const startRetentionPurgeJob = (
+  service: DataRetentionService,
+  intervalMs: number = 60 * 60 * 1000
+): NodeJS.Timeout => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // A large backlog can take longer than the interval; let the current run finish
+    if (running) return;
+    running = true;
+
+    try {
+      await service.purgeExpired();
+    } catch (error) {
+      logger.error(`Retention purge job failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Do not keep the process alive just for this job
+  timer.unref();
+  return timer;
+};
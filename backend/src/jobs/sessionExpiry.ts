@@ -0,0 +1,31 @@
+/**
+ * Session Expiry Job
+ * Periodically marks sessions idle past the session timeout, and saved drafts
+ * idle past the draft timeout, as abandoned
+ */
+
+import { SessionStore } from '../stores';
+import { logger } from '../utils/logger';
+
+export const startSessionExpiryJob = (
+  store: SessionStore,
+  timeoutMs: number,
+  draftTimeoutMs: number,
+  intervalMs: number = 60 * 1000
+): NodeJS.Timeout => {
+  const timer = setInterval(async () => {
+    try {
+      const now = Date.now();
+      const expired = await store.expire(new Date(now - timeoutMs), new Date(now - draftTimeoutMs));
+      if (expired > 0) {
+        logger.info(`Expired ${expired} idle session(s)`);
+      }
+    } catch (error) {
+      logger.error(`Session expiry job failed: ${error.message}`);
+    }
+  }, intervalMs);
+
+  // Do not keep the process alive just for this job
+  timer.unref();
+  return timer;
+};
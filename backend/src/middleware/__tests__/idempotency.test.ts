@@ -0,0 +1,52 @@
+import express from 'express';
+import request from 'supertest';
+import { idempotent } from '../idempotency';
+import { InMemoryIdempotencyStore } from '../../stores/IdempotencyStore';
+
+describe('idempotent', () => {
+  let store: InMemoryIdempotencyStore;
+  let handled: number;
+  let app: express.Express;
+
+  beforeEach(() => {
+    store = new InMemoryIdempotencyStore();
+    handled = 0;
+    app = express();
+    app.use(express.json());
+    app.post('/submit', idempotent(store), (_req, res) => {
+      handled++;
+      res.json({ success: true, data: { handled } });
+    });
+  });
+
+  it('replays the first response to a retry with the same key', async () => {
+    const first = await request(app).post('/submit').set('Idempotency-Key', 'key-1').send({ a: 1 });
+    const retry = await request(app).post('/submit').set('Idempotency-Key', 'key-1').send({ a: 1 });
+
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(handled).toBe(1);
+  });
+
+  it('lets a retry run once a claim left behind by a crashed request lapses', async () => {
+    const claim = jest.spyOn(store, 'claim');
+    const complete = jest.spyOn(store, 'complete');
+    await request(app).post('/submit').set('Idempotency-Key', 'key-1').send({ a: 1 });
+
+    const [, fingerprint, lockTtlMs] = claim.mock.calls[0];
+    expect(lockTtlMs).toBeLessThanOrEqual(5 * 60 * 1000);
+    expect(complete.mock.calls[0][2]).toBe(24 * 60 * 60 * 1000);
+
+    // A claim that was never completed or released, as after a crash
+    await store.claim('anonymous:key-2', fingerprint, lockTtlMs);
+    const blocked = await request(app).post('/submit').set('Idempotency-Key', 'key-2').send({ a: 1 });
+    expect(blocked.body.error.code).toBe('IDEMPOTENCY_IN_PROGRESS');
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + lockTtlMs + 1);
+    const retried = await request(app).post('/submit').set('Idempotency-Key', 'key-2').send({ a: 1 });
+    expect(retried.status).toBe(200);
+
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Authentication Middleware
+ * Verifies bearer tokens and enforces session ownership and role permissions
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthUser, verifyToken } from '../utils/jwt';
+import { Permission, hasPermission } from '../utils/roles';
+import { SessionStore } from '../stores';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * Require a valid `Authorization: Bearer <token>` header
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('Authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : null;
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+
+  try {
+    req.user = verifyToken(token);
+    next();
+  } catch {
+    return res.status(401).json({
+      success: false,
+      error: {
+        code: 'INVALID_TOKEN',
+        message: 'Invalid or expired token',
+      },
+    });
+  }
+};
+
+/**
+ * Attach the user when a valid bearer token is present, but allow anonymous requests
+ */
+export const optionalAuthenticate = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('Authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : null;
+
+  if (token) {
+    try {
+      req.user = verifyToken(token);
+    } catch {
+      // An expired guest token should not block signing in
+    }
+  }
+
+  next();
+};
+
+/**
+ * Require the authenticated user to own the session named in the
+ * route params or request body. Must run after `authenticate`
+ * (and after multer for multipart routes, so the body is parsed).
+ */
+export const requireSessionOwner = (store: SessionStore) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const sessionId = req.params.sessionId || req.body?.sessionId;
+
+    if (!sessionId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'sessionId is required',
+        },
+      });
+    }
+
+    try {
+      const session = await store.get(sessionId);
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Session not found',
+          },
+        });
+      }
+
+      if (!req.user || session.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have access to this session',
+          },
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Require the authenticated user's role to grant every listed permission.
+ * Must run after `authenticate`.
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+    }
+
+    const missing = permissions.filter(permission => !hasPermission(req.user.role, permission));
+
+    if (missing.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to perform this action',
+          details: { required: missing },
+        },
+      });
+    }
+
+    next();
+  };
@@ -4,6 +4,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { FileRejectedError } from '../services/FileInspector';
 
 /**
  * 404 Not Found Handler
@@ -40,6 +41,18 @@ export const errorHandler = (
     });
   }
 
+  // Uploads that failed content inspection or the malware scan
+  if (err instanceof FileRejectedError) {
+    return res.status(422).json({
+      success: false,
+      error: {
+        code: 'FILE_REJECTED',
+        message: err.message,
+        details: { reason: err.reason, ...err.details },
+      },
+    });
+  }
+
   // Validation errors
   if (err.name === 'ValidationError') {
     return res.status(400).json({
@@ -0,0 +1,143 @@
+/**
+ * Idempotency Middleware
+ * Replays the stored response when a request is retried with the same Idempotency-Key
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { IdempotencyStore, getIdempotencyStore } from '../stores';
+
+const IDEMPOTENCY_TTL_MS = parseInt(process.env.IDEMPOTENCY_TTL_MS || '86400000', 10); // 24 hours
+
+// A claim outlives the slowest request but not a process that died holding it
+const IDEMPOTENCY_LOCK_TTL_MS = parseInt(process.env.IDEMPOTENCY_LOCK_TTL_MS || '120000', 10); // 2 minutes
+const MAX_KEY_LENGTH = 255;
+
+// Headers the client relies on after a write, replayed with the stored body
+const REPLAYED_HEADERS = ['ETag', 'X-Session-ID'];
+
+/**
+ * Conflicts and rate limits depend on the moment rather than the request, so a
+ * retry with the same key should run again instead of replaying them
+ */
+const isReplayable = (statusCode: number) =>
+  statusCode < 500 && statusCode !== 409 && statusCode !== 429;
+
+/**
+ * Identify the request so a key reused for a different request is rejected
+ */
+const fingerprint = (req: Request): string => {
+  const hash = createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n`)
+    .update(JSON.stringify(req.body ?? null));
+
+  if (req.file) {
+    hash.update(req.file.buffer);
+  }
+
+  return hash.digest('hex');
+};
+
+/**
+ * Make a route idempotent for requests that send an Idempotency-Key header.
+ * Keys are scoped to the authenticated user. Run after `authenticate` and,
+ * for multipart routes, after multer so the body and file are part of the fingerprint.
+ */
+export const idempotent = (store: IdempotencyStore = getIdempotencyStore()) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('Idempotency-Key');
+    if (!header) {
+      return next();
+    }
+
+    if (header.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_IDEMPOTENCY_KEY',
+          message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+        },
+      });
+    }
+
+    const key = `${req.user?.userId || 'anonymous'}:${header}`;
+    const requestFingerprint = fingerprint(req);
+
+    try {
+      const claimed = await store.claim(
+        key,
+        requestFingerprint,
+        IDEMPOTENCY_LOCK_TTL_MS,
+        req.params.sessionId || req.body?.sessionId
+      );
+
+      if (!claimed) {
+        const record = await store.get(key);
+
+        if (record && record.fingerprint !== requestFingerprint) {
+          return res.status(422).json({
+            success: false,
+            error: {
+              code: 'IDEMPOTENCY_KEY_REUSED',
+              message: 'This Idempotency-Key was already used for a different request',
+            },
+          });
+        }
+
+        if (record?.status === 'completed' && record.response) {
+          const { statusCode, body, headers } = record.response;
+          res.set(headers);
+          res.set('Idempotent-Replayed', 'true');
+          return res.status(statusCode).json(body);
+        }
+
+        res.set('Retry-After', '1');
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'IDEMPOTENCY_IN_PROGRESS',
+            message: 'A request with this Idempotency-Key is still being processed',
+          },
+        });
+      }
+    } catch (error) {
+      // Without the store the request still runs, just without replay protection
+      logger.error('Idempotency store unavailable, processing request:', error);
+      return next();
+    }
+
+    let body: any;
+    const json = res.json.bind(res);
+    res.json = (payload: any) => {
+      body = payload;
+      return json(payload);
+    };
+
+    let settled = false;
+    const settle = async (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+
+      try {
+        if (finished && body !== undefined && isReplayable(res.statusCode)) {
+          const headers: Record<string, string> = {};
+          for (const name of REPLAYED_HEADERS) {
+            const value = res.get(name);
+            if (value) headers[name] = value;
+          }
+
+          await store.complete(key, { statusCode: res.statusCode, body, headers }, IDEMPOTENCY_TTL_MS);
+        } else {
+          await store.release(key);
+        }
+      } catch (error) {
+        logger.error('Failed to record idempotent response:', error);
+      }
+    };
+
+    res.on('finish', () => settle(true));
+    res.on('close', () => settle(res.writableFinished));
+
+    next();
+  };
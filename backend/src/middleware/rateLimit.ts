@@ -0,0 +1,118 @@
+/**
+ * Rate Limiting Middleware
+ * Token-bucket limits per IP, session, user and phone number, with separate policies per route class
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { BucketConfig, RateLimitStore, getRateLimitStore } from '../stores';
+
+export type RateLimitScope = 'ip' | 'session' | 'user' | 'phone';
+
+export type RateLimitPolicyName =
+  | 'chat'
+  | 'upload'
+  | 'validation'
+  | 'verification'
+  | 'telemetry'
+  | 'otp_request'
+  | 'otp_verify';
+
+export type RateLimitPolicy = Partial<Record<RateLimitScope, BucketConfig>>;
+
+const SCOPES: RateLimitScope[] = ['ip', 'session', 'user', 'phone'];
+
+/**
+ * Parse a policy such as "ip=30/60,session=10/60" (capacity / seconds to refill it).
+ * Scopes missing from the spec are not limited.
+ */
+export const parsePolicy = (spec: string): RateLimitPolicy => {
+  const policy: RateLimitPolicy = {};
+
+  for (const part of spec.split(',')) {
+    const match = part.trim().match(/^(ip|session|user|phone)=(\d+)\/(\d+)$/);
+    if (!match) {
+      throw new Error(`Invalid rate limit "${part}", expected <scope>=<capacity>/<seconds>`);
+    }
+
+    const capacity = parseInt(match[2], 10);
+    const seconds = parseInt(match[3], 10);
+    policy[match[1] as RateLimitScope] = { capacity, refillPerSecond: capacity / seconds };
+  }
+
+  return policy;
+};
+
+// Chat and upload each cost several LLM calls, so they get the tightest session limits
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  chat: parsePolicy(process.env.RATE_LIMIT_CHAT || 'ip=30/60,session=10/60,user=20/60'),
+  upload: parsePolicy(process.env.RATE_LIMIT_UPLOAD || 'ip=20/300,session=10/300,user=15/300'),
+  validation: parsePolicy(process.env.RATE_LIMIT_VALIDATION || 'ip=120/60,session=60/60,user=120/60'),
+  verification: parsePolicy(process.env.RATE_LIMIT_VERIFICATION || 'ip=20/300,session=5/300,user=10/300'),
+  telemetry: parsePolicy(process.env.RATE_LIMIT_TELEMETRY || 'ip=60/60,session=20/60,user=40/60'),
+  // OTP login is unauthenticated, so it is limited per client and per target number
+  otp_request: parsePolicy(process.env.RATE_LIMIT_OTP_REQUEST || 'ip=10/3600,phone=5/3600'),
+  otp_verify: parsePolicy(process.env.RATE_LIMIT_OTP_VERIFY || 'ip=30/900,phone=10/900'),
+};
+
+// Different spellings of the same mobile number share a bucket
+const phoneKey = (phone: unknown): string | undefined => {
+  const digits = String(phone || '').replace(/\D/g, '').slice(-10);
+  return digits || undefined;
+};
+
+/**
+ * Apply a named policy. Run it after `authenticate` and any ownership check so
+ * that buckets are only charged for real users and sessions. If the store is
+ * unreachable the request is allowed rather than failing the merchant.
+ */
+export const rateLimit = (
+  name: RateLimitPolicyName,
+  store: RateLimitStore = getRateLimitStore()
+) => async (req: Request, res: Response, next: NextFunction) => {
+  if (process.env.RATE_LIMIT_ENABLED === 'false') {
+    return next();
+  }
+
+  const policy = RATE_LIMIT_POLICIES[name];
+  const identifiers: Record<RateLimitScope, string | undefined> = {
+    ip: req.ip,
+    session: req.params.sessionId || req.body?.sessionId,
+    user: req.user?.userId,
+    phone: phoneKey(req.body?.phone),
+  };
+
+  const scopes = SCOPES.filter(scope => policy[scope] && identifiers[scope]);
+  if (scopes.length === 0) {
+    return next();
+  }
+
+  try {
+    // Every bucket is charged or none is, so a denial in one scope costs the others nothing
+    const result = await store.take(
+      scopes.map(scope => ({
+        key: `${name}:${scope}:${identifiers[scope]}`,
+        bucket: policy[scope]!,
+      }))
+    );
+
+    if (!result.allowed) {
+      const scope = scopes[result.deniedBy ?? 0];
+      logger.warn(`Rate limit hit: ${name} per ${scope} (${identifiers[scope]})`);
+      res.set('Retry-After', String(result.retryAfterSeconds));
+
+      return res.status(429).json({
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: 'Too many requests. Please try again later.',
+          details: { scope, retryAfter: result.retryAfterSeconds },
+        },
+      });
+    }
+  } catch (error) {
+    logger.error(`Rate limiter unavailable for ${name}, allowing request:`, error);
+  }
+
+  next();
+};
@@ -0,0 +1,25 @@
+/**
+ * Upload Inspection Middleware
+ * Rejects unsafe uploads before any OCR or LLM work is done on them
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { FileInspector } from '../services/FileInspector';
+import { createMalwareScanner } from '../integrations/MalwareScanner';
+
+/**
+ * Inspect `req.file` (run after multer). Rejections reach the error handler as FileRejectedError.
+ */
+export const inspectUpload = (inspector = new FileInspector(createMalwareScanner())) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.file) {
+      return next();
+    }
+
+    try {
+      await inspector.inspect(req.file.buffer, req.file.mimetype, req.file.originalname);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,42 @@
+import request from 'supertest';
+import { buildApp, bearer } from '../../test/app';
+import { getSessionStore } from '../../stores';
+
+const app = buildApp();
+const merchant = bearer('merchant-drafts');
+
+describe('saved drafts', () => {
+  let sessionId: string;
+
+  beforeEach(async () => {
+    const res = await request(app).post('/api/onboarding/session').set('Authorization', merchant).send({});
+    sessionId = res.body.data.sessionId;
+
+    await request(app)
+      .post('/api/onboarding/save-draft')
+      .set('Authorization', merchant)
+      .send({ sessionId, data: { city: 'Pune' } })
+      .expect(200);
+    expect((await getSessionStore().get(sessionId))?.status).toBe('paused');
+  });
+
+  it('are open again once resumed', async () => {
+    const res = await request(app)
+      .get(`/api/onboarding/resume/${sessionId}`)
+      .set('Authorization', merchant)
+      .expect(200);
+
+    expect(res.body.data.status).toBe('in_progress');
+    expect((await getSessionStore().get(sessionId))?.status).toBe('in_progress');
+  });
+
+  it('are open again on the next change to merchant data', async () => {
+    await request(app)
+      .patch(`/api/onboarding/data/${sessionId}`)
+      .set('Authorization', merchant)
+      .send({ data: { state: 'Maharashtra' } })
+      .expect(200);
+
+    expect((await getSessionStore().get(sessionId))?.status).toBe('in_progress');
+  });
+});
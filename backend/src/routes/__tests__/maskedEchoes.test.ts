@@ -0,0 +1,62 @@
+import request from 'supertest';
+import { buildApp, bearer } from '../../test/app';
+import { getSessionStore } from '../../stores';
+
+const app = buildApp();
+const merchant = bearer('merchant-masked');
+
+describe('masked values echoed back by the client', () => {
+  let sessionId: string;
+  let masked: Record<string, string>;
+
+  beforeEach(async () => {
+    const res = await request(app).post('/api/onboarding/session').set('Authorization', merchant).send({});
+    sessionId = res.body.data.sessionId;
+
+    // The response carries masks, which is what the client keeps in its form state
+    const updated = await request(app)
+      .patch(`/api/onboarding/data/${sessionId}`)
+      .set('Authorization', merchant)
+      .send({ data: { pan: 'ABCPS1234K', accountNumber: '50100123456789' } })
+      .expect(200);
+    masked = updated.body.data;
+  });
+
+  it('are sent back masked in the first place', () => {
+    expect(masked.pan).not.toBe('ABCPS1234K');
+    expect(masked.accountNumber).not.toBe('50100123456789');
+  });
+
+  it('do not overwrite stored values when merchant data is updated', async () => {
+    await request(app)
+      .patch(`/api/onboarding/data/${sessionId}`)
+      .set('Authorization', merchant)
+      .send({ data: { ...masked, city: 'Pune' } })
+      .expect(200);
+
+    const session = await getSessionStore().get(sessionId);
+    expect(session?.merchantData).toMatchObject({ pan: 'ABCPS1234K', accountNumber: '50100123456789', city: 'Pune' });
+  });
+
+  it('do not overwrite stored values when a draft is saved', async () => {
+    await request(app)
+      .post('/api/onboarding/save-draft')
+      .set('Authorization', merchant)
+      .send({ sessionId, data: { ...masked, city: 'Pune' } })
+      .expect(200);
+
+    const session = await getSessionStore().get(sessionId);
+    expect(session?.status).toBe('paused');
+    expect(session?.merchantData).toMatchObject({ pan: 'ABCPS1234K', accountNumber: '50100123456789', city: 'Pune' });
+  });
+
+  it('still let the merchant replace a value with a new one', async () => {
+    await request(app)
+      .post('/api/onboarding/save-draft')
+      .set('Authorization', merchant)
+      .send({ sessionId, data: { pan: 'AAAPZ9999Q' } })
+      .expect(200);
+
+    expect((await getSessionStore().get(sessionId))?.merchantData.pan).toBe('AAAPZ9999Q');
+  });
+});
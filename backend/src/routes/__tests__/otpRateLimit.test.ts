@@ -0,0 +1,21 @@
+import request from 'supertest';
+import { buildApp } from '../../test/app';
+
+const app = buildApp();
+
+describe('POST /api/auth/otp/verify rate limit', () => {
+  it('limits guesses per phone number however it is written', async () => {
+    const spellings = ['9123456780', '+91 91234 56780', '091234-56780'];
+
+    for (let i = 0; i < 10; i++) {
+      const res = await request(app)
+        .post('/api/auth/otp/verify')
+        .send({ phone: spellings[i % spellings.length], otp: '000000' });
+      expect(res.status).not.toBe(429);
+    }
+
+    const limited = await request(app).post('/api/auth/otp/verify').send({ phone: '9123456780', otp: '000000' });
+    expect(limited.status).toBe(429);
+    expect(limited.body.error.details.scope).toBe('phone');
+  });
+});
@@ -0,0 +1,77 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { buildApp, bearer } from '../../test/app';
+import { reviewRouter } from '../review';
+
+const app = buildApp();
+
+describe('/api/review access', () => {
+  let sessionId: string;
+  const merchant = bearer('merchant-review');
+
+  beforeAll(async () => {
+    // The merchant's own session: owning it must not open the review routes
+    const res = await request(app).post('/api/onboarding/session').set('Authorization', merchant).send({});
+    sessionId = res.body.data.sessionId;
+  });
+
+  const routes = (): Array<[string, string, object?]> => [
+    ['get', '/api/review/applications'],
+    ['get', `/api/review/applications/${sessionId}`],
+    ['post', `/api/review/applications/${sessionId}/decision`, { decision: 'approved', notes: 'Looks fine' }],
+    ['get', '/api/review/guardrail-events'],
+  ];
+
+  const send = (method: string, path: string, body?: object) =>
+    method === 'post' ? request(app).post(path).send(body) : request(app).get(path);
+
+  it('covers every review route', () => {
+    const registered = reviewRouter.stack.filter(layer => layer.route);
+
+    expect(routes()).toHaveLength(registered.length);
+  });
+
+  it('answers 401 without a token', async () => {
+    for (const [method, path, body] of routes()) {
+      const res = await send(method, path, body);
+
+      expect([path, res.status, res.body.error?.code]).toEqual([path, 401, 'UNAUTHORIZED']);
+    }
+  });
+
+  it('answers 401 for a token that does not verify', async () => {
+    for (const [method, path, body] of routes()) {
+      const res = await send(method, path, body).set('Authorization', 'Bearer not-a-token');
+
+      expect([path, res.status, res.body.error?.code]).toEqual([path, 401, 'INVALID_TOKEN']);
+    }
+  });
+
+  it('answers 401 for a token without a role', async () => {
+    const roleless = jwt.sign({}, process.env.JWT_SECRET!, { subject: 'merchant-review' });
+
+    for (const [method, path, body] of routes()) {
+      const res = await send(method, path, body).set('Authorization', `Bearer ${roleless}`);
+
+      expect([path, res.status, res.body.error?.code]).toEqual([path, 401, 'INVALID_TOKEN']);
+    }
+  });
+
+  it('answers 403 FORBIDDEN to a merchant', async () => {
+    for (const [method, path, body] of routes()) {
+      const res = await send(method, path, body).set('Authorization', merchant);
+
+      expect([path, res.status, res.body.error?.code]).toEqual([path, 403, 'FORBIDDEN']);
+    }
+  });
+
+  it('lets a reviewer through', async () => {
+    const reviewer = bearer('reviewer-1', 'reviewer');
+
+    for (const [method, path] of routes().filter(([method]) => method === 'get')) {
+      const res = await send(method, path).set('Authorization', reviewer);
+
+      expect([path, [401, 403].includes(res.status)]).toEqual([path, false]);
+    }
+  });
+});
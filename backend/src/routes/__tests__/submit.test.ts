@@ -0,0 +1,71 @@
+import request from 'supertest';
+import { buildApp, bearer } from '../../test/app';
+import { CONSENT_TEXTS } from '../../services/ConsentService';
+import { getSessionStore } from '../../stores';
+
+const app = buildApp();
+const merchant = bearer('merchant-submit');
+const termsText = CONSENT_TEXTS.filter(text => text.purpose === 'terms').pop()!;
+
+const merchantData = {
+  businessName: 'Sharma General Store',
+  ownerName: 'Ravi Sharma',
+  email: 'ravi@example.com',
+  phone: '9876543210',
+  pan: 'ABCPS1234K',
+  address: '12 MG Road',
+  city: 'Pune',
+  state: 'Maharashtra',
+  pincode: '411001',
+  accountNumber: '50100123456789',
+  ifscCode: 'HDFC0001234',
+  accountHolderName: 'Ravi Sharma',
+  category: 'retail',
+};
+
+describe('POST /api/onboarding/submit', () => {
+  let sessionId: string;
+
+  const submit = (idempotencyKey: string) =>
+    request(app)
+      .post('/api/onboarding/submit')
+      .set('Authorization', merchant)
+      .set('Idempotency-Key', idempotencyKey)
+      .send({ sessionId, data: merchantData });
+
+  beforeEach(async () => {
+    const res = await request(app).post('/api/onboarding/session').set('Authorization', merchant).send({});
+    sessionId = res.body.data.sessionId;
+
+    await request(app)
+      .post(`/api/consent/${sessionId}/grant`)
+      .set('Authorization', merchant)
+      .send({ purpose: 'terms', version: termsText.version })
+      .expect(201);
+  });
+
+  it('stores the application id it returns', async () => {
+    const res = await submit('submit-1').expect(200);
+
+    const session = await getSessionStore().get(sessionId);
+    expect(session?.status).toBe('completed');
+    expect(res.body.data.applicationId).toBe(session?.applicationId);
+  });
+
+  it('rejects a repeat submit and points at the original application', async () => {
+    const first = await submit('repeat-1').expect(200);
+    const repeat = await submit('repeat-2').expect(409);
+
+    expect(repeat.body.error.code).toBe('ALREADY_SUBMITTED');
+    expect(repeat.body.error.details.applicationId).toBe(first.body.data.applicationId);
+    expect((await getSessionStore().get(sessionId))?.applicationId).toBe(first.body.data.applicationId);
+  });
+
+  it('issues one application when two submits race', async () => {
+    const responses = await Promise.all([submit('race-1'), submit('race-2')]);
+
+    expect(responses.map(res => res.status).sort()).toEqual([200, 409]);
+    const accepted = responses.find(res => res.status === 200)!;
+    expect((await getSessionStore().get(sessionId))?.applicationId).toBe(accepted.body.data.applicationId);
+  });
+});
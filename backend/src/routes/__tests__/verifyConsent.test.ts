@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { buildApp, bearer } from '../../test/app';
+import { CONSENT_TEXTS } from '../../services/ConsentService';
+import { ExternalAPIService } from '../../integrations/ExternalAPIService';
+
+const app = buildApp();
+const merchant = bearer('merchant-verify');
+const bureauText = CONSENT_TEXTS.filter(text => text.purpose === 'bureau_check').pop()!;
+
+describe('POST /api/onboarding/verify consent gate', () => {
+  let sessionId: string;
+  let verifyPAN: jest.SpyInstance;
+
+  const verify = () =>
+    request(app)
+      .post('/api/onboarding/verify')
+      .set('Authorization', merchant)
+      .send({ sessionId, verificationType: 'pan', data: { pan: 'ABCPS1234K' } });
+
+  beforeEach(async () => {
+    verifyPAN = jest
+      .spyOn(ExternalAPIService.prototype, 'verifyPAN')
+      .mockResolvedValue({ valid: true, name: 'RAVI SHARMA' } as any);
+
+    const res = await request(app).post('/api/onboarding/session').set('Authorization', merchant).send({});
+    sessionId = res.body.data.sessionId;
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses without a bureau_check grant and makes no external call', async () => {
+    const res = await verify();
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toMatchObject({
+      code: 'CONSENT_REQUIRED',
+      details: { purpose: 'bureau_check', currentVersion: bureauText.version },
+    });
+    expect(verifyPAN).not.toHaveBeenCalled();
+  });
+
+  it('verifies once consent is granted', async () => {
+    await request(app)
+      .post(`/api/consent/${sessionId}/grant`)
+      .set('Authorization', merchant)
+      .send({ purpose: 'bureau_check', version: bureauText.version })
+      .expect(201);
+
+    const res = await verify();
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ valid: true, name: 'RAVI SHARMA' });
+    expect(verifyPAN).toHaveBeenCalledWith('ABCPS1234K');
+  });
+
+  it('refuses again after consent is withdrawn', async () => {
+    await request(app)
+      .post(`/api/consent/${sessionId}/grant`)
+      .set('Authorization', merchant)
+      .send({ purpose: 'bureau_check', version: bureauText.version })
+      .expect(201);
+    await request(app)
+      .post(`/api/consent/${sessionId}/withdraw`)
+      .set('Authorization', merchant)
+      .send({ purpose: 'bureau_check' })
+      .expect(201);
+
+    expect((await verify()).status).toBe(403);
+    expect(verifyPAN).not.toHaveBeenCalled();
+  });
+
+  it('does not accept another purpose in place of bureau_check', async () => {
+    const termsText = CONSENT_TEXTS.find(text => text.purpose === 'terms')!;
+    await request(app)
+      .post(`/api/consent/${sessionId}/grant`)
+      .set('Authorization', merchant)
+      .send({ purpose: 'terms', version: termsText.version })
+      .expect(201);
+
+    expect((await verify()).status).toBe(403);
+  });
+});
+
+describe('POST /api/onboarding/enrich-data consent gate', () => {
+  let sessionId: string;
+  let fetchPANDetails: jest.SpyInstance;
+  let fetchLocationFromPincode: jest.SpyInstance;
+
+  const enrich = (data: Record<string, string>) =>
+    request(app)
+      .post('/api/onboarding/enrich-data')
+      .set('Authorization', merchant)
+      .send({ sessionId, data });
+
+  beforeEach(async () => {
+    fetchPANDetails = jest
+      .spyOn(ExternalAPIService.prototype, 'fetchPANDetails')
+      .mockResolvedValue({ ownerName: 'RAVI SHARMA' } as any);
+    fetchLocationFromPincode = jest
+      .spyOn(ExternalAPIService.prototype, 'fetchLocationFromPincode')
+      .mockResolvedValue({ city: 'Pune', state: 'Maharashtra' } as any);
+
+    const res = await request(app).post('/api/onboarding/session').set('Authorization', merchant).send({});
+    sessionId = res.body.data.sessionId;
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses to look up a PAN without a bureau_check grant', async () => {
+    const res = await enrich({ pan: 'ABCPS1234K' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toMatchObject({ code: 'CONSENT_REQUIRED', details: { purpose: 'bureau_check' } });
+    expect(fetchPANDetails).not.toHaveBeenCalled();
+  });
+
+  it('looks up a pincode without consent', async () => {
+    const res = await enrich({ pincode: '411001' });
+
+    expect(res.status).toBe(200);
+    expect(fetchLocationFromPincode).toHaveBeenCalledWith('411001');
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Auth Routes
+ */
+
+import { Router } from 'express';
+import { AuthController } from '../controllers/AuthController';
+import { optionalAuthenticate } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+
+const router = Router();
+const controller = new AuthController();
+
+router.post('/guest', controller.issueGuestToken);
+
+// Mobile OTP login
+router.post('/otp/request', rateLimit('otp_request'), controller.requestOtp);
+router.post('/otp/verify', optionalAuthenticate, rateLimit('otp_verify'), controller.verifyOtp);
+
+export { router as authRouter };
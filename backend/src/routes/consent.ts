@@ -0,0 +1,22 @@
+/**
+ * Consent Routes
+ * Consent texts and the per-session consent ledger
+ */
+
+import { Router } from 'express';
+import { ConsentController } from '../controllers/ConsentController';
+import { authenticate, requireSessionOwner } from '../middleware/auth';
+import { getSessionStore } from '../stores';
+
+const router = Router();
+const controller = new ConsentController();
+const requireOwner = requireSessionOwner(getSessionStore());
+
+router.use(authenticate);
+
+router.get('/texts', controller.getTexts);
+router.get('/:sessionId', requireOwner, controller.getConsents);
+router.post('/:sessionId/grant', requireOwner, controller.grantConsent);
+router.post('/:sessionId/withdraw', requireOwner, controller.withdrawConsent);
+
+export { router as consentRouter };
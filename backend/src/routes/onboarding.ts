@@ -6,6 +6,12 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { OnboardingController } from '../controllers/OnboardingController';
+import { authenticate, requireSessionOwner } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { idempotent } from '../middleware/idempotency';
+import { inspectUpload } from '../middleware/uploadInspection';
+import { FileRejectedError } from '../services/FileInspector';
+import { getSessionStore } from '../stores';
 
 const router = Router();
 const upload = multer({
@@ -13,41 +19,67 @@ const upload = multer({
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB
   },
+  // Quick check of the declared type; inspectUpload verifies the actual content
   fileFilter: (req, file, cb) => {
     const allowedMimes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
     if (allowedMimes.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only JPEG, PNG, and PDF are allowed.'));
+      cb(new FileRejectedError('UNSUPPORTED_TYPE', 'Invalid file type. Only JPEG, PNG, and PDF are allowed.'));
     }
   },
 });
 
 const controller = new OnboardingController();
+const requireOwner = requireSessionOwner(getSessionStore());
+
+// Upload, verify and submit replay their first response when retried with the
+// same Idempotency-Key, so a dropped connection cannot create duplicates
+const idempotentRetry = idempotent();
+
+// Every onboarding route requires a signed-in merchant
+router.use(authenticate);
 
 // Session management
 router.post('/session', controller.startSession);
-router.get('/resume/:sessionId', controller.resumeSession);
+router.get('/sessions', controller.listSessions);
+router.get('/resume/:sessionId', requireOwner, controller.resumeSession);
+router.delete('/session/:sessionId', requireOwner, controller.eraseSession);
+
+// Conversation language
+router.get('/languages', controller.listLanguages);
+router.put('/session/:sessionId/language', requireOwner, controller.setLanguage);
 
 // AI conversation
-router.post('/send-message', controller.sendMessage);
+router.post('/send-message', requireOwner, rateLimit('chat'), controller.sendMessage);
+router.post('/send-message/stream', requireOwner, rateLimit('chat'), controller.streamMessage);
 
-// Document processing
-router.post('/upload-document', upload.single('file'), controller.uploadDocument);
+// Document processing (multer runs first so sessionId is parsed from the form)
+router.post(
+  '/upload-document',
+  upload.single('file'),
+  requireOwner,
+  idempotentRetry,
+  rateLimit('upload'),
+  inspectUpload(),
+  controller.uploadDocument
+);
 
 // Data management
-router.patch('/data/:sessionId', controller.updateData);
-router.post('/enrich-data', controller.enrichData);
+router.patch('/data/:sessionId', requireOwner, controller.updateData);
+router.post('/enrich-data', requireOwner, rateLimit('verification'), controller.enrichData);
 
 // Validation
-router.post('/validate-field', controller.validateField);
-router.post('/verify', controller.verifyInfo);
+router.post('/validate-field', rateLimit('validation'), controller.validateField);
+router.post('/verify', requireOwner, idempotentRetry, rateLimit('verification'), controller.verifyInfo);
 
 // Progress tracking
-router.get('/progress/:sessionId', controller.getProgress);
+router.post('/telemetry', requireOwner, rateLimit('telemetry'), controller.recordTelemetry);
+router.get('/progress/:sessionId', requireOwner, controller.getProgress);
+router.get('/history/:sessionId', requireOwner, controller.getHistory);
 
 // Draft and submission
-router.post('/save-draft', controller.saveDraft);
-router.post('/submit', controller.submitApplication);
+router.post('/save-draft', requireOwner, controller.saveDraft);
+router.post('/submit', requireOwner, idempotentRetry, controller.submitApplication);
 
 export { router as onboardingRouter };
@@ -0,0 +1,26 @@
+/**
+ * Review Routes
+ * Back-office routes for reviewing submitted applications and flagged
+ * guardrail events
+ */
+
+import { Router } from 'express';
+import { ReviewController } from '../controllers/ReviewController';
+import { authenticate, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const controller = new ReviewController();
+
+// Every review route requires a signed-in staff member
+router.use(authenticate);
+
+router.get('/applications', requirePermission('application:read'), controller.listApplications);
+router.get('/applications/:sessionId', requirePermission('application:read'), controller.getApplication);
+router.post(
+  '/applications/:sessionId/decision',
+  requirePermission('application:read', 'application:decide'),
+  controller.decideApplication
+);
+router.get('/guardrail-events', requirePermission('application:read'), controller.listGuardrailEvents);
+
+export { router as reviewRouter };
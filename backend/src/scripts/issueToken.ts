@@ -0,0 +1,24 @@
+/**
+ * Staff Token Issuer
+ * Usage: npm run issue-token -- <userId> <role>
+ *
+ * Staff do not sign in through the merchant flows, so back-office tokens
+ * are issued out of band by someone holding JWT_SECRET.
+ */
+
+import dotenv from 'dotenv';
+import { signToken } from '../utils/jwt';
+import { ROLES, isRole } from '../utils/roles';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+const [userId, role] = process.argv.slice(2);
+
+if (!userId || !isRole(role)) {
+  logger.error(`Usage: npm run issue-token -- <userId> <${ROLES.join('|')}>`);
+  process.exit(1);
+}
+
+// eslint-disable-next-line no-console
+console.log(signToken({ userId, role }));
@@ -0,0 +1,23 @@
+/**
+ * Encryption Key Rotation
+ * Usage: npm run rotate-keys
+ *
+ * Adds a new active master key to the key file. Retired keys stay in the
+ * file so existing values still decrypt; values are wrapped with the new key
+ * as they are next written. Running servers pick the key up when they first
+ * see data wrapped with it, or on restart.
+ */
+
+import dotenv from 'dotenv';
+import { createKeyProvider } from '../integrations/KeyProvider';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+try {
+  const key = createKeyProvider().rotate();
+  logger.info(`New active encryption key: ${key.id}`);
+} catch (error) {
+  logger.error('Key rotation failed:', error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,242 @@
+/**
+ * Behavior Aggregator
+ * Turns the telemetry the client sends (field focus and blur, idle time,
+ * validation errors, step changes) into the UserBehaviorMetrics the agent
+ * uses to decide when to step in
+ */
+
+import { OnboardingStep, UserBehaviorMetrics } from '../agents/OnboardingAgent';
+import { REQUIRED_MERCHANT_FIELDS } from './ValidationEngine';
+import { logger } from '../utils/logger';
+import {
+  OnboardingSession,
+  TelemetryStore,
+  TelemetryEvent,
+  TELEMETRY_EVENT_TYPES,
+  getTelemetryStore,
+} from '../stores';
+
+// Events only drive in-session help, so they are kept for a day at most
+const TELEMETRY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_BATCH_EVENTS = 100;
+
+// A gap between events longer than this is a break, not time spent on the form
+const BREAK_AFTER_MS = 5 * 60 * 1000;
+
+// A field counts as a hesitation point when it is held this long, revisited
+// this often or rejected this many times
+const HESITATION_MS = 30 * 1000;
+const HESITATION_REVISITS = 3;
+const HESITATION_ERRORS = 2;
+
+const DOCUMENTS_REQUIRED = 3;
+
+const STEPS = Object.values(OnboardingStep) as string[];
+const FIELD_EVENTS = new Set(['field_focus', 'field_blur', 'validation_error']);
+const STEP_EVENTS = new Set(['step_enter', 'step_exit']);
+
+/**
+ * Metrics computed from telemetry; the drop-off risk is the agent's call
+ */
+export type BehaviorMetrics = Omit<UserBehaviorMetrics, 'dropOffRisk'>;
+
+export class InvalidTelemetryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTelemetryError';
+  }
+}
+
+/**
+ * Check a batch of client events and move their timestamps onto the server
+ * clock. sentAt is the client's clock when the batch was sent, so the offset
+ * between the clocks can be taken out; without it the client clock is trusted.
+ */
+export const parseTelemetryBatch = (
+  rawEvents: unknown,
+  sentAt: unknown,
+  receivedAt: Date = new Date()
+): TelemetryEvent[] => {
+  if (!Array.isArray(rawEvents) || rawEvents.length === 0) {
+    throw new InvalidTelemetryError('events must be a non-empty array');
+  }
+  if (rawEvents.length > MAX_BATCH_EVENTS) {
+    throw new InvalidTelemetryError(`At most ${MAX_BATCH_EVENTS} events can be sent at once`);
+  }
+
+  const now = receivedAt.getTime();
+  const offset = typeof sentAt === 'number' && Number.isFinite(sentAt) ? now - sentAt : 0;
+
+  return rawEvents.map((raw, i) => {
+    const where = `events[${i}]`;
+
+    if (!raw || !TELEMETRY_EVENT_TYPES.includes(raw.type)) {
+      throw new InvalidTelemetryError(`${where}.type must be one of: ${TELEMETRY_EVENT_TYPES.join(', ')}`);
+    }
+    if (typeof raw.at !== 'number' || !Number.isFinite(raw.at)) {
+      throw new InvalidTelemetryError(`${where}.at must be a timestamp in milliseconds`);
+    }
+
+    const event: TelemetryEvent = { type: raw.type, at: new Date(Math.min(raw.at + offset, now)) };
+
+    if (FIELD_EVENTS.has(raw.type)) {
+      if (typeof raw.field !== 'string' || !/^[A-Za-z][A-Za-z0-9_]{0,63}$/.test(raw.field)) {
+        throw new InvalidTelemetryError(`${where}.field must be a field name`);
+      }
+      event.field = raw.field;
+    }
+
+    if (STEP_EVENTS.has(raw.type)) {
+      if (!STEPS.includes(raw.step)) {
+        throw new InvalidTelemetryError(`${where}.step must be one of: ${STEPS.join(', ')}`);
+      }
+      event.step = raw.step;
+    }
+
+    if (raw.type === 'idle') {
+      if (typeof raw.durationMs !== 'number' || !Number.isFinite(raw.durationMs) || raw.durationMs < 0) {
+        throw new InvalidTelemetryError(`${where}.durationMs must be a non-negative number`);
+      }
+      event.durationMs = raw.durationMs;
+    }
+
+    return event;
+  });
+};
+
+/**
+ * Seconds of activity from the first time to `until`, leaving out breaks
+ */
+const activeSeconds = (times: number[], until: number): number => {
+  let active = 0;
+  let previous = times[0];
+
+  for (const time of [...times.slice(1), until]) {
+    const gap = time - previous;
+    if (gap > 0 && gap <= BREAK_AFTER_MS) {
+      active += gap;
+    }
+    previous = time;
+  }
+
+  return Math.round(active / 1000);
+};
+
+/**
+ * Fields the merchant lingered on, came back to or kept getting wrong, in
+ * the order that first happened
+ */
+const findHesitationPoints = (events: TelemetryEvent[]): string[] => {
+  const points = new Set<string>();
+  const focusCounts = new Map<string, number>();
+  const errorCounts = new Map<string, number>();
+  let focused: { field: string; at: number } | null = null;
+
+  for (const event of events) {
+    const field = event.field as string;
+
+    switch (event.type) {
+      case 'field_focus': {
+        focused = { field, at: event.at.getTime() };
+        const count = (focusCounts.get(field) || 0) + 1;
+        focusCounts.set(field, count);
+        if (count >= HESITATION_REVISITS) points.add(field);
+        break;
+      }
+
+      case 'field_blur':
+        if (focused?.field === field && event.at.getTime() - focused.at >= HESITATION_MS) {
+          points.add(field);
+        }
+        focused = null;
+        break;
+
+      case 'idle':
+        if (focused && (event.durationMs || 0) >= HESITATION_MS) {
+          points.add(focused.field);
+        }
+        break;
+
+      case 'validation_error': {
+        const count = (errorCounts.get(field) || 0) + 1;
+        errorCounts.set(field, count);
+        if (count >= HESITATION_ERRORS) points.add(field);
+        break;
+      }
+    }
+  }
+
+  return [...points];
+};
+
+/**
+ * Behaviour metrics for a session from its telemetry. Time counts only while
+ * the merchant is active: gaps longer than a break are left out, and the
+ * clock stops at the last event once the merchant has been away that long.
+ */
+export const aggregateBehavior = (
+  events: TelemetryEvent[],
+  session: Pick<OnboardingSession, 'startedAt' | 'merchantData' | 'documents'>,
+  now: Date = new Date()
+): BehaviorMetrics => {
+  const progress = {
+    fieldsCompleted: REQUIRED_MERCHANT_FIELDS.filter(field => session.merchantData[field]).length,
+    fieldsTotal: REQUIRED_MERCHANT_FIELDS.length,
+    documentsUploaded: session.documents.length,
+    documentsRequired: DOCUMENTS_REQUIRED,
+  };
+
+  // Clients that send no telemetry get wall-clock time since the session started
+  if (events.length === 0) {
+    return {
+      ...progress,
+      timeOnCurrentStep: 0,
+      totalTimeSpent: Math.floor((now.getTime() - new Date(session.startedAt).getTime()) / 1000),
+      hesitationPoints: [],
+    };
+  }
+
+  const sorted = [...events].sort((first, second) => first.at.getTime() - second.at.getTime());
+  const times = sorted.map(event => event.at.getTime());
+  const lastEventAt = times[times.length - 1];
+  const activeUntil = now.getTime() - lastEventAt <= BREAK_AFTER_MS ? now.getTime() : lastEventAt;
+
+  const stepEntered = sorted.map(event => event.type).lastIndexOf('step_enter');
+
+  return {
+    ...progress,
+    timeOnCurrentStep: stepEntered >= 0 ? activeSeconds(times.slice(stepEntered), activeUntil) : 0,
+    totalTimeSpent: activeSeconds(times, activeUntil),
+    hesitationPoints: findHesitationPoints(sorted),
+  };
+};
+
+export class BehaviorAggregator {
+  constructor(private store: TelemetryStore = getTelemetryStore()) {}
+
+  /**
+   * Store a parsed batch of events for a session
+   */
+  async record(sessionId: string, events: TelemetryEvent[]): Promise<void> {
+    await this.store.append(sessionId, events, TELEMETRY_TTL_MS);
+  }
+
+  /**
+   * Current metrics for a session. If the events cannot be read, the
+   * metrics are computed without them rather than failing the request.
+   */
+  async metricsFor(session: OnboardingSession, now: Date = new Date()): Promise<BehaviorMetrics> {
+    let events: TelemetryEvent[] = [];
+
+    try {
+      events = await this.store.list(session.sessionId);
+    } catch (error) {
+      logger.warn(`Failed to read telemetry for session ${session.sessionId}:`, error);
+    }
+
+    return aggregateBehavior(events, session, now);
+  }
+}
+
+export default BehaviorAggregator;
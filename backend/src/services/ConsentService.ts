@@ -0,0 +1,240 @@
+/**
+ * Consent Service
+ * Versioned consent texts and the checks that gate verification and submission on them
+ */
+
+import {
+  ConsentStore,
+  ConsentRecord,
+  ConsentPurpose,
+  NewConsentRecord,
+} from '../stores/ConsentStore';
+
+export interface ConsentText {
+  purpose: ConsentPurpose;
+  version: string;
+  title: string;
+  text: string;
+  required: boolean;
+}
+
+/**
+ * Every text ever shown, oldest version first. Never edit a published text:
+ * add a new version so existing ledger records keep pointing at what was shown.
+ */
+export const CONSENT_TEXTS: ConsentText[] = [
+  {
+    purpose: 'aadhaar_ekyc',
+    version: '2024-01',
+    title: 'Aadhaar eKYC',
+    text:
+      'I voluntarily share my Aadhaar number and authorise its use to verify my identity through ' +
+      'UIDAI eKYC. My Aadhaar details will be used only for this onboarding and will not be shared further.',
+    required: false,
+  },
+  {
+    purpose: 'bureau_check',
+    version: '2024-01',
+    title: 'Background and credit checks',
+    text:
+      'I authorise verification of my PAN and bank account with the issuing authorities, and background ' +
+      'and credit checks with credit bureaus, as required for Payment Aggregator onboarding.',
+    required: true,
+  },
+  {
+    purpose: 'terms',
+    version: '2024-01',
+    title: 'Terms and Conditions',
+    text:
+      'I have read and agree to the terms and conditions, and confirm that all information provided is ' +
+      'true and accurate. I understand this is for a Proprietorship business applying for Payment Gateway ' +
+      'services under Indian Payment Aggregator regulations.',
+    required: true,
+  },
+  {
+    purpose: 'marketing',
+    version: '2024-01',
+    title: 'Product updates',
+    text: 'Send me product updates and offers by email, SMS and WhatsApp. I can opt out at any time.',
+    required: false,
+  },
+];
+
+export const CONSENT_PURPOSES: ConsentPurpose[] = ['aadhaar_ekyc', 'bureau_check', 'terms', 'marketing'];
+
+/**
+ * Consent each verification type needs before an external check is made
+ */
+export const VERIFICATION_CONSENT: Record<string, ConsentPurpose> = {
+  pan: 'bureau_check',
+  gstin: 'bureau_check',
+  bank_account: 'bureau_check',
+  aadhaar: 'aadhaar_ekyc',
+};
+
+export interface ConsentStatus {
+  purpose: ConsentPurpose;
+  granted: boolean;
+  textVersion?: string;
+  currentVersion: string;
+  recordedAt?: Date;
+}
+
+export type ConsentErrorCode =
+  | 'INVALID_PURPOSE'
+  | 'UNKNOWN_TEXT_VERSION'
+  | 'CONSENT_NOT_GRANTED'
+  | 'CONSENT_REQUIRED';
+
+export class ConsentError extends Error {
+  constructor(
+    public code: ConsentErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'ConsentError';
+  }
+}
+
+export interface ConsentContext {
+  sessionId: string;
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export class ConsentService {
+  constructor(private store: ConsentStore) {}
+
+  /**
+   * Latest text for every purpose
+   */
+  getCurrentTexts(): ConsentText[] {
+    return CONSENT_PURPOSES.map(purpose => this.currentText(purpose));
+  }
+
+  /**
+   * Record a grant for the text version the merchant was shown
+   */
+  async grant(context: ConsentContext, purpose: string, textVersion: string): Promise<ConsentRecord> {
+    const validPurpose = this.checkPurpose(purpose);
+
+    const shown = CONSENT_TEXTS.find(
+      text => text.purpose === validPurpose && text.version === textVersion
+    );
+    if (!shown) {
+      throw new ConsentError(
+        'UNKNOWN_TEXT_VERSION',
+        `Unknown consent text version ${textVersion} for ${validPurpose}`,
+        { purpose: validPurpose, currentVersion: this.currentText(validPurpose).version }
+      );
+    }
+
+    return this.store.append(this.toRecord(context, validPurpose, 'granted', textVersion));
+  }
+
+  /**
+   * Record a withdrawal against the version that was granted
+   */
+  async withdraw(context: ConsentContext, purpose: string): Promise<ConsentRecord> {
+    const validPurpose = this.checkPurpose(purpose);
+    const latest = await this.latest(context.sessionId, validPurpose);
+
+    if (!latest || latest.action !== 'granted') {
+      throw new ConsentError(
+        'CONSENT_NOT_GRANTED',
+        `Consent for ${validPurpose} has not been granted`,
+        { purpose: validPurpose }
+      );
+    }
+
+    return this.store.append(this.toRecord(context, validPurpose, 'withdrawn', latest.textVersion));
+  }
+
+  /**
+   * Current state of every purpose for a session
+   */
+  async getStatus(sessionId: string): Promise<ConsentStatus[]> {
+    const records = await this.store.list(sessionId);
+
+    return CONSENT_PURPOSES.map(purpose => {
+      const latest = this.latestOf(records, purpose);
+      return {
+        purpose,
+        granted: latest?.action === 'granted',
+        textVersion: latest?.textVersion,
+        currentVersion: this.currentText(purpose).version,
+        recordedAt: latest?.recordedAt,
+      };
+    });
+  }
+
+  /**
+   * Full ledger for a session, oldest first
+   */
+  async getLedger(sessionId: string): Promise<ConsentRecord[]> {
+    return this.store.list(sessionId);
+  }
+
+  /**
+   * Return the grant in force for a purpose, or throw CONSENT_REQUIRED
+   */
+  async requireConsent(sessionId: string, purpose: ConsentPurpose): Promise<ConsentRecord> {
+    const latest = await this.latest(sessionId, purpose);
+
+    if (!latest || latest.action !== 'granted') {
+      const current = this.currentText(purpose);
+      throw new ConsentError(
+        'CONSENT_REQUIRED',
+        `${current.title} consent is required for this step`,
+        { purpose, currentVersion: current.version }
+      );
+    }
+
+    return latest;
+  }
+
+  private async latest(sessionId: string, purpose: ConsentPurpose): Promise<ConsentRecord | undefined> {
+    return this.latestOf(await this.store.list(sessionId), purpose);
+  }
+
+  private latestOf(records: ConsentRecord[], purpose: ConsentPurpose): ConsentRecord | undefined {
+    return records.filter(record => record.purpose === purpose).pop();
+  }
+
+  private currentText(purpose: ConsentPurpose): ConsentText {
+    const versions = CONSENT_TEXTS.filter(text => text.purpose === purpose);
+    return versions[versions.length - 1];
+  }
+
+  private checkPurpose(purpose: string): ConsentPurpose {
+    if (!CONSENT_PURPOSES.includes(purpose as ConsentPurpose)) {
+      throw new ConsentError(
+        'INVALID_PURPOSE',
+        `purpose must be one of: ${CONSENT_PURPOSES.join(', ')}`
+      );
+    }
+
+    return purpose as ConsentPurpose;
+  }
+
+  private toRecord(
+    context: ConsentContext,
+    purpose: ConsentPurpose,
+    action: 'granted' | 'withdrawn',
+    textVersion: string
+  ): NewConsentRecord {
+    return {
+      sessionId: context.sessionId,
+      userId: context.userId,
+      purpose,
+      action,
+      textVersion,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+  }
+}
+
+export default ConsentService;
@@ -0,0 +1,183 @@
+/**
+ * Data Retention Service
+ * Erases sessions on request or once their retention period ends, leaving a
+ * non-identifying audit stub of what was deleted
+ */
+
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger';
+import {
+  SessionStore,
+  SessionListFilter,
+  OnboardingSession,
+  ConsentStore,
+  ErasureAuditStore,
+  ErasureReason,
+  ErasureRecord,
+  TelemetryStore,
+  getTelemetryStore,
+  GuardrailEventStore,
+  getGuardrailEventStore,
+  IdempotencyStore,
+  getIdempotencyStore,
+} from '../stores';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions erased per store query while purging
+const PURGE_BATCH_SIZE = 100;
+
+export interface RetentionRule {
+  dataClass: string;
+  retentionDays: number;
+  /**
+   * Sessions in this class whose retention period ended before the cutoff
+   */
+  filter: (cutoff: Date) => SessionListFilter;
+}
+
+/**
+ * Parse a retention period in days; "off" (or 0) keeps the data class indefinitely
+ */
+export const parseRetentionDays = (value: string | undefined, fallback: number | null): number | null => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  if (value === 'off') {
+    return null;
+  }
+
+  const days = parseInt(value, 10);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid retention period: ${value}`);
+  }
+
+  return days === 0 ? null : days;
+};
+
+const rule = (
+  dataClass: string,
+  retentionDays: number | null,
+  filter: RetentionRule['filter']
+): RetentionRule[] => (retentionDays === null ? [] : [{ dataClass, retentionDays, filter }]);
+
+/**
+ * Retention rules per data class, overridable with RETENTION_*_DAYS.
+ * Approved applications are kept unless RETENTION_APPROVED_DAYS is set,
+ * since KYC records have their own statutory retention period.
+ */
+export const RETENTION_RULES: RetentionRule[] = [
+  ...rule('abandoned_sessions', parseRetentionDays(process.env.RETENTION_ABANDONED_DAYS, 30),
+    cutoff => ({ status: 'abandoned', inactiveSince: cutoff })),
+  ...rule('saved_drafts', parseRetentionDays(process.env.RETENTION_DRAFT_DAYS, 90),
+    cutoff => ({ status: 'paused', inactiveSince: cutoff })),
+  ...rule('rejected_applications', parseRetentionDays(process.env.RETENTION_REJECTED_DAYS, 180),
+    cutoff => ({ status: 'completed', decision: 'rejected', decidedBefore: cutoff })),
+  ...rule('approved_applications', parseRetentionDays(process.env.RETENTION_APPROVED_DAYS, null),
+    cutoff => ({ status: 'completed', decision: 'approved', decidedBefore: cutoff })),
+];
+
+export class ErasureRestrictedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ErasureRestrictedError';
+  }
+}
+
+/**
+ * Stable, non-reversible reference to a session for the audit trail
+ */
+export const sessionRef = (sessionId: string): string =>
+  createHash('sha256').update(sessionId).digest('hex');
+
+export class DataRetentionService {
+  constructor(
+    private sessionStore: SessionStore,
+    private consentStore: ConsentStore,
+    private auditStore: ErasureAuditStore,
+    private telemetryStore: TelemetryStore = getTelemetryStore(),
+    private guardrailEventStore: GuardrailEventStore = getGuardrailEventStore(),
+    private idempotencyStore: IdempotencyStore = getIdempotencyStore(),
+    private rules: RetentionRule[] = RETENTION_RULES
+  ) {}
+
+  /**
+   * Erase a session at the merchant's request. Approved applications are
+   * held for regulatory retention and cannot be erased this way.
+   */
+  async eraseOnRequest(session: OnboardingSession): Promise<ErasureRecord> {
+    if (session.review?.decision === 'approved') {
+      throw new ErasureRestrictedError(
+        'Approved applications must be retained for regulatory compliance'
+      );
+    }
+
+    return this.erase(session, 'erasure_request');
+  }
+
+  /**
+   * Erase every session whose retention period has ended. Returns the number erased.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let total = 0;
+
+    for (const { dataClass, retentionDays, filter } of this.rules) {
+      const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+      let purged = 0;
+
+      // Erased sessions drop out of the filter, so each batch is the next set due
+      for (;;) {
+        const sessions = await this.sessionStore.list({ ...filter(cutoff), limit: PURGE_BATCH_SIZE });
+
+        for (const session of sessions) {
+          await this.erase(session, 'retention_policy', dataClass);
+          purged++;
+        }
+
+        if (sessions.length < PURGE_BATCH_SIZE) break;
+      }
+
+      if (purged > 0) {
+        logger.info(`Retention purge removed ${purged} session(s) from ${dataClass}`);
+      }
+      total += purged;
+    }
+
+    return total;
+  }
+
+  /**
+   * Delete the session, its history, behaviour telemetry, guardrail events and
+   * stored idempotent responses, strip identifiers from its consent records,
+   * and record what was removed
+   */
+  private async erase(
+    session: OnboardingSession,
+    reason: ErasureReason,
+    dataClass?: string
+  ): Promise<ErasureRecord> {
+    await this.sessionStore.delete(session.sessionId);
+    await this.telemetryStore.delete(session.sessionId);
+    const consentRecordsAnonymized = await this.consentStore.anonymize(session.sessionId);
+    const guardrailEvents = await this.guardrailEventStore.deleteForSession(session.sessionId);
+    const idempotencyRecords = await this.idempotencyStore.deleteForSession(session.sessionId);
+
+    return this.auditStore.append({
+      sessionRef: sessionRef(session.sessionId),
+      reason,
+      dataClass,
+      sessionStatus: session.status,
+      deleted: {
+        merchantFields: Object.keys(session.merchantData),
+        documents: session.documents.length,
+        messages: session.conversationHistory.length,
+        fieldChanges: session.fieldHistory.length,
+        consentRecordsAnonymized,
+        guardrailEvents,
+        idempotencyRecords,
+      },
+    });
+  }
+}
+
+export default DataRetentionService;
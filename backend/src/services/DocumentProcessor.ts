@@ -3,10 +3,12 @@
  * Handles OCR, entity extraction, and document validation
  */
 
-import { ChatAnthropic } from '@langchain/anthropic';
-import { PromptTemplate } from '@langchain/core/prompts';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { RunnableSequence } from '@langchain/core/runnables';
 import { StringOutputParser } from '@langchain/core/output_parsers';
+import { LLMProvider, getLLMProvider } from '../integrations/LLMProvider';
+import { PromptRegistry, PromptSelection, getPromptRegistry } from './PromptRegistry';
+import { invokeSanitized, PLACEHOLDER_INSTRUCTION } from '../utils/redaction';
 
 export interface OCRResult {
   text: string;
@@ -27,17 +29,22 @@ export interface TextBlock {
   };
 }
 
+// Document types with their own extraction prompt; others use business_proof
+const EXTRACTION_PROMPT_TYPES = ['business_proof', 'id_proof', 'bank_proof', 'address_proof'];
+
 export class DocumentProcessor {
-  private llm: ChatAnthropic;
-
-  constructor() {
-    this.llm = new ChatAnthropic({
-      modelName: 'claude-sonnet-4-5-20250929',
-      temperature: 0,
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  private llm: BaseChatModel;
+  private prompts: PromptRegistry;
+
+  constructor(
+    llmProvider: LLMProvider = getLLMProvider(),
+    promptRegistry: PromptRegistry = getPromptRegistry()
+  ) {
+    this.llm = llmProvider.chatModel('extraction');
+    this.prompts = promptRegistry;
   }
 
+
   /**
    * Extract text from document using OCR
    * In production, this would use Google Vision API or AWS Textract
@@ -60,21 +67,25 @@ export class DocumentProcessor {
   }
 
   /**
-   * Extract structured entities from OCR text using AI
+   * Extract structured entities from OCR text using AI.
+   * Pass the session's prompt selection to use its experiment variant.
    */
   async extractEntities(
     text: string,
-    documentType: string
+    documentType: string,
+    prompts: PromptSelection = this.prompts.select()
   ): Promise<Record<string, any>> {
-    const prompt = this.buildExtractionPrompt(documentType);
+    const promptType = EXTRACTION_PROMPT_TYPES.includes(documentType)
+      ? documentType
+      : 'business_proof';
 
     const chain = RunnableSequence.from([
-      prompt,
+      prompts.template(`document.extraction.${promptType}`),
       this.llm,
       new StringOutputParser(),
     ]);
 
-    const result = await chain.invoke({ text });
+    const result = await invokeSanitized(chain, { text, placeholderInstruction: PLACEHOLDER_INSTRUCTION });
 
     try {
       return JSON.parse(result);
@@ -84,117 +95,6 @@ export class DocumentProcessor {
     }
   }
 
-  /**
-   * Build document-specific extraction prompt
-   */
-  private buildExtractionPrompt(documentType: string): PromptTemplate {
-    const templates = {
-      business_proof: `
-        Extract business information from this GST certificate or trade license text.
-
-        Text: {text}
-
-        Extract the following fields as JSON:
-        {{
-          "business_name": "exact business name",
-          "gstin": "15-character GSTIN if present",
-          "trade_license": "license number if present",
-          "address": "full business address",
-          "city": "city name",
-          "state": "state name",
-          "pincode": "6-digit pincode",
-          "registration_date": "date in YYYY-MM-DD format"
-        }}
-
-        Rules:
-        - Return only valid, extracted data
-        - Use null for missing fields
-        - Ensure GSTIN is 15 characters
-        - Ensure pincode is 6 digits
-        - Format dates as YYYY-MM-DD
-
-        Return only the JSON object, no additional text.
-      `,
-
-      id_proof: `
-        Extract identity information from this PAN or Aadhaar card text.
-
-        Text: {text}
-
-        Extract the following fields as JSON:
-        {{
-          "name": "full name as on document",
-          "pan": "10-character PAN if present",
-          "aadhaar": "12-digit Aadhaar if present (masked)",
-          "father_name": "father's name if present",
-          "dob": "date of birth in YYYY-MM-DD",
-          "address": "full address if present"
-        }}
-
-        Rules:
-        - Return only valid, extracted data
-        - Use null for missing fields
-        - PAN must be 10 characters (5 letters, 4 digits, 1 letter)
-        - Mask middle 8 digits of Aadhaar (e.g., XXXX-XXXX-1234)
-        - Format dates as YYYY-MM-DD
-
-        Return only the JSON object, no additional text.
-      `,
-
-      bank_proof: `
-        Extract bank details from this cancelled cheque or bank statement.
-
-        Text: {text}
-
-        Extract the following fields as JSON:
-        {{
-          "account_number": "bank account number",
-          "ifsc": "11-character IFSC code",
-          "bank_name": "name of the bank",
-          "branch": "branch name",
-          "account_holder": "account holder name",
-          "account_type": "savings/current"
-        }}
-
-        Rules:
-        - Return only valid, extracted data
-        - Use null for missing fields
-        - IFSC must be 11 characters
-        - Account number should be numeric
-
-        Return only the JSON object, no additional text.
-      `,
-
-      address_proof: `
-        Extract address information from this utility bill or rent agreement.
-
-        Text: {text}
-
-        Extract the following fields as JSON:
-        {{
-          "name": "name on document",
-          "address": "full address",
-          "city": "city name",
-          "state": "state name",
-          "pincode": "6-digit pincode",
-          "document_date": "date in YYYY-MM-DD"
-        }}
-
-        Rules:
-        - Return only valid, extracted data
-        - Use null for missing fields
-        - Ensure pincode is 6 digits
-        - Format dates as YYYY-MM-DD
-
-        Return only the JSON object, no additional text.
-      `,
-    };
-
-    return PromptTemplate.fromTemplate(
-      templates[documentType] || templates.business_proof
-    );
-  }
-
   /**
    * Analyze document quality and suggest improvements
    */
@@ -0,0 +1,81 @@
+/**
+ * Encryption Service
+ * Envelope encryption for individual field values: each value gets its own
+ * data key, and the data key is wrapped with the provider's master key.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { KeyProvider, createKeyProvider } from '../integrations/KeyProvider';
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * AES-256-GCM, packed as iv | tag | ciphertext
+ */
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const buffer = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, buffer.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+export class EncryptionService {
+  constructor(private keys: KeyProvider) {}
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  /**
+   * Encrypt any JSON value to an envelope string: enc:v1:<keyId>:<wrapped data key>:<ciphertext>
+   */
+  encrypt(value: unknown): string {
+    const masterKey = this.keys.getActiveKey();
+    const dataKey = randomBytes(32);
+
+    const wrappedKey = seal(masterKey.key, dataKey);
+    const ciphertext = seal(dataKey, Buffer.from(JSON.stringify(value), 'utf8'));
+
+    return `${PREFIX}${masterKey.id}:${wrappedKey}:${ciphertext}`;
+  }
+
+  /**
+   * Decrypt an envelope produced by encrypt(); other values are returned unchanged
+   */
+  decrypt(value: unknown): unknown {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(':');
+    const dataKey = open(this.keys.getKey(keyId).key, wrappedKey);
+
+    return JSON.parse(open(dataKey, ciphertext).toString('utf8'));
+  }
+}
+
+let sharedService: EncryptionService | null = null;
+
+/**
+ * Get the process-wide encryption service
+ */
+export const getEncryptionService = (): EncryptionService => {
+  if (!sharedService) {
+    sharedService = new EncryptionService(createKeyProvider());
+  }
+
+  return sharedService;
+};
+
+export default EncryptionService;
@@ -0,0 +1,168 @@
+/**
+ * File Inspector
+ * Checks uploaded documents by content rather than by the client's declared type:
+ * magic bytes, polyglot markers, active PDF content and a malware scan
+ */
+
+import { inflateSync } from 'zlib';
+import { MalwareScanner } from '../integrations/MalwareScanner';
+
+export type FileRejectionReason =
+  | 'UNSUPPORTED_TYPE'
+  | 'TYPE_MISMATCH'
+  | 'POLYGLOT'
+  | 'ACTIVE_CONTENT'
+  | 'MALWARE_DETECTED';
+
+export class FileRejectedError extends Error {
+  constructor(
+    public reason: FileRejectionReason,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'FileRejectedError';
+  }
+}
+
+export type SniffedType = 'image/jpeg' | 'image/png' | 'application/pdf';
+
+const SIGNATURES: Array<{ type: SniffedType; bytes: number[] }> = [
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+];
+
+// Browsers report JPEGs as either
+const MIME_ALIASES: Record<string, SniffedType> = {
+  'image/jpg': 'image/jpeg',
+};
+
+// Markers of a second format hidden inside an allowed one
+const POLYGLOT_MARKERS: Array<{ label: string; pattern: RegExp }> = [
+  { label: 'pdf', pattern: /%PDF-/ },
+  { label: 'zip', pattern: /PK\x03\x04/ },
+  { label: 'html', pattern: /<(?:html|script|iframe|svg)[\s>]/i },
+  { label: 'php', pattern: /<\?php/i },
+];
+
+// PDF actions that run code or open other content
+const PDF_ACTIVE_CONTENT = /\/(?:JavaScript|JS|Launch|EmbeddedFile|RichMedia|XFA)\b/;
+
+// Cap on decompressed PDF stream data, so a compression bomb cannot exhaust memory
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Identify a file from its leading bytes
+ */
+export const sniffFileType = (buffer: Buffer): SniffedType | null => {
+  const match = SIGNATURES.find(({ bytes }) =>
+    buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte)
+  );
+
+  return match ? match.type : null;
+};
+
+/**
+ * PDF names may hex-escape characters (/J#61vaScript); decode them before matching
+ */
+const decodePdfNames = (text: string): string =>
+  text.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+/**
+ * Raw file text plus the contents of any Flate-compressed streams, where
+ * object streams can hide dictionaries
+ */
+const pdfSearchText = (buffer: Buffer): string => {
+  const raw = buffer.toString('latin1');
+  const parts = [raw];
+  let inflatedBytes = 0;
+
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(raw)) !== null && inflatedBytes < MAX_INFLATED_BYTES) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+
+    try {
+      const inflated = inflateSync(buffer.subarray(start, end), {
+        maxOutputLength: MAX_INFLATED_BYTES - inflatedBytes,
+      });
+      inflatedBytes += inflated.length;
+      parts.push(inflated.toString('latin1'));
+    } catch {
+      // Not Flate data (or truncated); the raw bytes were already searched
+    }
+
+    streamPattern.lastIndex = end;
+  }
+
+  return decodePdfNames(parts.join('\n'));
+};
+
+export class FileInspector {
+  constructor(private scanner: MalwareScanner) {}
+
+  /**
+   * Throw FileRejectedError unless the file is an allowed type, matches its
+   * declared type, carries no second format or active content, and scans clean
+   */
+  async inspect(buffer: Buffer, declaredType: string, filename: string): Promise<SniffedType> {
+    const sniffed = sniffFileType(buffer);
+
+    if (!sniffed) {
+      throw new FileRejectedError(
+        'UNSUPPORTED_TYPE',
+        'File content is not a JPEG, PNG or PDF'
+      );
+    }
+
+    const declared = MIME_ALIASES[declaredType] || declaredType;
+    if (declared !== sniffed) {
+      throw new FileRejectedError(
+        'TYPE_MISMATCH',
+        'File content does not match its declared type',
+        { declared: declaredType, detected: sniffed }
+      );
+    }
+
+    // Skip the leading signature so a PDF does not match its own header
+    const body = buffer.subarray(8).toString('latin1');
+    const polyglot = POLYGLOT_MARKERS.find(({ label, pattern }) =>
+      !(sniffed === 'application/pdf' && label === 'pdf') && pattern.test(body)
+    );
+    if (polyglot) {
+      throw new FileRejectedError(
+        'POLYGLOT',
+        'File contains data in more than one format',
+        { embedded: polyglot.label }
+      );
+    }
+
+    if (sniffed === 'application/pdf') {
+      const active = pdfSearchText(buffer).match(PDF_ACTIVE_CONTENT);
+      if (active) {
+        throw new FileRejectedError(
+          'ACTIVE_CONTENT',
+          'PDFs with scripts, launch actions or embedded files are not accepted',
+          { found: active[0] }
+        );
+      }
+    }
+
+    const scan = await this.scanner.scan(buffer, filename);
+    if (!scan.clean) {
+      throw new FileRejectedError(
+        'MALWARE_DETECTED',
+        'File failed the malware scan',
+        { signature: scan.signature }
+      );
+    }
+
+    return sniffed;
+  }
+}
+
+export default FileInspector;
@@ -0,0 +1,183 @@
+/**
+ * Guardrail Service
+ * Screens chat messages and document text for attempts to instruct the
+ * model, checks model output before it is merged into merchantData, and
+ * records everything it flags for the ops team to review
+ */
+
+import { redact } from '../utils/redaction';
+import { logger } from '../utils/logger';
+import {
+  GuardrailEventStore,
+  GuardrailOrigin,
+  NewGuardrailEvent,
+  getGuardrailEventStore,
+} from '../stores';
+
+// Text addressed to the model rather than to us. Patterns are kept narrow so
+// ordinary answers ("ignore my previous answer, the name is...") pass.
+const INJECTION_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'override_instructions',
+    pattern: /\b(ignore|disregard|forget|override)\b[^.!?\n]{0,40}\b(previous|prior|above|earlier|all|your|system)\b[^.!?\n]{0,20}\b(instructions?|prompts?|rules)\b/i,
+  },
+  { name: 'new_instructions', pattern: /\b(new|updated|real) (system )?instructions?\s*:/i },
+  { name: 'role_change', pattern: /\b(you are now|from now on,? you (are|will)|pretend (to be|you are))\b/i },
+  {
+    name: 'prompt_disclosure',
+    pattern: /\b(reveal|show|print|repeat)\b[^.!?\n]{0,30}\b(system prompt|your (instructions|prompt|rules))\b/i,
+  },
+  {
+    name: 'status_manipulation',
+    pattern: /\b(set|change|mark|update)\b[^.!?\n]{0,30}\b(status|decision|review)\b[^.!?\n]{0,20}\b(approved?|verified|accepted)\b/i,
+  },
+  { name: 'role_markers', pattern: /(<\/?(system|assistant|instructions?)>|\[\/?(system|inst)\]|^\s*(system|assistant)\s*:)/im },
+  { name: 'jailbreak', pattern: /\b(jailbreak|developer mode|dan mode)\b/i },
+  { name: 'override_instructions_hi', pattern: /(पिछले|पहले के|सभी)\s+(सभी\s+)?निर्देश(ों)?\s+(को\s+)?(अनदेखा|नज़रअंदाज़|भूल)/ },
+];
+
+/**
+ * Every merchantData field. Model output may only ever set these.
+ */
+export const MERCHANT_FIELDS = [
+  'businessName',
+  'businessType',
+  'gstin',
+  'pan',
+  'tradeLicenseNumber',
+  'ownerName',
+  'email',
+  'phone',
+  'address',
+  'city',
+  'state',
+  'pincode',
+  'accountNumber',
+  'ifscCode',
+  'bankName',
+  'accountHolderName',
+  'category',
+  'website',
+  'monthlyVolume',
+  'averageTicketSize',
+];
+
+const NUMERIC_FIELDS = new Set(['monthlyVolume', 'averageTicketSize']);
+const MAX_VALUE_LENGTH = 300;
+const EXCERPT_LENGTH = 200;
+
+/**
+ * Names of the injection patterns a text matches
+ */
+export const detectInjection = (text: string): string[] =>
+  INJECTION_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ name }) => name);
+
+/**
+ * Why a value may not be stored in a field, or null if it may
+ */
+const rejectValue = (field: string, value: unknown, allowedFields: string[]): string | null => {
+  if (!allowedFields.includes(field)) {
+    return 'not an allowed field';
+  }
+
+  if (NUMERIC_FIELDS.has(field)) {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0
+      ? null
+      : 'must be a non-negative number';
+  }
+
+  if (typeof value !== 'string') return 'must be text';
+  if (value.length > MAX_VALUE_LENGTH) return 'too long';
+  if (/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/.test(value)) return 'contains control characters';
+  if (detectInjection(value).length > 0) return 'contains instructions';
+
+  return null;
+};
+
+export class GuardrailService {
+  constructor(private store: GuardrailEventStore = getGuardrailEventStore()) {}
+
+  /**
+   * Check text before it is put in a prompt. Returns the matched patterns;
+   * empty means the text is fine.
+   */
+  async screenInput(sessionId: string, text: string, origin: GuardrailOrigin): Promise<string[]> {
+    const reasons = detectInjection(text);
+
+    if (reasons.length > 0) {
+      await this.record({ sessionId, kind: 'prompt_injection', origin, reasons, excerpt: this.excerpt(text) });
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Keep only the updates to allowed fields with values of the right type.
+   * Whatever is dropped is recorded.
+   */
+  async screenDataUpdates(
+    sessionId: string,
+    origin: GuardrailOrigin,
+    updates: Record<string, any>,
+    allowedFields: string[] = MERCHANT_FIELDS
+  ): Promise<Record<string, any>> {
+    const accepted: Record<string, any> = {};
+    const rejected: Array<{ field: string; reason: string }> = [];
+
+    for (const [field, value] of Object.entries(updates)) {
+      const reason = rejectValue(field, value, allowedFields);
+      if (reason) {
+        rejected.push({ field, reason });
+      } else {
+        accepted[field] = value;
+      }
+    }
+
+    if (rejected.length > 0) {
+      await this.record({
+        sessionId,
+        kind: 'rejected_update',
+        origin,
+        reasons: rejected.map(({ field, reason }) => `${field}: ${reason}`),
+        fields: rejected.map(({ field }) => field),
+      });
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Record a chat message the agent declined as unrelated to onboarding
+   */
+  async recordOffTopic(sessionId: string, message: string): Promise<void> {
+    await this.record({
+      sessionId,
+      kind: 'off_topic',
+      origin: 'chat',
+      reasons: ['off_topic_intent'],
+      excerpt: this.excerpt(message),
+    });
+  }
+
+  /**
+   * A failed write is logged rather than failing the request; the warning
+   * carries the same details
+   */
+  private async record(event: NewGuardrailEvent): Promise<void> {
+    logger.warn(`Guardrail ${event.kind} (${event.origin}) in session ${event.sessionId}: ${event.reasons.join(', ')}`);
+
+    try {
+      await this.store.append(event);
+    } catch (error) {
+      logger.error('Failed to record guardrail event:', error);
+    }
+  }
+
+  private excerpt(text: string): string {
+    return redact(text).slice(0, EXCERPT_LENGTH);
+  }
+}
+
+export default GuardrailService;
@@ -0,0 +1,167 @@
+/**
+ * Intervention Channel
+ * One WebSocket per open onboarding screen, over which proactive help is
+ * pushed. Connected sessions are checked on an interval, so a merchant who
+ * is stuck gets help without typing anything.
+ */
+
+import { Server, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { InterventionMonitor } from './InterventionMonitor';
+import { DeliveredIntervention } from '../agents/OnboardingAgent';
+import { verifyToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { SessionStore, getSessionStore } from '../stores';
+
+export const INTERVENTION_CHANNEL_PATH = '/api/onboarding/interventions';
+
+/**
+ * Answer a refused upgrade with a plain HTTP status
+ */
+const refuse = (socket: Duplex, status: number): void => {
+  socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+};
+
+export class InterventionChannel {
+  private server = new WebSocketServer({ noServer: true });
+  private sockets = new Map<string, Set<WebSocket>>();
+  private alive = new WeakSet<WebSocket>();
+  private checking = new Set<string>();
+
+  constructor(
+    private monitor: InterventionMonitor = new InterventionMonitor(),
+    private sessionStore: SessionStore = getSessionStore()
+  ) {}
+
+  /**
+   * Accept upgrades to the channel path on an HTTP server. Browsers cannot
+   * set headers on a WebSocket, so the token comes in the query string with
+   * the session ID.
+   */
+  attach(httpServer: Server): void {
+    httpServer.on('upgrade', async (req, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      if (url.pathname !== INTERVENTION_CHANNEL_PATH) {
+        return refuse(socket, 404);
+      }
+
+      try {
+        const status = await this.authorize(url);
+        if (status !== 200) {
+          return refuse(socket, status);
+        }
+
+        const sessionId = url.searchParams.get('sessionId') as string;
+        this.server.handleUpgrade(req, socket, head, ws => this.register(sessionId, ws));
+      } catch (error) {
+        logger.error('Error opening intervention channel:', error);
+        refuse(socket, 500);
+      }
+    });
+  }
+
+  /**
+   * Check connected sessions every intervalMs, dropping connections that
+   * stopped answering pings
+   */
+  start(intervalMs: number): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      for (const [sessionId, sockets] of this.sockets) {
+        for (const ws of sockets) {
+          if (!this.alive.has(ws)) {
+            ws.terminate();
+            continue;
+          }
+          this.alive.delete(ws);
+          ws.ping();
+        }
+
+        this.checkSession(sessionId);
+      }
+    }, intervalMs);
+
+    // Do not keep the process alive just for this check
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * HTTP status for an upgrade: the token must belong to the session's owner
+   */
+  private async authorize(url: URL): Promise<number> {
+    const token = url.searchParams.get('token');
+    const sessionId = url.searchParams.get('sessionId');
+    if (!token || !sessionId) {
+      return 400;
+    }
+
+    let userId: string;
+    try {
+      userId = verifyToken(token).userId;
+    } catch {
+      return 401;
+    }
+
+    const session = await this.sessionStore.get(sessionId);
+    if (!session) {
+      return 404;
+    }
+
+    return session.userId === userId ? 200 : 403;
+  }
+
+  private register(sessionId: string, ws: WebSocket): void {
+    const sockets = this.sockets.get(sessionId) || new Set<WebSocket>();
+    sockets.add(ws);
+    this.sockets.set(sessionId, sockets);
+    this.alive.add(ws);
+
+    ws.on('pong', () => this.alive.add(ws));
+    ws.on('error', error => logger.warn(`Intervention channel error for session ${sessionId}:`, error));
+    ws.on('close', () => {
+      sockets.delete(ws);
+      if (sockets.size === 0 && this.sockets.get(sessionId) === sockets) {
+        this.sockets.delete(sessionId);
+      }
+    });
+
+    // A merchant who reopens the page while stuck is helped straight away
+    this.checkSession(sessionId);
+  }
+
+  /**
+   * Check one session at a time, so overlapping checks cannot both deliver
+   */
+  private async checkSession(sessionId: string): Promise<void> {
+    if (this.checking.has(sessionId)) {
+      return;
+    }
+
+    this.checking.add(sessionId);
+    try {
+      const intervention = await this.monitor.check(sessionId);
+      if (intervention) {
+        this.push(sessionId, intervention);
+      }
+    } catch (error) {
+      logger.error(`Intervention check failed for session ${sessionId}:`, error);
+    } finally {
+      this.checking.delete(sessionId);
+    }
+  }
+
+  private push(sessionId: string, intervention: DeliveredIntervention): void {
+    const message = JSON.stringify({ type: 'intervention', intervention });
+
+    for (const ws of this.sockets.get(sessionId) || []) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    }
+
+    logger.info(`Pushed ${intervention.type} intervention to session ${sessionId}`);
+  }
+}
+
+export default InterventionChannel;
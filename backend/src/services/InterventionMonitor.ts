@@ -0,0 +1,68 @@
+/**
+ * Intervention Monitor
+ * Decides when a session is due proactive help from its behaviour metrics,
+ * without waiting for the merchant to send a message, and records each
+ * intervention it hands out in session.interventions
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { OnboardingAgent, DeliveredIntervention } from '../agents/OnboardingAgent';
+import { BehaviorAggregator } from './BehaviorAggregator';
+import { DEFAULT_LANGUAGE } from '../i18n/languages';
+import { SessionStore, getSessionStore } from '../stores';
+
+// Quiet period after any intervention, so help does not pile up
+const COOLDOWN_MS = 2 * 60 * 1000;
+
+// The same kind of help is not offered again within this time
+const REPEAT_AFTER_MS = 15 * 60 * 1000;
+
+export class InterventionMonitor {
+  constructor(
+    private sessionStore: SessionStore = getSessionStore(),
+    private behavior: BehaviorAggregator = new BehaviorAggregator(),
+    private agent: OnboardingAgent = new OnboardingAgent()
+  ) {}
+
+  /**
+   * The intervention a session is due now, if any. It is recorded as
+   * delivered before it is returned.
+   */
+  async check(sessionId: string, now: Date = new Date()): Promise<DeliveredIntervention | null> {
+    const session = await this.sessionStore.get(sessionId);
+    if (!session || session.status !== 'in_progress') {
+      return null;
+    }
+
+    const metrics = await this.behavior.metricsFor(session, now);
+    const intervention = this.agent.detectIntervention(
+      { ...metrics, dropOffRisk: this.agent.calculateDropOffRisk(metrics) },
+      session.language?.code || DEFAULT_LANGUAGE
+    );
+    if (!intervention) {
+      return null;
+    }
+
+    const delivered: DeliveredIntervention[] = session.interventions || [];
+    const since = (entry: DeliveredIntervention) => now.getTime() - new Date(entry.deliveredAt).getTime();
+
+    if (delivered.some(entry => since(entry) < COOLDOWN_MS)) {
+      return null;
+    }
+    if (delivered.some(entry => entry.type === intervention.type && since(entry) < REPEAT_AFTER_MS)) {
+      return null;
+    }
+
+    const record: DeliveredIntervention = {
+      ...intervention,
+      id: uuidv4(),
+      step: session.currentStep,
+      deliveredAt: now,
+    };
+
+    await this.sessionStore.update(sessionId, { interventions: [...delivered, record] });
+    return record;
+  }
+}
+
+export default InterventionMonitor;
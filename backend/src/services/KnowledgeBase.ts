@@ -0,0 +1,184 @@
+/**
+ * Knowledge Base
+ * Onboarding policy content from markdown files, split into passages by
+ * heading and ranked with a local BM25 index, so the agent can answer
+ * questions from our own documentation and cite where the answer came from
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Bm25Index } from '../utils/bm25';
+import { logger } from '../utils/logger';
+
+const REPO_ROOT = path.resolve(__dirname, '../../..');
+const DEFAULT_SOURCES = ['docs/journey-flow.md', 'ONBOARDING_JOURNEY.md'];
+
+// Longer sections are split at paragraph breaks into passages of about this size
+const MAX_PASSAGE_CHARS = 1200;
+
+export interface Passage {
+  id: string; // <source>#<n>
+  source: string; // File path relative to the repository root
+  section: string; // Heading path, e.g. "Compliance > Required Documents"
+  text: string;
+}
+
+/**
+ * Where part of an answer came from, stored in the agent message metadata
+ */
+export interface Citation {
+  passageId: string;
+  source: string;
+  section: string;
+  score: number;
+}
+
+export interface RetrievedPassage {
+  passage: Passage;
+  score: number;
+}
+
+/**
+ * Split markdown into passages, one per section, keeping the headings above
+ * each section as its title. Fence markers and lines without any words or
+ * numbers (diagram borders, rules) are dropped.
+ */
+export const splitMarkdown = (source: string, markdown: string): Passage[] => {
+  const passages: Passage[] = [];
+  const headings: string[] = [];
+  let body: string[] = [];
+
+  const flush = () => {
+    const text = body.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    body = [];
+    if (!text) return;
+
+    // The document title is left out; the source already names the document
+    const section = headings.slice(1).filter(Boolean).join(' > ') || headings[0] || '';
+    for (const chunk of splitLongText(text)) {
+      passages.push({ id: `${source}#${passages.length + 1}`, source, section, text: chunk });
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2].replace(/[*_`]/g, '').trim();
+      continue;
+    }
+
+    if (/^\s*```/.test(line) || !/[A-Za-z0-9]/.test(line)) {
+      body.push('');
+      continue;
+    }
+
+    body.push(line);
+  }
+  flush();
+
+  return passages;
+};
+
+const splitLongText = (text: string): string[] => {
+  if (text.length <= MAX_PASSAGE_CHARS) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > MAX_PASSAGE_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+};
+
+export class KnowledgeBase {
+  private index = new Bm25Index<Passage>();
+
+  constructor(passages: Passage[]) {
+    for (const passage of passages) {
+      // The section title is indexed with the text so "Required Documents" matches its list
+      this.index.add(passage, `${passage.section}\n${passage.text}`);
+    }
+  }
+
+  /**
+   * Build the knowledge base from markdown files. Paths are relative to the
+   * repository root; a missing file is logged and skipped.
+   */
+  static fromFiles(sources: string[], root: string = REPO_ROOT): KnowledgeBase {
+    const passages: Passage[] = [];
+
+    for (const source of sources) {
+      const file = path.resolve(root, source);
+      if (!fs.existsSync(file)) {
+        logger.warn(`Knowledge base source not found: ${file}`);
+        continue;
+      }
+
+      passages.push(...splitMarkdown(source, fs.readFileSync(file, 'utf8')));
+    }
+
+    logger.info(`Knowledge base indexed ${passages.length} passages from ${sources.length} files`);
+    return new KnowledgeBase(passages);
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * The passages that best answer a question
+   */
+  search(query: string, limit: number = 3): RetrievedPassage[] {
+    return this.index
+      .search(query, limit)
+      .map(({ item, score }) => ({ passage: item, score }));
+  }
+}
+
+/**
+ * Passages as numbered prompt text
+ */
+export const formatPassages = (passages: RetrievedPassage[]): string => {
+  if (passages.length === 0) return 'none';
+
+  return passages
+    .map(({ passage }, i) => `[${i + 1}] ${passage.source} - ${passage.section}\n${passage.text}`)
+    .join('\n\n');
+};
+
+export const toCitations = (passages: RetrievedPassage[]): Citation[] =>
+  passages.map(({ passage, score }) => ({
+    passageId: passage.id,
+    source: passage.source,
+    section: passage.section,
+    score: Math.round(score * 100) / 100,
+  }));
+
+let sharedKnowledgeBase: KnowledgeBase | null = null;
+
+/**
+ * Get the process-wide knowledge base, indexing KNOWLEDGE_BASE_SOURCES
+ * (comma-separated markdown paths) on first use
+ */
+export const getKnowledgeBase = (): KnowledgeBase => {
+  if (!sharedKnowledgeBase) {
+    const sources = process.env.KNOWLEDGE_BASE_SOURCES
+      ? process.env.KNOWLEDGE_BASE_SOURCES.split(',').map(source => source.trim()).filter(Boolean)
+      : DEFAULT_SOURCES;
+    sharedKnowledgeBase = KnowledgeBase.fromFiles(sources);
+  }
+
+  return sharedKnowledgeBase;
+};
+
+export default KnowledgeBase;
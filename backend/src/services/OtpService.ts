@@ -0,0 +1,179 @@
+/**
+ * OTP Service
+ * Issues and verifies one-time passwords for mobile login
+ */
+
+import { randomInt } from 'crypto';
+import bcrypt from 'bcrypt';
+import { OtpStore, OtpRecord } from '../stores/OtpStore';
+import { SmsProvider } from '../integrations/SmsProvider';
+
+export interface OtpConfig {
+  codeLength: number;
+  ttlMs: number;
+  maxAttempts: number;
+  resendIntervalMs: number;
+  maxSendsPerWindow: number;
+  sendWindowMs: number;
+}
+
+export const DEFAULT_OTP_CONFIG: OtpConfig = {
+  codeLength: 6,
+  ttlMs: parseInt(process.env.OTP_TTL_MS || '300000', 10), // 5 minutes
+  maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10),
+  resendIntervalMs: parseInt(process.env.OTP_RESEND_INTERVAL_MS || '30000', 10),
+  maxSendsPerWindow: parseInt(process.env.OTP_MAX_SENDS_PER_HOUR || '5', 10),
+  sendWindowMs: 60 * 60 * 1000,
+};
+
+export type OtpErrorCode =
+  | 'INVALID_PHONE'
+  | 'OTP_RESEND_THROTTLED'
+  | 'OTP_NOT_REQUESTED'
+  | 'OTP_EXPIRED'
+  | 'OTP_INVALID'
+  | 'OTP_ATTEMPTS_EXCEEDED';
+
+export class OtpError extends Error {
+  constructor(
+    public code: OtpErrorCode,
+    message: string,
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'OtpError';
+  }
+}
+
+const BCRYPT_ROUNDS = 10;
+
+export class OtpService {
+  constructor(
+    private store: OtpStore,
+    private sms: SmsProvider,
+    private config: OtpConfig = DEFAULT_OTP_CONFIG
+  ) {}
+
+  /**
+   * Normalise an Indian mobile number to its 10-digit form
+   */
+  normalizePhone(input: string): string {
+    const digits = String(input || '').replace(/[\s\-()]/g, '').replace(/^(\+91|91|0)(?=\d{10}$)/, '');
+
+    if (!/^[6-9]\d{9}$/.test(digits)) {
+      throw new OtpError('INVALID_PHONE', 'Please enter a valid 10-digit Indian mobile number');
+    }
+
+    return digits;
+  }
+
+  /**
+   * Generate, store and send a new OTP, enforcing resend throttling
+   */
+  async requestOtp(phoneInput: string): Promise<{ phone: string; expiresInSeconds: number }> {
+    const phone = this.normalizePhone(phoneInput);
+    const now = Date.now();
+    const existing = await this.store.get(phone);
+
+    let sendCount = 1;
+    let windowStartedAt = new Date(now);
+
+    if (existing) {
+      const sinceLastSend = now - existing.lastSentAt.getTime();
+      if (sinceLastSend < this.config.resendIntervalMs) {
+        throw new OtpError(
+          'OTP_RESEND_THROTTLED',
+          'Please wait before requesting another code',
+          Math.ceil((this.config.resendIntervalMs - sinceLastSend) / 1000)
+        );
+      }
+
+      const windowAge = now - existing.windowStartedAt.getTime();
+      if (windowAge < this.config.sendWindowMs) {
+        if (existing.sendCount >= this.config.maxSendsPerWindow) {
+          throw new OtpError(
+            'OTP_RESEND_THROTTLED',
+            'Too many codes requested. Please try again later',
+            Math.ceil((this.config.sendWindowMs - windowAge) / 1000)
+          );
+        }
+        sendCount = existing.sendCount + 1;
+        windowStartedAt = existing.windowStartedAt;
+      }
+    }
+
+    const code = this.generateCode();
+    const record: OtpRecord = {
+      phone,
+      codeHash: await bcrypt.hash(code, BCRYPT_ROUNDS),
+      expiresAt: new Date(now + this.config.ttlMs),
+      attempts: 0,
+      lastSentAt: new Date(now),
+      sendCount,
+      windowStartedAt,
+    };
+
+    // Keep the record for the whole send window so throttling survives OTP expiry
+    await this.store.save(record, this.config.sendWindowMs);
+    await this.sms.send(
+      phone,
+      `${code} is your merchant onboarding verification code. It expires in ${Math.round(this.config.ttlMs / 60000)} minutes.`
+    );
+
+    return { phone, expiresInSeconds: Math.round(this.config.ttlMs / 1000) };
+  }
+
+  /**
+   * Check a code; on success the challenge is consumed and the normalised phone returned.
+   * The attempt is counted before the code is compared, so parallel guesses
+   * cannot get past the limit.
+   */
+  async verifyOtp(phoneInput: string, code: string): Promise<string> {
+    const phone = this.normalizePhone(phoneInput);
+    const record = await this.store.get(phone);
+
+    if (!record || !record.codeHash) {
+      throw new OtpError('OTP_NOT_REQUESTED', 'Please request a verification code first');
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new OtpError('OTP_EXPIRED', 'This code has expired. Please request a new one');
+    }
+
+    const attempts = await this.store.incrementAttempts(phone);
+    if (attempts === null) {
+      throw new OtpError('OTP_NOT_REQUESTED', 'Please request a verification code first');
+    }
+
+    if (attempts > this.config.maxAttempts) {
+      throw new OtpError('OTP_ATTEMPTS_EXCEEDED', 'Too many incorrect attempts. Please request a new code');
+    }
+
+    const matches = await bcrypt.compare(String(code || ''), record.codeHash);
+    if (!matches) {
+      const remaining = this.config.maxAttempts - attempts;
+      throw remaining > 0
+        ? new OtpError('OTP_INVALID', `Incorrect code. ${remaining} attempt(s) left`)
+        : new OtpError('OTP_ATTEMPTS_EXCEEDED', 'Too many incorrect attempts. Please request a new code');
+    }
+
+    // Consume the code but keep the send counters for throttling
+    record.codeHash = '';
+    record.attempts = attempts;
+    await this.store.save(record, this.remainingWindowMs(record));
+
+    return phone;
+  }
+
+  private generateCode(): string {
+    const max = 10 ** this.config.codeLength;
+    return randomInt(0, max).toString().padStart(this.config.codeLength, '0');
+  }
+
+  private remainingWindowMs(record: OtpRecord): number {
+    const remaining = record.windowStartedAt.getTime() + this.config.sendWindowMs - Date.now();
+    return Math.max(remaining, 1000);
+  }
+}
+
+export default OtpService;
@@ -0,0 +1,186 @@
+/**
+ * Prompt Registry
+ * Versioned prompt templates loaded from the prompts directory, with
+ * deterministic assignment of sessions to experiment variants
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { PromptTemplate } from '@langchain/core/prompts';
+
+const DEFAULT_PROMPTS_DIR = path.resolve(__dirname, '../../prompts');
+
+/**
+ * Which prompt version produced a message or extraction
+ */
+export interface PromptStamp {
+  id: string;
+  version: string;
+}
+
+export interface PromptConfig {
+  active?: string;
+  experiment?: Record<string, number>; // version -> weight
+}
+
+interface PromptEntry {
+  versions: Map<string, PromptTemplate>;
+  active: string;
+  experiment?: Array<{ version: string; weight: number }>;
+}
+
+/**
+ * Pick an experiment variant for an assignment key. The prompt ID is part of
+ * the hash so a session's variants in different experiments are independent.
+ */
+export const assignVariant = (
+  promptId: string,
+  assignmentKey: string,
+  variants: Array<{ version: string; weight: number }>
+): string => {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const bucket = createHash('sha256')
+    .update(`${promptId}:${assignmentKey}`)
+    .digest()
+    .readUInt32BE(0) % total;
+
+  let threshold = 0;
+  for (const variant of variants) {
+    threshold += variant.weight;
+    if (bucket < threshold) {
+      return variant.version;
+    }
+  }
+
+  return variants[variants.length - 1].version;
+};
+
+export class PromptRegistry {
+  private prompts = new Map<string, PromptEntry>();
+
+  constructor(private dir: string = process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR) {
+    this.load();
+  }
+
+  /**
+   * The template to use for a prompt. With an assignment key (the session ID)
+   * a running experiment picks the variant; otherwise the active version is used.
+   */
+  get(id: string, assignmentKey?: string): PromptStamp & { template: PromptTemplate } {
+    const entry = this.prompts.get(id);
+    if (!entry) {
+      throw new Error(`Unknown prompt: ${id}`);
+    }
+
+    const version = entry.experiment && assignmentKey
+      ? assignVariant(id, assignmentKey, entry.experiment)
+      : entry.active;
+
+    return { id, version, template: entry.versions.get(version)! };
+  }
+
+  /**
+   * Prompts for one session, remembering which versions were used
+   */
+  select(assignmentKey?: string): PromptSelection {
+    return new PromptSelection(this, assignmentKey);
+  }
+
+  /**
+   * Read every prompt directory and apply registry.json
+   */
+  private load() {
+    const configPath = path.join(this.dir, 'registry.json');
+    const config: Record<string, PromptConfig> = fs.existsSync(configPath)
+      ? JSON.parse(fs.readFileSync(configPath, 'utf8'))
+      : {};
+
+    for (const entry of fs.readdirSync(this.dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const id = entry.name;
+      const versions = new Map<string, PromptTemplate>();
+
+      for (const file of fs.readdirSync(path.join(this.dir, id))) {
+        if (path.extname(file) !== '.txt') continue;
+
+        const text = fs.readFileSync(path.join(this.dir, id, file), 'utf8');
+        versions.set(path.basename(file, '.txt'), PromptTemplate.fromTemplate(text));
+      }
+
+      if (versions.size === 0) continue;
+      this.prompts.set(id, this.buildEntry(id, versions, config[id] || {}));
+    }
+
+    for (const id of Object.keys(config)) {
+      if (!this.prompts.has(id)) {
+        throw new Error(`registry.json configures prompt ${id}, which has no versions`);
+      }
+    }
+  }
+
+  private buildEntry(
+    id: string,
+    versions: Map<string, PromptTemplate>,
+    config: PromptConfig
+  ): PromptEntry {
+    const requireVersion = (version: string) => {
+      if (!versions.has(version)) {
+        throw new Error(`Prompt ${id} has no version ${version}`);
+      }
+    };
+
+    // Versions are compared numerically where they are numbers, so 10 is after 9
+    const latest = [...versions.keys()].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })).pop()!;
+    const active = config.active || latest;
+    requireVersion(active);
+
+    let experiment: PromptEntry['experiment'];
+    if (config.experiment && Object.keys(config.experiment).length > 0) {
+      experiment = Object.entries(config.experiment).map(([version, weight]) => {
+        requireVersion(version);
+        if (!Number.isFinite(weight) || weight <= 0) {
+          throw new Error(`Prompt ${id} version ${version} needs a positive experiment weight`);
+        }
+        return { version, weight };
+      });
+    }
+
+    return { versions, active, experiment };
+  }
+}
+
+/**
+ * The prompts resolved for one session or request
+ */
+export class PromptSelection {
+  readonly used: PromptStamp[] = [];
+
+  constructor(private registry: PromptRegistry, private assignmentKey?: string) {}
+
+  template(id: string): PromptTemplate {
+    const { version, template } = this.registry.get(id, this.assignmentKey);
+
+    if (!this.used.some(stamp => stamp.id === id)) {
+      this.used.push({ id, version });
+    }
+
+    return template;
+  }
+}
+
+let sharedRegistry: PromptRegistry | null = null;
+
+/**
+ * Get the process-wide prompt registry
+ */
+export const getPromptRegistry = (): PromptRegistry => {
+  if (!sharedRegistry) {
+    sharedRegistry = new PromptRegistry();
+  }
+
+  return sharedRegistry;
+};
+
+export default PromptRegistry;
@@ -3,10 +3,31 @@
  * Provides real-time validation with intelligent error messages
  */
 
-import { ChatAnthropic } from '@langchain/anthropic';
-import { PromptTemplate } from '@langchain/core/prompts';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { RunnableSequence } from '@langchain/core/runnables';
 import { StringOutputParser } from '@langchain/core/output_parsers';
+import { LLMProvider, getLLMProvider } from '../integrations/LLMProvider';
+import { PromptRegistry, getPromptRegistry } from './PromptRegistry';
+import { invokeSanitized } from '../utils/redaction';
+
+/**
+ * Merchant fields an application cannot be submitted without
+ */
+export const REQUIRED_MERCHANT_FIELDS = [
+  'businessName',
+  'ownerName',
+  'email',
+  'phone',
+  'pan',
+  'address',
+  'city',
+  'state',
+  'pincode',
+  'accountNumber',
+  'ifscCode',
+  'accountHolderName',
+  'category',
+];
 
 export interface ValidationResult {
   isValid: boolean;
@@ -24,14 +45,15 @@ export interface FieldValidation {
 }
 
 export class ValidationEngine {
-  private llm: ChatAnthropic;
-
-  constructor() {
-    this.llm = new ChatAnthropic({
-      modelName: 'claude-sonnet-4-5-20250929',
-      temperature: 0,
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  private llm: BaseChatModel;
+  private prompts: PromptRegistry;
+
+  constructor(
+    llmProvider: LLMProvider = getLLMProvider(),
+    promptRegistry: PromptRegistry = getPromptRegistry()
+  ) {
+    this.llm = llmProvider.chatModel('validation');
+    this.prompts = promptRegistry;
   }
 
   /**
@@ -478,28 +500,13 @@ export class ValidationEngine {
     value: any,
     error: string
   ): Promise<string> {
-    const prompt = PromptTemplate.fromTemplate(`
-      A user is filling out a merchant onboarding form and encountered a validation error.
-
-      Field: {field}
-      Their input: {value}
-      Error message: {error}
-
-      Generate a helpful, friendly explanation that:
-      1. Explains what went wrong in simple terms
-      2. Provides a specific example of correct format
-      3. Offers to help if they're confused
-
-      Keep it conversational and under 2 sentences.
-    `);
-
     const chain = RunnableSequence.from([
-      prompt,
+      this.prompts.get('validation.explain_error').template,
       this.llm,
       new StringOutputParser(),
     ]);
 
-    return await chain.invoke({ field, value, error });
+    return await invokeSanitized(chain, { field, value: String(value), error });
   }
 
   // Helper methods
@@ -549,23 +556,7 @@ export class ValidationEngine {
     const warnings: string[] = [];
 
     // Validate required fields
-    const requiredFields = [
-      'businessName',
-      'ownerName',
-      'email',
-      'phone',
-      'pan',
-      'address',
-      'city',
-      'state',
-      'pincode',
-      'accountNumber',
-      'ifscCode',
-      'accountHolderName',
-      'category',
-    ];
-
-    for (const field of requiredFields) {
+    for (const field of REQUIRED_MERCHANT_FIELDS) {
       if (!data[field]) {
         issues.push({
           field,
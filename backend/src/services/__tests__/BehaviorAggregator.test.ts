@@ -0,0 +1,109 @@
+import { aggregateBehavior, parseTelemetryBatch, InvalidTelemetryError } from '../BehaviorAggregator';
+import { TelemetryEvent } from '../../stores';
+
+const start = new Date('2026-03-02T10:00:00Z');
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+const session = {
+  startedAt: start,
+  merchantData: { businessName: 'Sharma Traders', city: 'Pune' },
+  documents: [],
+};
+
+describe('aggregateBehavior', () => {
+  it('falls back to wall-clock time when there is no telemetry', () => {
+    const metrics = aggregateBehavior([], session, at(90));
+
+    expect(metrics).toMatchObject({
+      timeOnCurrentStep: 0,
+      totalTimeSpent: 90,
+      hesitationPoints: [],
+      fieldsCompleted: 2,
+      fieldsTotal: 13,
+      documentsUploaded: 0,
+    });
+  });
+
+  it('counts time on the current step from the last step_enter', () => {
+    const events: TelemetryEvent[] = [
+      { type: 'step_enter', step: 'welcome', at: at(0) },
+      { type: 'step_exit', step: 'welcome', at: at(30) },
+      { type: 'step_enter', step: 'business_info', at: at(30) },
+    ];
+
+    const metrics = aggregateBehavior(events, session, at(100));
+
+    expect(metrics.totalTimeSpent).toBe(100);
+    expect(metrics.timeOnCurrentStep).toBe(70);
+  });
+
+  it('leaves breaks longer than five minutes out of active time', () => {
+    const events: TelemetryEvent[] = [
+      { type: 'step_enter', step: 'business_info', at: at(0) },
+      { type: 'field_focus', field: 'businessName', at: at(60) },
+      // Twenty minutes away from the form
+      { type: 'field_blur', field: 'businessName', at: at(1260) },
+    ];
+
+    expect(aggregateBehavior(events, session, at(1290)).totalTimeSpent).toBe(90);
+  });
+
+  it('stops the clock at the last event once the merchant has gone', () => {
+    const events: TelemetryEvent[] = [{ type: 'step_enter', step: 'business_info', at: at(0) }];
+
+    expect(aggregateBehavior(events, session, at(60)).timeOnCurrentStep).toBe(60);
+    expect(aggregateBehavior(events, session, at(3600)).timeOnCurrentStep).toBe(0);
+  });
+
+  it('finds fields held long, revisited often or rejected repeatedly', () => {
+    const events: TelemetryEvent[] = [
+      { type: 'field_focus', field: 'gstin', at: at(0) },
+      { type: 'field_blur', field: 'gstin', at: at(45) },
+      ...[50, 60, 70].flatMap((second): TelemetryEvent[] => [
+        { type: 'field_focus', field: 'ifscCode', at: at(second) },
+        { type: 'field_blur', field: 'ifscCode', at: at(second + 2) },
+      ]),
+      { type: 'validation_error', field: 'pan', at: at(80) },
+      { type: 'validation_error', field: 'pan', at: at(85) },
+      { type: 'field_focus', field: 'email', at: at(90) },
+      { type: 'field_blur', field: 'email', at: at(95) },
+    ];
+
+    expect(aggregateBehavior(events, session, at(100)).hesitationPoints).toEqual(['gstin', 'ifscCode', 'pan']);
+  });
+
+  it('counts an idle spell on a focused field as hesitation', () => {
+    const events: TelemetryEvent[] = [
+      { type: 'field_focus', field: 'accountNumber', at: at(0) },
+      { type: 'idle', durationMs: 40000, at: at(45) },
+    ];
+
+    expect(aggregateBehavior(events, session, at(50)).hesitationPoints).toEqual(['accountNumber']);
+  });
+});
+
+describe('parseTelemetryBatch', () => {
+  it('moves client timestamps onto the server clock', () => {
+    const receivedAt = at(100);
+    const clientNow = receivedAt.getTime() - 60000; // Client clock runs a minute slow
+
+    const [event] = parseTelemetryBatch(
+      [{ type: 'field_focus', field: 'pan', at: clientNow - 5000 }],
+      clientNow,
+      receivedAt
+    );
+
+    expect(event).toEqual({ type: 'field_focus', field: 'pan', at: at(95) });
+  });
+
+  it.each([
+    [[], 'events must be a non-empty array'],
+    [[{ type: 'scroll', at: 1 }], 'events[0].type must be one of'],
+    [[{ type: 'field_focus', field: '<script>', at: 1 }], 'events[0].field must be a field name'],
+    [[{ type: 'step_enter', step: 'nowhere', at: 1 }], 'events[0].step must be one of'],
+    [[{ type: 'idle', durationMs: -1, at: 1 }], 'events[0].durationMs must be a non-negative number'],
+  ])('rejects %j', (events, message) => {
+    expect(() => parseTelemetryBatch(events, undefined)).toThrow(InvalidTelemetryError);
+    expect(() => parseTelemetryBatch(events, undefined)).toThrow(message);
+  });
+});
@@ -0,0 +1,57 @@
+import { DataRetentionService } from '../DataRetentionService';
+import { OnboardingStep } from '../../agents/OnboardingAgent';
+import {
+  InMemorySessionStore,
+  InMemoryConsentStore,
+  InMemoryErasureAuditStore,
+  InMemoryTelemetryStore,
+  InMemoryGuardrailEventStore,
+  InMemoryIdempotencyStore,
+} from '../../stores';
+
+describe('DataRetentionService erasure', () => {
+  it('deletes the guardrail events and stored responses kept for the session', async () => {
+    const sessions = new InMemorySessionStore();
+    const audit = new InMemoryErasureAuditStore();
+    const guardrailEvents = new InMemoryGuardrailEventStore();
+    const idempotency = new InMemoryIdempotencyStore();
+    const service = new DataRetentionService(
+      sessions,
+      new InMemoryConsentStore(),
+      audit,
+      new InMemoryTelemetryStore(),
+      guardrailEvents,
+      idempotency
+    );
+
+    const session = await sessions.create({
+      sessionId: 'erase-me',
+      userId: 'merchant-erasure',
+      currentStep: OnboardingStep.BUSINESS_INFO,
+      merchantData: { businessName: 'Sharma Traders' },
+    });
+    await guardrailEvents.append({
+      sessionId: 'erase-me',
+      kind: 'prompt_injection',
+      origin: 'chat',
+      reasons: ['override_instructions'],
+      excerpt: 'Ignore all previous instructions',
+    });
+    await guardrailEvents.append({ sessionId: 'keep-me', kind: 'off_topic', origin: 'chat', reasons: [] });
+    await idempotency.claim('merchant-erasure:submit-1', 'fp', 60000, 'erase-me');
+    await idempotency.complete(
+      'merchant-erasure:submit-1',
+      { statusCode: 200, body: { data: { merchantData: { businessName: 'Sharma Traders' } } }, headers: {} },
+      60000
+    );
+    await idempotency.claim('merchant-other:submit-1', 'fp', 60000, 'keep-me');
+
+    const record = await service.eraseOnRequest(session);
+
+    expect(record.deleted).toMatchObject({ guardrailEvents: 1, idempotencyRecords: 1 });
+    expect(await guardrailEvents.list({ sessionId: 'erase-me' })).toEqual([]);
+    expect(await guardrailEvents.list({ sessionId: 'keep-me' })).toHaveLength(1);
+    expect(await idempotency.get('merchant-erasure:submit-1')).toBeNull();
+    expect(await idempotency.get('merchant-other:submit-1')).not.toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { OtpService, OtpError, DEFAULT_OTP_CONFIG } from '../OtpService';
+import { InMemoryOtpStore } from '../../stores/OtpStore';
+import { SmsProvider } from '../../integrations/SmsProvider';
+
+/**
+ * Keeps the last code sent so tests can log in with it
+ */
+class CapturingSmsProvider implements SmsProvider {
+  lastCode = '';
+
+  async send(_phone: string, message: string): Promise<void> {
+    this.lastCode = message.slice(0, 6);
+  }
+}
+
+describe('OtpService.verifyOtp', () => {
+  let sms: CapturingSmsProvider;
+  let otp: OtpService;
+
+  beforeEach(async () => {
+    sms = new CapturingSmsProvider();
+    otp = new OtpService(new InMemoryOtpStore(), sms, { ...DEFAULT_OTP_CONFIG, maxAttempts: 3 });
+    await otp.requestOtp('+91 98765 43210');
+  });
+
+  const wrongCode = () => (sms.lastCode === '000000' ? '111111' : '000000');
+
+  it('accepts the code sent and consumes it', async () => {
+    await expect(otp.verifyOtp('9876543210', sms.lastCode)).resolves.toBe('9876543210');
+    await expect(otp.verifyOtp('9876543210', sms.lastCode)).rejects.toMatchObject({ code: 'OTP_NOT_REQUESTED' });
+  });
+
+  it('locks the code after the maximum number of wrong attempts', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(otp.verifyOtp('9876543210', wrongCode())).rejects.toBeInstanceOf(OtpError);
+    }
+
+    await expect(otp.verifyOtp('9876543210', sms.lastCode)).rejects.toMatchObject({ code: 'OTP_ATTEMPTS_EXCEEDED' });
+  });
+
+  it('does not let parallel guesses past the attempt limit', async () => {
+    const guesses = await Promise.allSettled(
+      Array.from({ length: 8 }, () => otp.verifyOtp('9876543210', wrongCode()))
+    );
+
+    const invalid = guesses.filter(
+      guess => guess.status === 'rejected' && (guess.reason as OtpError).code === 'OTP_INVALID'
+    );
+    expect(invalid).toHaveLength(2);
+    await expect(otp.verifyOtp('9876543210', sms.lastCode)).rejects.toMatchObject({ code: 'OTP_ATTEMPTS_EXCEEDED' });
+  });
+});
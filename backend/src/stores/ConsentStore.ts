@@ -0,0 +1,80 @@
+/**
+ * Consent Store
+ * Append-only ledger of consents granted and withdrawn during onboarding
+ */
+
+export type ConsentPurpose = 'aadhaar_ekyc' | 'bureau_check' | 'terms' | 'marketing';
+
+export type ConsentAction = 'granted' | 'withdrawn';
+
+export interface ConsentRecord {
+  id: string;
+  sessionId: string;
+  userId?: string;
+  purpose: ConsentPurpose;
+  action: ConsentAction;
+  textVersion: string;
+  ipAddress?: string;
+  userAgent?: string;
+  recordedAt: Date;
+}
+
+export type NewConsentRecord = Omit<ConsentRecord, 'id' | 'recordedAt'>;
+
+export interface ConsentStore {
+  /**
+   * Add a record to the ledger. Records are never removed; the only change
+   * allowed afterwards is stripping identifiers on erasure.
+   */
+  append(record: NewConsentRecord): Promise<ConsentRecord>;
+
+  /**
+   * All records for a session, oldest first
+   */
+  list(sessionId: string): Promise<ConsentRecord[]>;
+
+  /**
+   * Remove the user ID, IP address and user agent from a session's records,
+   * keeping what was consented to and when. Returns the number of records changed.
+   */
+  anonymize(sessionId: string): Promise<number>;
+}
+
+export class InMemoryConsentStore implements ConsentStore {
+  private records: ConsentRecord[] = [];
+  private nextId = 1;
+
+  async append(record: NewConsentRecord): Promise<ConsentRecord> {
+    const stored: ConsentRecord = {
+      ...record,
+      id: String(this.nextId++),
+      recordedAt: new Date(),
+    };
+
+    this.records.push(stored);
+    return { ...stored };
+  }
+
+  async list(sessionId: string): Promise<ConsentRecord[]> {
+    return this.records
+      .filter(record => record.sessionId === sessionId)
+      .map(record => ({ ...record }));
+  }
+
+  async anonymize(sessionId: string): Promise<number> {
+    let changed = 0;
+
+    for (const record of this.records) {
+      if (record.sessionId !== sessionId) continue;
+
+      delete record.userId;
+      delete record.ipAddress;
+      delete record.userAgent;
+      changed++;
+    }
+
+    return changed;
+  }
+}
+
+export default InMemoryConsentStore;
@@ -0,0 +1,127 @@
+/**
+ * Encrypted Session Store
+ * Encrypts sensitive fields, chat messages and the conversation summary before
+ * they reach the wrapped store (and any cache behind it) and decrypts them on
+ * the way out. Merchants type PANs and account numbers into chat, so free text
+ * is treated as sensitive too.
+ */
+
+import {
+  SessionStore,
+  OnboardingSession,
+  NewSession,
+  SessionUpdate,
+  SessionListFilter,
+  VersionConflictError,
+} from './SessionStore';
+import { EncryptionService } from '../services/EncryptionService';
+import {
+  SENSITIVE_FIELDS,
+  mapSensitiveFields,
+  mapSessionSensitiveData,
+} from '../utils/sensitiveData';
+
+export class EncryptedSessionStore implements SessionStore {
+  constructor(
+    private inner: SessionStore,
+    private encryption: EncryptionService
+  ) {}
+
+  async get(sessionId: string): Promise<OnboardingSession | null> {
+    const session = await this.inner.get(sessionId);
+    return session ? this.decryptSession(session) : null;
+  }
+
+  async create(input: NewSession): Promise<OnboardingSession> {
+    const session = await this.inner.create({
+      ...input,
+      merchantData: mapSensitiveFields(input.merchantData, this.encrypt),
+    });
+
+    return this.decryptSession(session);
+  }
+
+  async update(
+    sessionId: string,
+    changes: SessionUpdate
+  ): Promise<OnboardingSession | null> {
+    try {
+      const session = await this.inner.update(sessionId, this.encryptUpdate(changes));
+      return session ? this.decryptSession(session) : null;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw new VersionConflictError(this.decryptSession(error.current));
+      }
+      throw error;
+    }
+  }
+
+  async list(filter?: SessionListFilter): Promise<OnboardingSession[]> {
+    const sessions = await this.inner.list(filter);
+    return sessions.map(session => this.decryptSession(session));
+  }
+
+  async expire(inactiveSince: Date, draftsInactiveSince: Date): Promise<number> {
+    return this.inner.expire(inactiveSince, draftsInactiveSince);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.inner.delete(sessionId);
+  }
+
+  // Values reaching the store are always plaintext, since sessions are decrypted
+  // on the way out. Anything that merely looks like an envelope came from the
+  // merchant, so it is encrypted like any other value.
+  private encrypt = (value: unknown): unknown =>
+    value === null || value === undefined ? value : this.encryption.encrypt(value);
+
+  private decrypt = (value: unknown): unknown => this.encryption.decrypt(value);
+
+  private encryptUpdate(changes: SessionUpdate): SessionUpdate {
+    return {
+      ...changes,
+      merchantData: mapSensitiveFields(changes.merchantData, this.encrypt),
+      addDocuments: changes.addDocuments?.map(document => ({
+        ...document,
+        extractedData: mapSensitiveFields(document.extractedData, this.encrypt),
+      })),
+      addMessages: changes.addMessages?.map(message => ({
+        ...message,
+        content: this.encryption.encrypt(message.content),
+        metadata: message.metadata?.dataUpdates
+          ? {
+            ...message.metadata,
+            dataUpdates: mapSensitiveFields(message.metadata.dataUpdates, this.encrypt),
+          }
+          : message.metadata,
+      })),
+      conversationSummary: changes.conversationSummary && {
+        ...changes.conversationSummary,
+        text: this.encryption.encrypt(changes.conversationSummary.text),
+      },
+      addFieldChanges: changes.addFieldChanges?.map(change => (
+        SENSITIVE_FIELDS.has(change.field)
+          ? { ...change, value: this.encrypt(change.value), previousValue: this.encrypt(change.previousValue) }
+          : change
+      )),
+    };
+  }
+
+  private decryptSession(session: OnboardingSession): OnboardingSession {
+    const decrypted = mapSessionSensitiveData(session, this.decrypt);
+
+    return {
+      ...decrypted,
+      conversationHistory: decrypted.conversationHistory.map(message => ({
+        ...message,
+        content: this.decrypt(message.content) as string,
+      })),
+      conversationSummary: decrypted.conversationSummary && {
+        ...decrypted.conversationSummary,
+        text: this.decrypt(decrypted.conversationSummary.text) as string,
+      },
+    };
+  }
+}
+
+export default EncryptedSessionStore;
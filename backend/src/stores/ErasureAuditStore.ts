@@ -0,0 +1,55 @@
+/**
+ * Erasure Audit Store
+ * Non-identifying stubs recording what was deleted from a session and when
+ */
+
+import { SessionStatus } from './SessionStore';
+
+export type ErasureReason = 'erasure_request' | 'retention_policy';
+
+/**
+ * Counts and field names only; never values
+ */
+export interface ErasedData {
+  merchantFields: string[];
+  documents: number;
+  messages: number;
+  fieldChanges: number;
+  consentRecordsAnonymized: number;
+  guardrailEvents: number;
+  idempotencyRecords: number;
+}
+
+export interface ErasureRecord {
+  id: string;
+  sessionRef: string; // SHA-256 of the session ID, so a known session can be looked up but not recovered
+  reason: ErasureReason;
+  dataClass?: string; // Retention rule that triggered the purge
+  sessionStatus: SessionStatus;
+  deleted: ErasedData;
+  erasedAt: Date;
+}
+
+export type NewErasureRecord = Omit<ErasureRecord, 'id' | 'erasedAt'>;
+
+export interface ErasureAuditStore {
+  append(record: NewErasureRecord): Promise<ErasureRecord>;
+}
+
+export class InMemoryErasureAuditStore implements ErasureAuditStore {
+  private records: ErasureRecord[] = [];
+  private nextId = 1;
+
+  async append(record: NewErasureRecord): Promise<ErasureRecord> {
+    const stored: ErasureRecord = {
+      ...record,
+      id: String(this.nextId++),
+      erasedAt: new Date(),
+    };
+
+    this.records.push(stored);
+    return { ...stored };
+  }
+}
+
+export default InMemoryErasureAuditStore;
@@ -0,0 +1,75 @@
+/**
+ * Guardrail Event Store
+ * Chat messages, document text and model output that the guardrails flagged,
+ * kept for the ops team to review
+ */
+
+export type GuardrailEventKind = 'prompt_injection' | 'off_topic' | 'rejected_update';
+
+export type GuardrailOrigin = 'chat' | 'ocr';
+
+export interface GuardrailEvent {
+  id: string;
+  sessionId: string;
+  kind: GuardrailEventKind;
+  origin: GuardrailOrigin;
+  reasons: string[];
+  fields?: string[]; // Rejected merchantData fields, for rejected_update
+  excerpt?: string; // Start of the flagged text, with identity and bank details redacted
+  createdAt: Date;
+}
+
+export type NewGuardrailEvent = Omit<GuardrailEvent, 'id' | 'createdAt'>;
+
+export interface GuardrailEventFilter {
+  sessionId?: string;
+  kind?: GuardrailEventKind;
+  limit?: number;
+}
+
+export interface GuardrailEventStore {
+  append(event: NewGuardrailEvent): Promise<GuardrailEvent>;
+
+  /**
+   * Events matching the filter, newest first
+   */
+  list(filter?: GuardrailEventFilter): Promise<GuardrailEvent[]>;
+
+  /**
+   * Delete a session's events. Returns the number deleted.
+   */
+  deleteForSession(sessionId: string): Promise<number>;
+}
+
+export class InMemoryGuardrailEventStore implements GuardrailEventStore {
+  private events: GuardrailEvent[] = [];
+  private nextId = 1;
+
+  async append(event: NewGuardrailEvent): Promise<GuardrailEvent> {
+    const stored: GuardrailEvent = {
+      ...event,
+      id: String(this.nextId++),
+      createdAt: new Date(),
+    };
+
+    this.events.push(stored);
+    return { ...stored };
+  }
+
+  async list(filter: GuardrailEventFilter = {}): Promise<GuardrailEvent[]> {
+    const matches = this.events
+      .filter(event => !filter.sessionId || event.sessionId === filter.sessionId)
+      .filter(event => !filter.kind || event.kind === filter.kind)
+      .reverse();
+
+    return (filter.limit ? matches.slice(0, filter.limit) : matches).map(event => ({ ...event }));
+  }
+
+  async deleteForSession(sessionId: string): Promise<number> {
+    const before = this.events.length;
+    this.events = this.events.filter(event => event.sessionId !== sessionId);
+    return before - this.events.length;
+  }
+}
+
+export default InMemoryGuardrailEventStore;
@@ -0,0 +1,107 @@
+/**
+ * Idempotency Store
+ * Remembers the first response to a request made with an Idempotency-Key
+ */
+
+export interface StoredResponse {
+  statusCode: number;
+  body: any;
+  headers: Record<string, string>;
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  sessionId?: string; // Session the request acted on, so erasure can find its responses
+  status: 'in_progress' | 'completed';
+  response?: StoredResponse;
+}
+
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Claim a key for a request about to run. Returns false if the key is already taken.
+   * The claim lapses after ttlMs if it is never completed or released.
+   */
+  claim(key: string, fingerprint: string, ttlMs: number, sessionId?: string): Promise<boolean>;
+
+  /**
+   * Store the response for a claimed key
+   */
+  complete(key: string, response: StoredResponse, ttlMs: number): Promise<void>;
+
+  /**
+   * Give up a claim so the request can be retried with the same key
+   */
+  release(key: string): Promise<void>;
+
+  /**
+   * Delete the records of requests that acted on a session, since stored
+   * responses can hold its merchant data. Returns the number deleted.
+   */
+  deleteForSession(sessionId: string): Promise<number>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, { record: IdempotencyRecord; evictAt: number }>();
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const entry = this.records.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.evictAt <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return { ...entry.record };
+  }
+
+  async claim(key: string, fingerprint: string, ttlMs: number, sessionId?: string): Promise<boolean> {
+    // Check and set without awaiting in between so concurrent claims cannot both win
+    const entry = this.records.get(key);
+    if (entry && entry.evictAt > Date.now()) {
+      return false;
+    }
+
+    this.records.set(key, {
+      record: { key, fingerprint, sessionId, status: 'in_progress' },
+      evictAt: Date.now() + ttlMs,
+    });
+    return true;
+  }
+
+  async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+    const entry = this.records.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.records.set(key, {
+      record: { ...entry.record, status: 'completed', response },
+      evictAt: Date.now() + ttlMs,
+    });
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async deleteForSession(sessionId: string): Promise<number> {
+    let deleted = 0;
+
+    for (const [key, entry] of this.records) {
+      if (entry.record.sessionId === sessionId) {
+        this.records.delete(key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+export default InMemoryIdempotencyStore;
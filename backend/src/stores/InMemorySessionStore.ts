@@ -0,0 +1,128 @@
+/**
+ * In-Memory Session Store
+ * Used for local development and tests; data is lost on restart
+ */
+
+import {
+  SessionStore,
+  OnboardingSession,
+  NewSession,
+  SessionUpdate,
+  SessionListFilter,
+  VersionConflictError,
+} from './SessionStore';
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, OnboardingSession>();
+
+  async get(sessionId: string): Promise<OnboardingSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? this.clone(session) : null;
+  }
+
+  async create(input: NewSession): Promise<OnboardingSession> {
+    const now = new Date();
+    const session: OnboardingSession = {
+      sessionId: input.sessionId,
+      version: 1,
+      userId: input.userId,
+      startedAt: now,
+      lastActivityAt: now,
+      currentStep: input.currentStep,
+      merchantData: input.merchantData || {},
+      documents: [],
+      conversationHistory: [],
+      fieldHistory: [],
+      interventions: [],
+      status: 'in_progress',
+    };
+
+    this.sessions.set(session.sessionId, session);
+    return this.clone(session);
+  }
+
+  async update(
+    sessionId: string,
+    changes: SessionUpdate
+  ): Promise<OnboardingSession | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const { expectedVersion, addDocuments, addMessages, addFieldChanges, ...fields } = changes;
+
+    if (expectedVersion !== undefined && expectedVersion !== session.version) {
+      throw new VersionConflictError(this.clone(session));
+    }
+
+    if (fields.merchantData !== undefined) {
+      session.version++;
+    }
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        session[key] = value;
+      }
+    }
+    if (addDocuments) {
+      session.documents.push(...addDocuments);
+    }
+    if (addMessages) {
+      session.conversationHistory.push(...addMessages);
+    }
+    if (addFieldChanges) {
+      session.fieldHistory.push(...addFieldChanges);
+    }
+
+    return this.clone(session);
+  }
+
+  async list(filter: SessionListFilter = {}): Promise<OnboardingSession[]> {
+    const matches = Array.from(this.sessions.values())
+      .filter(s => !filter.userId || s.userId === filter.userId)
+      .filter(s => !filter.status || s.status === filter.status)
+      .filter(s => !filter.decision || s.review?.decision === filter.decision)
+      .filter(s => !filter.inactiveSince || s.lastActivityAt < filter.inactiveSince)
+      .filter(s => !filter.decidedBefore || (!!s.review && s.review.decidedAt < filter.decidedBefore))
+      .sort((a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime());
+
+    return matches.slice(0, filter.limit || matches.length).map(s => this.clone(s));
+  }
+
+  async expire(inactiveSince: Date, draftsInactiveSince: Date): Promise<number> {
+    let expired = 0;
+
+    for (const session of this.sessions.values()) {
+      if (
+        (session.status === 'in_progress' && session.lastActivityAt < inactiveSince) ||
+        (session.status === 'paused' && session.lastActivityAt < draftsInactiveSince)
+      ) {
+        session.status = 'abandoned';
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Callers get a copy so that mutations only take effect through update()
+   */
+  private clone(session: OnboardingSession): OnboardingSession {
+    return {
+      ...session,
+      merchantData: { ...session.merchantData },
+      documents: [...session.documents],
+      conversationHistory: [...session.conversationHistory],
+      fieldHistory: [...session.fieldHistory],
+      interventions: [...session.interventions],
+    };
+  }
+}
+
+export default InMemorySessionStore;
@@ -0,0 +1,62 @@
+/**
+ * OTP Store
+ * Short-lived OTP challenges keyed by phone number
+ */
+
+export interface OtpRecord {
+  phone: string;
+  codeHash: string;
+  expiresAt: Date;
+  attempts: number;
+  lastSentAt: Date;
+  sendCount: number;
+  windowStartedAt: Date;
+}
+
+export interface OtpStore {
+  get(phone: string): Promise<OtpRecord | null>;
+  save(record: OtpRecord, ttlMs: number): Promise<void>;
+  /**
+   * Atomically count one more verification attempt, keeping the record's TTL.
+   * Returns the new count, or null if there is no record.
+   */
+  incrementAttempts(phone: string): Promise<number | null>;
+  delete(phone: string): Promise<void>;
+}
+
+export class InMemoryOtpStore implements OtpStore {
+  private records = new Map<string, { record: OtpRecord; evictAt: number }>();
+
+  async get(phone: string): Promise<OtpRecord | null> {
+    const entry = this.records.get(phone);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.evictAt <= Date.now()) {
+      this.records.delete(phone);
+      return null;
+    }
+
+    return { ...entry.record };
+  }
+
+  async save(record: OtpRecord, ttlMs: number): Promise<void> {
+    this.records.set(record.phone, { record: { ...record }, evictAt: Date.now() + ttlMs });
+  }
+
+  async incrementAttempts(phone: string): Promise<number | null> {
+    const entry = this.records.get(phone);
+    if (!entry || entry.evictAt <= Date.now()) {
+      return null;
+    }
+
+    return ++entry.record.attempts;
+  }
+
+  async delete(phone: string): Promise<void> {
+    this.records.delete(phone);
+  }
+}
+
+export default InMemoryOtpStore;
@@ -0,0 +1,66 @@
+/**
+ * PostgreSQL Consent Store
+ * Consent ledger kept in its own table so records outlive the session they were captured in
+ */
+
+import { Pool } from 'pg';
+import { ConsentStore, ConsentRecord, NewConsentRecord } from './ConsentStore';
+
+export class PostgresConsentStore implements ConsentStore {
+  constructor(private pool: Pool) {}
+
+  async append(record: NewConsentRecord): Promise<ConsentRecord> {
+    const { rows } = await this.pool.query(
+      `INSERT INTO consent_records
+         (session_id, user_id, purpose, action, text_version, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        record.sessionId,
+        record.userId || null,
+        record.purpose,
+        record.action,
+        record.textVersion,
+        record.ipAddress || null,
+        record.userAgent || null,
+      ]
+    );
+
+    return this.toRecord(rows[0]);
+  }
+
+  async list(sessionId: string): Promise<ConsentRecord[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM consent_records WHERE session_id = $1 ORDER BY id',
+      [sessionId]
+    );
+
+    return rows.map(row => this.toRecord(row));
+  }
+
+  async anonymize(sessionId: string): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE consent_records SET user_id = NULL, ip_address = NULL, user_agent = NULL
+       WHERE session_id = $1`,
+      [sessionId]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  private toRecord(row: any): ConsentRecord {
+    return {
+      id: String(row.id),
+      sessionId: row.session_id,
+      userId: row.user_id || undefined,
+      purpose: row.purpose,
+      action: row.action,
+      textVersion: row.text_version,
+      ipAddress: row.ip_address || undefined,
+      userAgent: row.user_agent || undefined,
+      recordedAt: row.recorded_at,
+    };
+  }
+}
+
+export default PostgresConsentStore;
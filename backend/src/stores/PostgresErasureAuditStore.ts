@@ -0,0 +1,38 @@
+/**
+ * PostgreSQL Erasure Audit Store
+ */
+
+import { Pool } from 'pg';
+import { ErasureAuditStore, ErasureRecord, NewErasureRecord } from './ErasureAuditStore';
+
+export class PostgresErasureAuditStore implements ErasureAuditStore {
+  constructor(private pool: Pool) {}
+
+  async append(record: NewErasureRecord): Promise<ErasureRecord> {
+    const { rows } = await this.pool.query(
+      `INSERT INTO erasure_audit (session_ref, reason, data_class, session_status, deleted)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        record.sessionRef,
+        record.reason,
+        record.dataClass || null,
+        record.sessionStatus,
+        JSON.stringify(record.deleted),
+      ]
+    );
+
+    const row = rows[0];
+    return {
+      id: String(row.id),
+      sessionRef: row.session_ref,
+      reason: row.reason,
+      dataClass: row.data_class || undefined,
+      sessionStatus: row.session_status,
+      deleted: row.deleted,
+      erasedAt: row.erased_at,
+    };
+  }
+}
+
+export default PostgresErasureAuditStore;
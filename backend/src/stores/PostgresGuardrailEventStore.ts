@@ -0,0 +1,79 @@
+/**
+ * PostgreSQL Guardrail Event Store
+ */
+
+import { Pool } from 'pg';
+import {
+  GuardrailEventStore,
+  GuardrailEvent,
+  GuardrailEventFilter,
+  NewGuardrailEvent,
+} from './GuardrailEventStore';
+
+export class PostgresGuardrailEventStore implements GuardrailEventStore {
+  constructor(private pool: Pool) {}
+
+  async append(event: NewGuardrailEvent): Promise<GuardrailEvent> {
+    const { rows } = await this.pool.query(
+      `INSERT INTO guardrail_events (session_id, kind, origin, reasons, fields, excerpt)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        event.sessionId,
+        event.kind,
+        event.origin,
+        JSON.stringify(event.reasons),
+        event.fields ? JSON.stringify(event.fields) : null,
+        event.excerpt || null,
+      ]
+    );
+
+    return this.toEvent(rows[0]);
+  }
+
+  async list(filter: GuardrailEventFilter = {}): Promise<GuardrailEvent[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filter.sessionId) {
+      values.push(filter.sessionId);
+      conditions.push(`session_id = $${values.length}`);
+    }
+    if (filter.kind) {
+      values.push(filter.kind);
+      conditions.push(`kind = $${values.length}`);
+    }
+
+    values.push(filter.limit || 100);
+
+    const { rows } = await this.pool.query(
+      `SELECT * FROM guardrail_events
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY id DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return rows.map(row => this.toEvent(row));
+  }
+
+  async deleteForSession(sessionId: string): Promise<number> {
+    const result = await this.pool.query('DELETE FROM guardrail_events WHERE session_id = $1', [sessionId]);
+    return result.rowCount || 0;
+  }
+
+  private toEvent(row: any): GuardrailEvent {
+    return {
+      id: String(row.id),
+      sessionId: row.session_id,
+      kind: row.kind,
+      origin: row.origin,
+      reasons: row.reasons,
+      fields: row.fields || undefined,
+      excerpt: row.excerpt || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export default PostgresGuardrailEventStore;
@@ -0,0 +1,331 @@
+/**
+ * PostgreSQL Session Store
+ * Sessions, documents and conversation history persisted across restarts and instances
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  SessionStore,
+  OnboardingSession,
+  NewSession,
+  SessionUpdate,
+  SessionListFilter,
+  FieldChange,
+  VersionConflictError,
+} from './SessionStore';
+import { OnboardingStep, ExtractedDocument, ConversationMessage } from '../agents/OnboardingAgent';
+
+// Session columns that can be set directly through update()
+const UPDATABLE_COLUMNS: Record<string, string> = {
+  userId: 'user_id',
+  currentStep: 'current_step',
+  merchantData: 'merchant_data',
+  status: 'status',
+  interventions: 'interventions',
+  submittedAt: 'submitted_at',
+  applicationId: 'application_id',
+  lastActivityAt: 'last_activity_at',
+  review: 'review',
+  conversationSummary: 'conversation_summary',
+  language: 'language',
+};
+
+const JSON_COLUMNS = new Set(['merchant_data', 'interventions', 'review', 'conversation_summary', 'language']);
+
+export class PostgresSessionStore implements SessionStore {
+  constructor(private pool: Pool) {}
+
+  async get(sessionId: string): Promise<OnboardingSession | null> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM onboarding_sessions WHERE session_id = $1',
+      [sessionId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return this.hydrate(this.pool, rows[0]);
+  }
+
+  async create(input: NewSession): Promise<OnboardingSession> {
+    const { rows } = await this.pool.query(
+      `INSERT INTO onboarding_sessions (session_id, user_id, current_step, merchant_data)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [
+        input.sessionId,
+        input.userId || null,
+        input.currentStep,
+        JSON.stringify(input.merchantData || {}),
+      ]
+    );
+
+    return this.toSession(rows[0], [], [], []);
+  }
+
+  async update(
+    sessionId: string,
+    changes: SessionUpdate
+  ): Promise<OnboardingSession | null> {
+    const client = await this.pool.connect();
+    let inTransaction = false;
+
+    try {
+      await client.query('BEGIN');
+      inTransaction = true;
+
+      const assignments: string[] = [];
+      const values: any[] = [sessionId];
+
+      for (const [key, column] of Object.entries(UPDATABLE_COLUMNS)) {
+        const value = changes[key];
+        if (value === undefined) continue;
+
+        values.push(JSON_COLUMNS.has(column) ? JSON.stringify(value) : value);
+        assignments.push(`${column} = $${values.length}`);
+      }
+
+      if (changes.merchantData !== undefined) {
+        assignments.push('version = version + 1');
+      }
+
+      let versionCheck = '';
+      if (changes.expectedVersion !== undefined) {
+        values.push(changes.expectedVersion);
+        versionCheck = `AND version = $${values.length}`;
+      }
+
+      const { rows } = assignments.length > 0
+        ? await client.query(
+          `UPDATE onboarding_sessions SET ${assignments.join(', ')}
+           WHERE session_id = $1 ${versionCheck} RETURNING *`,
+          values
+        )
+        : await client.query(
+          `SELECT * FROM onboarding_sessions WHERE session_id = $1 ${versionCheck} FOR UPDATE`,
+          values
+        );
+
+      if (rows.length === 0) {
+        await client.query('ROLLBACK');
+        inTransaction = false;
+
+        // Distinguish a missing session from a stale version
+        const current = changes.expectedVersion !== undefined
+          ? await this.get(sessionId)
+          : null;
+        if (current) {
+          throw new VersionConflictError(current);
+        }
+        return null;
+      }
+
+      for (const document of changes.addDocuments || []) {
+        await client.query(
+          `INSERT INTO session_documents
+             (session_id, document_id, document_type, file_path, extracted_data, confidence, validation_status, issues, prompt)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            sessionId,
+            document.id || null,
+            document.documentType,
+            document.filePath,
+            JSON.stringify(document.extractedData || {}),
+            document.confidence,
+            document.validationStatus,
+            JSON.stringify(document.issues || []),
+            document.prompt ? JSON.stringify(document.prompt) : null,
+          ]
+        );
+      }
+
+      for (const message of changes.addMessages || []) {
+        await client.query(
+          `INSERT INTO conversation_messages (session_id, role, content, metadata, created_at)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [
+            sessionId,
+            message.role,
+            message.content,
+            message.metadata ? JSON.stringify(message.metadata) : null,
+            message.timestamp,
+          ]
+        );
+      }
+
+      for (const change of changes.addFieldChanges || []) {
+        await client.query(
+          `INSERT INTO field_changes
+             (session_id, field, value, previous_value, source, confidence, document_id, provider, changed_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            sessionId,
+            change.field,
+            JSON.stringify(change.value ?? null),
+            JSON.stringify(change.previousValue ?? null),
+            change.source,
+            change.confidence ?? null,
+            change.documentId || null,
+            change.provider || null,
+            change.changedAt,
+          ]
+        );
+      }
+
+      const session = await this.hydrate(client, rows[0]);
+      await client.query('COMMIT');
+      inTransaction = false;
+      return session;
+    } catch (error) {
+      if (inTransaction) {
+        await client.query('ROLLBACK');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async list(filter: SessionListFilter = {}): Promise<OnboardingSession[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filter.userId) {
+      values.push(filter.userId);
+      conditions.push(`user_id = $${values.length}`);
+    }
+    if (filter.status) {
+      values.push(filter.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filter.decision) {
+      values.push(filter.decision);
+      conditions.push(`review->>'decision' = $${values.length}`);
+    }
+    if (filter.inactiveSince) {
+      values.push(filter.inactiveSince);
+      conditions.push(`last_activity_at < $${values.length}`);
+    }
+    if (filter.decidedBefore) {
+      values.push(filter.decidedBefore);
+      conditions.push(`(review->>'decidedAt')::timestamptz < $${values.length}`);
+    }
+
+    values.push(filter.limit || 100);
+
+    const { rows } = await this.pool.query(
+      `SELECT * FROM onboarding_sessions
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY last_activity_at DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return Promise.all(rows.map(row => this.hydrate(this.pool, row)));
+  }
+
+  async expire(inactiveSince: Date, draftsInactiveSince: Date): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE onboarding_sessions SET status = 'abandoned'
+       WHERE (status = 'in_progress' AND last_activity_at < $1)
+          OR (status = 'paused' AND last_activity_at < $2)`,
+      [inactiveSince, draftsInactiveSince]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    // Documents, messages and field changes go with it (ON DELETE CASCADE)
+    const result = await this.pool.query(
+      'DELETE FROM onboarding_sessions WHERE session_id = $1',
+      [sessionId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Load child rows and build the full session object
+   */
+  private async hydrate(db: Pool | PoolClient, row: any): Promise<OnboardingSession> {
+    const [documents, messages, fieldChanges] = await Promise.all([
+      db.query(
+        'SELECT * FROM session_documents WHERE session_id = $1 ORDER BY id',
+        [row.session_id]
+      ),
+      db.query(
+        'SELECT * FROM conversation_messages WHERE session_id = $1 ORDER BY id',
+        [row.session_id]
+      ),
+      db.query(
+        'SELECT * FROM field_changes WHERE session_id = $1 ORDER BY id',
+        [row.session_id]
+      ),
+    ]);
+
+    return this.toSession(
+      row,
+      documents.rows.map(doc => ({
+        id: doc.document_id || undefined,
+        documentType: doc.document_type,
+        filePath: doc.file_path,
+        extractedData: doc.extracted_data,
+        confidence: Number(doc.confidence),
+        validationStatus: doc.validation_status,
+        issues: doc.issues,
+        prompt: doc.prompt || undefined,
+      })),
+      messages.rows.map(message => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.created_at,
+        metadata: message.metadata || undefined,
+      })),
+      fieldChanges.rows.map(change => ({
+        field: change.field,
+        value: change.value,
+        previousValue: change.previous_value,
+        source: change.source,
+        confidence: change.confidence === null ? undefined : Number(change.confidence),
+        documentId: change.document_id || undefined,
+        provider: change.provider || undefined,
+        changedAt: change.changed_at,
+      }))
+    );
+  }
+
+  private toSession(
+    row: any,
+    documents: ExtractedDocument[],
+    conversationHistory: ConversationMessage[],
+    fieldHistory: FieldChange[]
+  ): OnboardingSession {
+    return {
+      sessionId: row.session_id,
+      version: row.version,
+      userId: row.user_id || undefined,
+      startedAt: row.started_at,
+      lastActivityAt: row.last_activity_at,
+      submittedAt: row.submitted_at || undefined,
+      applicationId: row.application_id || undefined,
+      currentStep: row.current_step as OnboardingStep,
+      merchantData: row.merchant_data,
+      documents,
+      conversationHistory,
+      fieldHistory,
+      interventions: row.interventions,
+      status: row.status,
+      review: row.review
+        ? { ...row.review, decidedAt: new Date(row.review.decidedAt) }
+        : undefined,
+      conversationSummary: row.conversation_summary
+        ? { ...row.conversation_summary, updatedAt: new Date(row.conversation_summary.updatedAt) }
+        : undefined,
+      language: row.language || undefined,
+    };
+  }
+}
+
+export default PostgresSessionStore;
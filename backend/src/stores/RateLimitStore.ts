@@ -0,0 +1,110 @@
+/**
+ * Rate Limit Store
+ * Token buckets keyed by client, session or user
+ */
+
+export interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface BucketRequest {
+  key: string;
+  bucket: BucketConfig;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+  deniedBy?: number; // Index of the first request whose bucket was empty
+}
+
+export interface RateLimitStore {
+  /**
+   * Refill the buckets for the elapsed time, then take one token from each if
+   * every one has a token available. A denial leaves all of them uncharged.
+   */
+  take(requests: BucketRequest[]): Promise<TakeResult>;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Compute the next bucket states; shared by the in-memory store and mirrored in the Redis script
+ */
+export const refillAndTake = (
+  states: Array<BucketState | undefined>,
+  buckets: BucketConfig[],
+  now: number
+): { states: BucketState[]; result: TakeResult } => {
+  const tokens = buckets.map((bucket, i) => {
+    const state = states[i];
+    const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+    return state
+      ? Math.min(bucket.capacity, state.tokens + elapsedSeconds * bucket.refillPerSecond)
+      : bucket.capacity;
+  });
+
+  const deniedBy = tokens.findIndex(available => available < 1);
+  if (deniedBy >= 0) {
+    return {
+      states: tokens.map(available => ({ tokens: available, updatedAt: now })),
+      result: {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((1 - tokens[deniedBy]) / buckets[deniedBy].refillPerSecond),
+        deniedBy,
+      },
+    };
+  }
+
+  return {
+    states: tokens.map(available => ({ tokens: available - 1, updatedAt: now })),
+    result: {
+      allowed: true,
+      remaining: Math.floor(Math.min(...tokens) - 1),
+      retryAfterSeconds: 0,
+    },
+  };
+};
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState & { evictAt: number }>();
+  private lastSweepAt = 0;
+
+  async take(requests: BucketRequest[]): Promise<TakeResult> {
+    const now = Date.now();
+    this.evictIdle(now);
+
+    const { states, result } = refillAndTake(
+      requests.map(({ key }) => this.buckets.get(key)),
+      requests.map(({ bucket }) => bucket),
+      now
+    );
+
+    // A bucket left alone long enough to refill completely can be forgotten
+    requests.forEach(({ key, bucket }, i) => {
+      const fullAfterMs = ((bucket.capacity - states[i].tokens) / bucket.refillPerSecond) * 1000;
+      this.buckets.set(key, { ...states[i], evictAt: now + fullAfterMs });
+    });
+
+    return result;
+  }
+
+  private evictIdle(now: number) {
+    if (now - this.lastSweepAt < 60000) return;
+    this.lastSweepAt = now;
+
+    for (const [key, state] of this.buckets) {
+      if (state.evictAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export default InMemoryRateLimitStore;
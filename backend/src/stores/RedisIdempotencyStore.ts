@@ -0,0 +1,66 @@
+/**
+ * Redis Idempotency Store
+ * Shares idempotency keys across instances; claims use SET NX so only one request wins.
+ * Keys that acted on a session are also listed in a per-session set for erasure.
+ */
+
+import { RedisClientType } from 'redis';
+import { IdempotencyStore, IdempotencyRecord, StoredResponse } from './IdempotencyStore';
+
+const KEY_PREFIX = 'onboarding:idempotency:';
+const SESSION_PREFIX = 'onboarding:idempotency-session:';
+
+export class RedisIdempotencyStore implements IdempotencyStore {
+  constructor(private redis: RedisClientType<any, any, any>) {}
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const raw = await this.redis.get(KEY_PREFIX + key);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async claim(key: string, fingerprint: string, ttlMs: number, sessionId?: string): Promise<boolean> {
+    const record: IdempotencyRecord = { key, fingerprint, sessionId, status: 'in_progress' };
+    const result = await this.redis.set(KEY_PREFIX + key, JSON.stringify(record), {
+      NX: true,
+      PX: ttlMs,
+    });
+
+    if (result === 'OK' && sessionId) {
+      await this.redis.sAdd(SESSION_PREFIX + sessionId, key);
+    }
+
+    return result === 'OK';
+  }
+
+  async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+    const record = await this.get(key);
+    if (!record) {
+      return;
+    }
+
+    await this.redis.set(
+      KEY_PREFIX + key,
+      JSON.stringify({ ...record, status: 'completed', response }),
+      { PX: ttlMs }
+    );
+
+    // The session's key list lives as long as its longest-lived record
+    if (record.sessionId) {
+      await this.redis.pExpire(SESSION_PREFIX + record.sessionId, ttlMs);
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.del(KEY_PREFIX + key);
+  }
+
+  async deleteForSession(sessionId: string): Promise<number> {
+    const keys = await this.redis.sMembers(SESSION_PREFIX + sessionId);
+    const deleted = keys.length > 0 ? await this.redis.del(keys.map(key => KEY_PREFIX + key)) : 0;
+
+    await this.redis.del(SESSION_PREFIX + sessionId);
+    return deleted;
+  }
+}
+
+export default RedisIdempotencyStore;
@@ -0,0 +1,53 @@
+/**
+ * Redis OTP Store
+ * Shares OTP challenges across instances
+ */
+
+import { RedisClientType } from 'redis';
+import { OtpStore, OtpRecord } from './OtpStore';
+
+const KEY_PREFIX = 'onboarding:otp:';
+const DATE_FIELDS = new Set(['expiresAt', 'lastSentAt', 'windowStartedAt']);
+
+// Read, bump and rewrite the record in one step so parallel verifications cannot lose a count
+const INCREMENT_ATTEMPTS_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then
+  return -1
+end
+
+local record = cjson.decode(raw)
+record.attempts = record.attempts + 1
+redis.call('SET', KEYS[1], cjson.encode(record), 'KEEPTTL')
+
+return record.attempts
+`;
+
+export class RedisOtpStore implements OtpStore {
+  constructor(private redis: RedisClientType<any, any, any>) {}
+
+  async get(phone: string): Promise<OtpRecord | null> {
+    const raw = await this.redis.get(KEY_PREFIX + phone);
+    return raw
+      ? JSON.parse(raw, (key, value) => (DATE_FIELDS.has(key) ? new Date(value) : value))
+      : null;
+  }
+
+  async save(record: OtpRecord, ttlMs: number): Promise<void> {
+    await this.redis.set(KEY_PREFIX + record.phone, JSON.stringify(record), { PX: ttlMs });
+  }
+
+  async incrementAttempts(phone: string): Promise<number | null> {
+    const attempts = (await this.redis.eval(INCREMENT_ATTEMPTS_SCRIPT, {
+      keys: [KEY_PREFIX + phone],
+    })) as number;
+
+    return attempts < 0 ? null : attempts;
+  }
+
+  async delete(phone: string): Promise<void> {
+    await this.redis.del(KEY_PREFIX + phone);
+  }
+}
+
+export default RedisOtpStore;
@@ -0,0 +1,81 @@
+/**
+ * Redis Rate Limit Store
+ * Shares token buckets across instances; the refill-and-take step runs as one Lua script
+ * over every bucket a request is charged to
+ */
+
+import { RedisClientType } from 'redis';
+import { RateLimitStore, BucketRequest, TakeResult } from './RateLimitStore';
+
+const KEY_PREFIX = 'onboarding:ratelimit:';
+
+// Same arithmetic as refillAndTake(), using the Redis clock so instances agree.
+// ARGV holds a capacity and refill rate per key.
+const TAKE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local tokens = {}
+local denied = 0
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  local state = redis.call('HMGET', key, 'tokens', 'updatedAt')
+  tokens[i] = capacity
+  if state[1] then
+    local elapsed = math.max(0, now - tonumber(state[2])) / 1000
+    tokens[i] = math.min(capacity, tonumber(state[1]) + elapsed * rate)
+  end
+  if denied == 0 and tokens[i] < 1 then
+    denied = i
+  end
+end
+
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  if denied == 0 then
+    tokens[i] = tokens[i] - 1
+  end
+  redis.call('HSET', key, 'tokens', tostring(tokens[i]), 'updatedAt', now)
+  redis.call('PEXPIRE', key, math.ceil((capacity - tokens[i]) / rate * 1000) + 1000)
+end
+
+if denied > 0 then
+  return { denied, tostring(tokens[denied]) }
+end
+
+local lowest = math.huge
+for i = 1, #tokens do
+  lowest = math.min(lowest, tokens[i])
+end
+return { 0, tostring(lowest) }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: RedisClientType<any, any, any>) {}
+
+  async take(requests: BucketRequest[]): Promise<TakeResult> {
+    const [denied, tokensRaw] = (await this.redis.eval(TAKE_SCRIPT, {
+      keys: requests.map(({ key }) => KEY_PREFIX + key),
+      arguments: requests.flatMap(({ bucket }) => [
+        String(bucket.capacity),
+        String(bucket.refillPerSecond),
+      ]),
+    })) as [number, string];
+
+    const tokens = parseFloat(tokensRaw);
+
+    // The script reports the denying bucket by its 1-based Lua index
+    return denied === 0
+      ? { allowed: true, remaining: Math.floor(tokens), retryAfterSeconds: 0 }
+      : {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((1 - tokens) / requests[denied - 1].bucket.refillPerSecond),
+        deniedBy: denied - 1,
+      };
+  }
+}
+
+export default RedisRateLimitStore;
@@ -0,0 +1,129 @@
+/**
+ * Redis Session Store
+ * Caches active sessions in Redis with a sliding TTL in front of a durable store.
+ *
+ * The TTL is refreshed whenever lastActivityAt changes. When it lapses the
+ * session is not deleted: the durable copy is marked abandoned so that the
+ * merchant's data survives and resumeSession can report the expiry.
+ */
+
+import { RedisClientType } from 'redis';
+import {
+  SessionStore,
+  OnboardingSession,
+  NewSession,
+  SessionUpdate,
+  SessionListFilter,
+} from './SessionStore';
+import { logger } from '../utils/logger';
+
+const KEY_PREFIX = 'onboarding:session:';
+const DATE_FIELDS = new Set(['startedAt', 'lastActivityAt', 'submittedAt', 'timestamp', 'changedAt', 'decidedAt', 'updatedAt']);
+
+export class RedisSessionStore implements SessionStore {
+  constructor(
+    private redis: RedisClientType<any, any, any>,
+    private backingStore: SessionStore,
+    private ttlMs: number
+  ) {}
+
+  async get(sessionId: string): Promise<OnboardingSession | null> {
+    const cached = await this.readCache(sessionId);
+    if (cached) {
+      return cached;
+    }
+
+    const session = await this.backingStore.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    // Cache entry lapsed: an open session idle past the timeout has expired
+    if (session.status === 'in_progress' && this.isIdle(session)) {
+      logger.info(`Session expired: ${sessionId}`);
+      return this.backingStore.update(sessionId, { status: 'abandoned' });
+    }
+
+    if (session.status === 'in_progress') {
+      await this.writeCache(session);
+    }
+
+    return session;
+  }
+
+  async create(input: NewSession): Promise<OnboardingSession> {
+    const session = await this.backingStore.create(input);
+    await this.writeCache(session);
+    return session;
+  }
+
+  async update(
+    sessionId: string,
+    changes: SessionUpdate
+  ): Promise<OnboardingSession | null> {
+    const session = await this.backingStore.update(sessionId, changes);
+
+    if (!session || session.status !== 'in_progress') {
+      await this.evict(sessionId);
+      return session;
+    }
+
+    // Only activity slides the TTL; other writes keep the remaining time
+    await this.writeCache(session, changes.lastActivityAt !== undefined);
+    return session;
+  }
+
+  async list(filter?: SessionListFilter): Promise<OnboardingSession[]> {
+    return this.backingStore.list(filter);
+  }
+
+  async expire(inactiveSince: Date, draftsInactiveSince: Date): Promise<number> {
+    return this.backingStore.expire(inactiveSince, draftsInactiveSince);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    // Evict after the durable delete so a concurrent read cannot re-cache the session
+    const deleted = await this.backingStore.delete(sessionId);
+    await this.evict(sessionId);
+    return deleted;
+  }
+
+  private isIdle(session: OnboardingSession): boolean {
+    return Date.now() - new Date(session.lastActivityAt).getTime() > this.ttlMs;
+  }
+
+  private async readCache(sessionId: string): Promise<OnboardingSession | null> {
+    try {
+      const raw = await this.redis.get(KEY_PREFIX + sessionId);
+      return raw
+        ? JSON.parse(raw, (key, value) => (DATE_FIELDS.has(key) && value ? new Date(value) : value))
+        : null;
+    } catch (error) {
+      logger.warn(`Session cache read failed for ${sessionId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async writeCache(session: OnboardingSession, refreshTtl = true): Promise<void> {
+    try {
+      const key = KEY_PREFIX + session.sessionId;
+      await this.redis.set(
+        key,
+        JSON.stringify(session),
+        refreshTtl ? { PX: this.ttlMs } : { XX: true, KEEPTTL: true }
+      );
+    } catch (error) {
+      logger.warn(`Session cache write failed for ${session.sessionId}: ${error.message}`);
+    }
+  }
+
+  private async evict(sessionId: string): Promise<void> {
+    try {
+      await this.redis.del(KEY_PREFIX + sessionId);
+    } catch (error) {
+      logger.warn(`Session cache evict failed for ${sessionId}: ${error.message}`);
+    }
+  }
+}
+
+export default RedisSessionStore;
@@ -0,0 +1,38 @@
+/**
+ * Redis Telemetry Store
+ * Shares behaviour events across instances, one capped list per session
+ */
+
+import { RedisClientType } from 'redis';
+import { TelemetryStore, TelemetryEvent, MAX_TELEMETRY_EVENTS } from './TelemetryStore';
+
+const KEY_PREFIX = 'onboarding:telemetry:';
+
+export class RedisTelemetryStore implements TelemetryStore {
+  constructor(private redis: RedisClientType<any, any, any>) {}
+
+  async append(sessionId: string, events: TelemetryEvent[], ttlMs: number): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const key = KEY_PREFIX + sessionId;
+    await this.redis
+      .multi()
+      .rPush(key, events.map(event => JSON.stringify(event)))
+      .lTrim(key, -MAX_TELEMETRY_EVENTS, -1)
+      .pExpire(key, ttlMs)
+      .exec();
+  }
+
+  async list(sessionId: string): Promise<TelemetryEvent[]> {
+    const entries = await this.redis.lRange(KEY_PREFIX + sessionId, 0, -1);
+    return entries.map(entry => JSON.parse(entry, (key, value) => (key === 'at' ? new Date(value) : value)));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.redis.del(KEY_PREFIX + sessionId);
+  }
+}
+
+export default RedisTelemetryStore;
@@ -0,0 +1,148 @@
+/**
+ * Session Store
+ * Persistence contract for onboarding sessions
+ */
+
+import {
+  OnboardingStep,
+  MerchantData,
+  ConversationMessage,
+  ExtractedDocument,
+} from '../agents/OnboardingAgent';
+import { ConversationSummary } from '../agents/ConversationMemory';
+import { SessionLanguage } from '../i18n/languages';
+
+export type SessionStatus = 'in_progress' | 'completed' | 'abandoned' | 'paused';
+
+export type FieldSource = 'user' | 'ocr' | 'external_api' | 'ai';
+
+/**
+ * A single change to a merchantData field and where the value came from
+ */
+export interface FieldChange {
+  field: string;
+  value: any;
+  previousValue: any;
+  source: FieldSource;
+  confidence?: number;
+  documentId?: string;
+  provider?: string;
+  changedAt: Date;
+}
+
+export type ReviewDecision = 'approved' | 'rejected' | 'needs_info';
+
+/**
+ * The ops team's decision on a submitted application
+ */
+export interface ApplicationReview {
+  decision: ReviewDecision;
+  notes?: string;
+  reviewerId: string;
+  decidedAt: Date;
+}
+
+export interface OnboardingSession {
+  sessionId: string;
+  version: number;
+  userId?: string;
+  startedAt: Date;
+  lastActivityAt: Date;
+  submittedAt?: Date;
+  applicationId?: string;
+  currentStep: OnboardingStep;
+  merchantData: Partial<MerchantData>;
+  documents: ExtractedDocument[];
+  conversationHistory: ConversationMessage[];
+  conversationSummary?: ConversationSummary;
+  language?: SessionLanguage;
+  fieldHistory: FieldChange[];
+  interventions: any[];
+  status: SessionStatus;
+  review?: ApplicationReview;
+}
+
+export interface NewSession {
+  sessionId: string;
+  userId?: string;
+  currentStep: OnboardingStep;
+  merchantData?: Partial<MerchantData>;
+}
+
+/**
+ * Partial update applied to a stored session.
+ * Documents, messages and field changes are append-only, so they are passed
+ * as additions rather than as a replacement of the whole list.
+ *
+ * The session version is bumped whenever merchantData changes. When
+ * expectedVersion is set and does not match, the update is rejected with a
+ * VersionConflictError and nothing is written.
+ */
+export interface SessionUpdate {
+  expectedVersion?: number;
+  userId?: string;
+  currentStep?: OnboardingStep;
+  merchantData?: Partial<MerchantData>;
+  status?: SessionStatus;
+  interventions?: any[];
+  submittedAt?: Date;
+  applicationId?: string;
+  lastActivityAt?: Date;
+  review?: ApplicationReview;
+  conversationSummary?: ConversationSummary;
+  language?: SessionLanguage;
+  addDocuments?: ExtractedDocument[];
+  addMessages?: ConversationMessage[];
+  addFieldChanges?: FieldChange[];
+}
+
+export class VersionConflictError extends Error {
+  constructor(public current: OnboardingSession) {
+    super(`Session ${current.sessionId} has been modified (current version ${current.version})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+export interface SessionListFilter {
+  userId?: string;
+  status?: SessionStatus;
+  decision?: ReviewDecision;
+  inactiveSince?: Date; // lastActivityAt before this time
+  decidedBefore?: Date; // review decidedAt before this time
+  limit?: number;
+}
+
+export interface SessionStore {
+  /**
+   * Fetch a session by ID, or null if it does not exist
+   */
+  get(sessionId: string): Promise<OnboardingSession | null>;
+
+  /**
+   * Create and persist a new session
+   */
+  create(session: NewSession): Promise<OnboardingSession>;
+
+  /**
+   * Apply an update and return the updated session, or null if it does not exist
+   */
+  update(sessionId: string, changes: SessionUpdate): Promise<OnboardingSession | null>;
+
+  /**
+   * List sessions, most recently active first
+   */
+  list(filter?: SessionListFilter): Promise<OnboardingSession[]>;
+
+  /**
+   * Mark in-progress sessions inactive since the cutoff, and saved drafts
+   * (paused) inactive since draftsInactiveSince, as abandoned.
+   * Returns the number of sessions expired.
+   */
+  expire(inactiveSince: Date, draftsInactiveSince: Date): Promise<number>;
+
+  /**
+   * Permanently remove a session with its documents, messages and field history.
+   * Returns false if it does not exist.
+   */
+  delete(sessionId: string): Promise<boolean>;
+}
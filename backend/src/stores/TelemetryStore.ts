@@ -0,0 +1,82 @@
+/**
+ * Telemetry Store
+ * Recent client behaviour events per session: field focus, idle time,
+ * validation errors and step changes. Events carry field and step names
+ * and timings, never what the merchant typed.
+ */
+
+export type TelemetryEventType =
+  | 'field_focus'
+  | 'field_blur'
+  | 'idle'
+  | 'validation_error'
+  | 'step_enter'
+  | 'step_exit';
+
+export const TELEMETRY_EVENT_TYPES: TelemetryEventType[] = [
+  'field_focus',
+  'field_blur',
+  'idle',
+  'validation_error',
+  'step_enter',
+  'step_exit',
+];
+
+// Older events are dropped once a session has this many
+export const MAX_TELEMETRY_EVENTS = 500;
+
+export interface TelemetryEvent {
+  type: TelemetryEventType;
+  at: Date; // Server time, corrected for the client's clock
+  field?: string;
+  step?: string;
+  durationMs?: number; // How long the merchant was idle, for idle events
+}
+
+export interface TelemetryStore {
+  /**
+   * Add events for a session, keeping its most recent MAX_TELEMETRY_EVENTS,
+   * and push back when they expire
+   */
+  append(sessionId: string, events: TelemetryEvent[], ttlMs: number): Promise<void>;
+
+  /**
+   * Events for a session in the order they were received
+   */
+  list(sessionId: string): Promise<TelemetryEvent[]>;
+
+  delete(sessionId: string): Promise<void>;
+}
+
+export class InMemoryTelemetryStore implements TelemetryStore {
+  private sessions = new Map<string, { events: TelemetryEvent[]; evictAt: number }>();
+
+  async append(sessionId: string, events: TelemetryEvent[], ttlMs: number): Promise<void> {
+    const existing = await this.list(sessionId);
+
+    this.sessions.set(sessionId, {
+      events: [...existing, ...events.map(event => ({ ...event }))].slice(-MAX_TELEMETRY_EVENTS),
+      evictAt: Date.now() + ttlMs,
+    });
+  }
+
+  async list(sessionId: string): Promise<TelemetryEvent[]> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      return [];
+    }
+
+    if (entry.evictAt <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return [];
+    }
+
+    return entry.events.map(event => ({ ...event }));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+export default InMemoryTelemetryStore;
@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+import { OnboardingStep } from '../../agents/OnboardingAgent';
+import { getEncryptionService } from '../../services/EncryptionService';
+import { EncryptedSessionStore } from '../EncryptedSessionStore';
+import { InMemorySessionStore } from '../InMemorySessionStore';
+
+describe('EncryptedSessionStore', () => {
+  let inner: InMemorySessionStore;
+  let store: EncryptedSessionStore;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    inner = new InMemorySessionStore();
+    store = new EncryptedSessionStore(inner, getEncryptionService());
+    sessionId = uuidv4();
+    await store.create({ sessionId, currentStep: OnboardingStep.WELCOME });
+  });
+
+  it('keeps sensitive fields encrypted in the wrapped store', async () => {
+    await store.update(sessionId, { merchantData: { pan: 'ABCPS1234K', city: 'Pune' } });
+
+    const raw = await inner.get(sessionId);
+    expect(raw?.merchantData.pan).toMatch(/^enc:v1:/);
+    expect(raw?.merchantData.city).toBe('Pune');
+    expect((await store.get(sessionId))?.merchantData.pan).toBe('ABCPS1234K');
+  });
+
+  it('encrypts a value typed to look like an envelope, so the session stays readable', async () => {
+    const lookalike = 'enc:v1:not-a-key:garbage:garbage';
+    await store.update(sessionId, { merchantData: { pan: lookalike } });
+
+    expect((await inner.get(sessionId))?.merchantData.pan).not.toBe(lookalike);
+    expect((await store.get(sessionId))?.merchantData.pan).toBe(lookalike);
+  });
+
+  it('keeps chat messages and the conversation summary encrypted in the wrapped store', async () => {
+    await store.update(sessionId, {
+      addMessages: [{ role: 'user', content: 'My PAN is ABCPS1234K', timestamp: new Date() }],
+      conversationSummary: { text: 'Merchant gave PAN ABCPS1234K', messagesCovered: 1, updatedAt: new Date() },
+    });
+
+    const raw = await inner.get(sessionId);
+    expect(JSON.stringify(raw)).not.toContain('ABCPS1234K');
+
+    const session = await store.get(sessionId);
+    expect(session?.conversationHistory[0].content).toBe('My PAN is ABCPS1234K');
+    expect(session?.conversationSummary?.text).toBe('Merchant gave PAN ABCPS1234K');
+  });
+});
@@ -0,0 +1,27 @@
+import { InMemoryRateLimitStore } from '../RateLimitStore';
+
+describe('InMemoryRateLimitStore', () => {
+  const ip = { key: 'chat:ip:1.2.3.4', bucket: { capacity: 2, refillPerSecond: 0.001 } };
+  const session = { key: 'chat:session:s1', bucket: { capacity: 1, refillPerSecond: 0.001 } };
+
+  it('takes a token from every bucket when all have one', async () => {
+    const store = new InMemoryRateLimitStore();
+
+    const result = await store.take([ip, session]);
+
+    expect(result).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('leaves the other buckets uncharged when one denies', async () => {
+    const store = new InMemoryRateLimitStore();
+    await store.take([session]);
+
+    const denied = await store.take([ip, session]);
+    expect(denied).toMatchObject({ allowed: false, deniedBy: 1 });
+    expect(denied.retryAfterSeconds).toBeGreaterThan(0);
+
+    // The ip bucket still holds both tokens
+    expect(await store.take([ip])).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await store.take([ip])).toMatchObject({ allowed: true, remaining: 0 });
+  });
+});
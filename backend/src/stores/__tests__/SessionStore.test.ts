@@ -0,0 +1,142 @@
+import { newDb } from 'pg-mem';
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { OnboardingStep } from '../../agents/OnboardingAgent';
+import { runMigrations } from '../../db/migrations';
+import { InMemorySessionStore } from '../InMemorySessionStore';
+import { PostgresSessionStore } from '../PostgresSessionStore';
+import { SessionStore, VersionConflictError } from '../SessionStore';
+
+/**
+ * PostgreSQL store on an in-process emulation of the real schema
+ */
+const createPostgresStore = async (): Promise<SessionStore> => {
+  const { Pool: MemPool } = newDb().adapters.createPg();
+  const pool: Pool = new MemPool();
+  await runMigrations(pool);
+  return new PostgresSessionStore(pool);
+};
+
+describe.each([
+  ['InMemorySessionStore', async () => new InMemorySessionStore()],
+  ['PostgresSessionStore', createPostgresStore],
+])('%s', (_name, createStore: () => Promise<SessionStore>) => {
+  let store: SessionStore;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    store = await createStore();
+    sessionId = uuidv4();
+    await store.create({ sessionId, userId: 'merchant-1', currentStep: OnboardingStep.WELCOME });
+  });
+
+  it('starts new sessions at version 1', async () => {
+    const session = await store.get(sessionId);
+
+    expect(session).toMatchObject({ sessionId, version: 1, status: 'in_progress', merchantData: {} });
+  });
+
+  it('bumps the version only when merchantData changes', async () => {
+    const stepped = await store.update(sessionId, { currentStep: OnboardingStep.BUSINESS_INFO });
+    expect(stepped?.version).toBe(1);
+
+    const updated = await store.update(sessionId, {
+      expectedVersion: 1,
+      merchantData: { businessName: 'Sharma Traders' },
+    });
+    expect(updated?.version).toBe(2);
+    expect(updated?.merchantData).toEqual({ businessName: 'Sharma Traders' });
+  });
+
+  it('rejects a stale expectedVersion with the current session and writes nothing', async () => {
+    await store.update(sessionId, { expectedVersion: 1, merchantData: { businessName: 'First' } });
+
+    const stale = store.update(sessionId, {
+      expectedVersion: 1,
+      merchantData: { businessName: 'Second' },
+      addMessages: [{ role: 'user', content: 'hello', timestamp: new Date() }],
+    });
+
+    await expect(stale).rejects.toBeInstanceOf(VersionConflictError);
+    await expect(stale).rejects.toMatchObject({ current: { version: 2 } });
+
+    const session = await store.get(sessionId);
+    expect(session?.merchantData).toEqual({ businessName: 'First' });
+    expect(session?.conversationHistory).toHaveLength(0);
+  });
+
+  it('lets only one of two writers holding the same version through', async () => {
+    const results = await Promise.allSettled([
+      store.update(sessionId, { expectedVersion: 1, merchantData: { city: 'Pune' } }),
+      store.update(sessionId, { expectedVersion: 1, merchantData: { city: 'Nagpur' } }),
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    expect((await store.get(sessionId))?.version).toBe(2);
+  });
+
+  it('returns null rather than a conflict for a missing session', async () => {
+    await expect(store.update(uuidv4(), { expectedVersion: 1, merchantData: {} })).resolves.toBeNull();
+  });
+
+  it('appends messages and field changes instead of replacing them', async () => {
+    const changedAt = new Date();
+    await store.update(sessionId, {
+      addMessages: [{ role: 'user', content: 'first', timestamp: new Date() }],
+      addFieldChanges: [{ field: 'city', value: 'Pune', previousValue: null, source: 'user', changedAt }],
+    });
+    const session = await store.update(sessionId, {
+      addMessages: [{ role: 'agent', content: 'second', timestamp: new Date() }],
+    });
+
+    expect(session?.conversationHistory.map(message => message.content)).toEqual(['first', 'second']);
+    expect(session?.fieldHistory).toHaveLength(1);
+  });
+
+  it('expires idle sessions and saved drafts on their own timeouts', async () => {
+    const draftId = uuidv4();
+    await store.create({ sessionId: draftId, userId: 'merchant-1', currentStep: OnboardingStep.WELCOME });
+    const idleSince = new Date(Date.now() - 60 * 60 * 1000);
+    await store.update(sessionId, { lastActivityAt: idleSince });
+    await store.update(draftId, { status: 'paused', lastActivityAt: idleSince });
+
+    // Past the session timeout but within the draft timeout
+    const now = Date.now();
+    expect(await store.expire(new Date(now - 30 * 60 * 1000), new Date(now - 24 * 60 * 60 * 1000))).toBe(1);
+    expect((await store.get(sessionId))?.status).toBe('abandoned');
+    expect((await store.get(draftId))?.status).toBe('paused');
+
+    expect(await store.expire(new Date(now - 30 * 60 * 1000), new Date(now - 30 * 60 * 1000))).toBe(1);
+    expect((await store.get(draftId))?.status).toBe('abandoned');
+  });
+});
+
+describe('PostgresSessionStore transactions', () => {
+  it('rolls back a version conflict exactly once', async () => {
+    const { Pool: MemPool } = newDb().adapters.createPg();
+    const pool: Pool = new MemPool();
+    await runMigrations(pool);
+    const store = new PostgresSessionStore(pool);
+    const sessionId = uuidv4();
+    await store.create({ sessionId, currentStep: OnboardingStep.WELCOME });
+    await store.update(sessionId, { expectedVersion: 1, merchantData: { city: 'Pune' } });
+
+    const statements: string[] = [];
+    const connect = pool.connect.bind(pool);
+    jest.spyOn(pool, 'connect').mockImplementation(async () => {
+      const client = await connect();
+      const query = client.query.bind(client);
+      client.query = ((text: any, ...rest: any[]) => {
+        statements.push(typeof text === 'string' ? text.trim() : text.text);
+        return (query as any)(text, ...rest);
+      }) as any;
+      return client;
+    });
+
+    await expect(
+      store.update(sessionId, { expectedVersion: 1, merchantData: { city: 'Nagpur' } })
+    ).rejects.toBeInstanceOf(VersionConflictError);
+    expect(statements.filter(statement => statement === 'ROLLBACK')).toHaveLength(1);
+  });
+});
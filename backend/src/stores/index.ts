@@ -0,0 +1,185 @@
+/**
+ * Session Store Factory
+ * Uses PostgreSQL when DATABASE_URL is set, otherwise falls back to in-memory.
+ * When REDIS_URL is set, active sessions are cached in Redis with a sliding TTL.
+ * Sensitive fields are encrypted before they reach either.
+ */
+
+import { SessionStore } from './SessionStore';
+import { InMemorySessionStore } from './InMemorySessionStore';
+import { PostgresSessionStore } from './PostgresSessionStore';
+import { RedisSessionStore } from './RedisSessionStore';
+import { EncryptedSessionStore } from './EncryptedSessionStore';
+import { OtpStore, InMemoryOtpStore } from './OtpStore';
+import { RedisOtpStore } from './RedisOtpStore';
+import { RateLimitStore, InMemoryRateLimitStore } from './RateLimitStore';
+import { RedisRateLimitStore } from './RedisRateLimitStore';
+import { IdempotencyStore, InMemoryIdempotencyStore } from './IdempotencyStore';
+import { RedisIdempotencyStore } from './RedisIdempotencyStore';
+import { ConsentStore, InMemoryConsentStore } from './ConsentStore';
+import { PostgresConsentStore } from './PostgresConsentStore';
+import { ErasureAuditStore, InMemoryErasureAuditStore } from './ErasureAuditStore';
+import { PostgresErasureAuditStore } from './PostgresErasureAuditStore';
+import { GuardrailEventStore, InMemoryGuardrailEventStore } from './GuardrailEventStore';
+import { PostgresGuardrailEventStore } from './PostgresGuardrailEventStore';
+import { TelemetryStore, InMemoryTelemetryStore } from './TelemetryStore';
+import { RedisTelemetryStore } from './RedisTelemetryStore';
+import { getPool } from '../db/pool';
+import { getRedisClient } from '../db/redis';
+import { getEncryptionService } from '../services/EncryptionService';
+
+// Matches OnboardingConfig.limits.sessionTimeout on the frontend (30 minutes)
+export const SESSION_TIMEOUT_MS = parseInt(process.env.SESSION_TIMEOUT || '1800000', 10);
+
+// Saved drafts stay resumable for longer (30 days)
+export const DRAFT_TIMEOUT_MS = parseInt(process.env.DRAFT_TIMEOUT || '2592000000', 10);
+
+export const createSessionStore = (): SessionStore => {
+  const persistent = process.env.DATABASE_URL
+    ? new PostgresSessionStore(getPool())
+    : new InMemorySessionStore();
+
+  const store = process.env.REDIS_URL
+    ? new RedisSessionStore(getRedisClient(), persistent, SESSION_TIMEOUT_MS)
+    : persistent;
+
+  return new EncryptedSessionStore(store, getEncryptionService());
+};
+
+let sharedStore: SessionStore | null = null;
+
+/**
+ * Get the process-wide session store shared by controllers and jobs
+ */
+export const getSessionStore = (): SessionStore => {
+  if (!sharedStore) {
+    sharedStore = createSessionStore();
+  }
+
+  return sharedStore;
+};
+
+let sharedOtpStore: OtpStore | null = null;
+
+/**
+ * Get the process-wide OTP store (Redis when REDIS_URL is set so challenges work across instances)
+ */
+export const getOtpStore = (): OtpStore => {
+  if (!sharedOtpStore) {
+    sharedOtpStore = process.env.REDIS_URL
+      ? new RedisOtpStore(getRedisClient())
+      : new InMemoryOtpStore();
+  }
+
+  return sharedOtpStore;
+};
+
+let sharedRateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Get the process-wide rate limit store (Redis when REDIS_URL is set so limits hold across instances)
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!sharedRateLimitStore) {
+    sharedRateLimitStore = process.env.REDIS_URL
+      ? new RedisRateLimitStore(getRedisClient())
+      : new InMemoryRateLimitStore();
+  }
+
+  return sharedRateLimitStore;
+};
+
+let sharedIdempotencyStore: IdempotencyStore | null = null;
+
+/**
+ * Get the process-wide idempotency store (Redis when REDIS_URL is set so retries can hit any instance)
+ */
+export const getIdempotencyStore = (): IdempotencyStore => {
+  if (!sharedIdempotencyStore) {
+    sharedIdempotencyStore = process.env.REDIS_URL
+      ? new RedisIdempotencyStore(getRedisClient())
+      : new InMemoryIdempotencyStore();
+  }
+
+  return sharedIdempotencyStore;
+};
+
+let sharedConsentStore: ConsentStore | null = null;
+
+/**
+ * Get the process-wide consent ledger (PostgreSQL when DATABASE_URL is set)
+ */
+export const getConsentStore = (): ConsentStore => {
+  if (!sharedConsentStore) {
+    sharedConsentStore = process.env.DATABASE_URL
+      ? new PostgresConsentStore(getPool())
+      : new InMemoryConsentStore();
+  }
+
+  return sharedConsentStore;
+};
+
+let sharedErasureAuditStore: ErasureAuditStore | null = null;
+
+/**
+ * Get the process-wide erasure audit store (PostgreSQL when DATABASE_URL is set)
+ */
+export const getErasureAuditStore = (): ErasureAuditStore => {
+  if (!sharedErasureAuditStore) {
+    sharedErasureAuditStore = process.env.DATABASE_URL
+      ? new PostgresErasureAuditStore(getPool())
+      : new InMemoryErasureAuditStore();
+  }
+
+  return sharedErasureAuditStore;
+};
+
+let sharedGuardrailEventStore: GuardrailEventStore | null = null;
+
+/**
+ * Get the process-wide guardrail event store (PostgreSQL when DATABASE_URL is set)
+ */
+export const getGuardrailEventStore = (): GuardrailEventStore => {
+  if (!sharedGuardrailEventStore) {
+    sharedGuardrailEventStore = process.env.DATABASE_URL
+      ? new PostgresGuardrailEventStore(getPool())
+      : new InMemoryGuardrailEventStore();
+  }
+
+  return sharedGuardrailEventStore;
+};
+
+let sharedTelemetryStore: TelemetryStore | null = null;
+
+/**
+ * Get the process-wide behaviour telemetry store (Redis when REDIS_URL is set so any instance can read a session's events)
+ */
+export const getTelemetryStore = (): TelemetryStore => {
+  if (!sharedTelemetryStore) {
+    sharedTelemetryStore = process.env.REDIS_URL
+      ? new RedisTelemetryStore(getRedisClient())
+      : new InMemoryTelemetryStore();
+  }
+
+  return sharedTelemetryStore;
+};
+
+export * from './SessionStore';
+export * from './OtpStore';
+export * from './RateLimitStore';
+export * from './IdempotencyStore';
+export * from './ConsentStore';
+export * from './ErasureAuditStore';
+export * from './GuardrailEventStore';
+export * from './TelemetryStore';
+export { InMemorySessionStore } from './InMemorySessionStore';
+export { PostgresSessionStore } from './PostgresSessionStore';
+export { RedisSessionStore } from './RedisSessionStore';
+export { EncryptedSessionStore } from './EncryptedSessionStore';
+export { RedisOtpStore } from './RedisOtpStore';
+export { RedisRateLimitStore } from './RedisRateLimitStore';
+export { RedisIdempotencyStore } from './RedisIdempotencyStore';
+export { PostgresConsentStore } from './PostgresConsentStore';
+export { PostgresErasureAuditStore } from './PostgresErasureAuditStore';
+export { PostgresGuardrailEventStore } from './PostgresGuardrailEventStore';
+export { RedisTelemetryStore } from './RedisTelemetryStore';
@@ -0,0 +1,36 @@
+/**
+ * Test App
+ * The API routes mounted as in index.ts, without starting the server or its jobs
+ */
+
+import express from 'express';
+import { onboardingRouter } from '../routes/onboarding';
+import { authRouter } from '../routes/auth';
+import { reviewRouter } from '../routes/review';
+import { consentRouter } from '../routes/consent';
+import { errorHandler, notFoundHandler } from '../middleware/errorHandlers';
+import { signToken } from '../utils/jwt';
+import { Role } from '../utils/roles';
+
+export const buildApp = (): express.Express => {
+  const app = express();
+
+  app.set('etag', false);
+  app.use(express.json());
+
+  app.use('/api/auth', authRouter);
+  app.use('/api/onboarding', onboardingRouter);
+  app.use('/api/review', reviewRouter);
+  app.use('/api/consent', consentRouter);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
+
+/**
+ * Authorization header value for a user with the given role
+ */
+export const bearer = (userId: string, role: Role = 'merchant'): string =>
+  `Bearer ${signToken({ userId, role })}`;
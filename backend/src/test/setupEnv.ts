@@ -0,0 +1,21 @@
+/**
+ * Test Environment
+ * Runs before every test file, ahead of any module that reads the environment
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+process.env.LLM_PROVIDER = 'fake';
+process.env.JWT_SECRET = 'test-jwt-secret';
+
+// Each test file gets its own throwaway field-encryption key
+process.env.ENCRYPTION_KEY_FILE = path.join(
+  fs.mkdtempSync(path.join(os.tmpdir(), 'onboarding-test-')),
+  'field-encryption.json'
+);
+
+delete process.env.DATABASE_URL;
+delete process.env.REDIS_URL;
@@ -0,0 +1,41 @@
+import { Bm25Index, tokenize } from '../bm25';
+
+describe('tokenize', () => {
+  it('lower-cases, drops stop words and strips plurals', () => {
+    expect(tokenize("What documents are needed for the merchant's cheques?")).toEqual([
+      'document', 'needed', 'merchant', 'cheque',
+    ]);
+  });
+});
+
+describe('Bm25Index', () => {
+  const build = () => {
+    const index = new Bm25Index<string>();
+    index.add('documents', 'Required documents: PAN card, GST certificate and a cancelled cheque');
+    index.add('settlement', 'Settlement happens T+2 days after the transaction into your bank account');
+    index.add('fees', 'The transaction fee is 2% for cards and 0% for UPI payments');
+    index.add('bank', 'Bank account verification uses a penny drop to the account and IFSC code');
+    return index;
+  };
+
+  it('ranks the passage sharing the rarest terms first', () => {
+    const results = build().search('Which documents do I need, is a cancelled cheque enough?', 3);
+
+    expect(results[0].item).toBe('documents');
+  });
+
+  it('rewards repeated terms in short passages', () => {
+    const results = build().search('bank account', 4);
+
+    expect(results.map(result => result.item)).toEqual(['bank', 'settlement']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('leaves out passages with no terms in common and honours the limit', () => {
+    const index = build();
+
+    expect(index.search('transaction', 1).map(result => result.item)).toHaveLength(1);
+    expect(index.search('weather in Mumbai', 3)).toEqual([]);
+    expect(index.search('the and of', 3)).toEqual([]);
+  });
+});
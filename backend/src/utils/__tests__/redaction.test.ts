@@ -0,0 +1,151 @@
+import { redact, redactDeep, PromptSanitizer, streamSanitized, invokeSanitized } from '../redaction';
+
+describe('redact', () => {
+  it.each([
+    ['PAN ABCPS1234K on file', 'PAN [REDACTED_PAN] on file'],
+    ['Aadhaar 2345 6789 0123', 'Aadhaar [REDACTED_AADHAAR]'],
+    ['Aadhaar 2345-6789-0123', 'Aadhaar [REDACTED_AADHAAR]'],
+    ['Aadhaar 234567890123', 'Aadhaar [REDACTED_AADHAAR]'],
+    ['call +91 98765 43210', 'call [REDACTED_PHONE]'],
+    ['call +91-9876543210', 'call [REDACTED_PHONE]'],
+    ['call 09876543210 or 9876543210', 'call [REDACTED_PHONE] or [REDACTED_PHONE]'],
+    ['A/c 50100123456789 at HDFC', 'A/c [REDACTED_ACCOUNT_NUMBER] at HDFC'],
+    ['SBI account 30211234567', 'SBI account [REDACTED_ACCOUNT_NUMBER]'],
+    ['Account No: 1712345678901', 'Account No: [REDACTED_ACCOUNT_NUMBER]'],
+    ['IFSC HDFC0001234', 'IFSC [REDACTED_IFSC]'],
+    ['IFSC SBIN0ABC123', 'IFSC [REDACTED_IFSC]'],
+    ['mail ravi.sharma+kyc@sharmatraders.co.in', 'mail [REDACTED_EMAIL]'],
+  ])('redacts %j', (text, expected) => {
+    expect(redact(text)).toBe(expected);
+  });
+
+  it.each([
+    'GSTIN 27AAPFU0939F1ZV',
+    'GSTIN 29ABCPS1234K1Z5 registered in Karnataka',
+    'Pincode 411001, Pune',
+    'Order 12345678 for ₹4,500',
+    'Landline 020 2612 3456',
+    'Session expired at 1760870400000',
+  ])('leaves %j alone', (text) => {
+    expect(redact(text)).toBe(text);
+  });
+
+  it('redacts every identifier in a sentence', () => {
+    const text = 'Ravi (PAN ABCPS1234K, Aadhaar 2345 6789 0123) banks with HDFC0001234, a/c 50100123456789, +91 98765 43210';
+
+    expect(redact(text)).toBe(
+      'Ravi (PAN [REDACTED_PAN], Aadhaar [REDACTED_AADHAAR]) banks with [REDACTED_IFSC], ' +
+      'a/c [REDACTED_ACCOUNT_NUMBER], [REDACTED_PHONE]'
+    );
+  });
+});
+
+describe('redactDeep', () => {
+  it('copies objects and arrays with every string redacted', () => {
+    const input = {
+      merchantData: { pan: 'ABCPS1234K', gstin: '27AAPFU0939F1ZV', monthlyVolume: 250000 },
+      contacts: ['ravi@example.in', '9876543210'],
+      at: new Date('2026-03-02T10:00:00Z'),
+    };
+
+    const output = redactDeep(input);
+
+    expect(output).toEqual({
+      merchantData: { pan: '[REDACTED_PAN]', gstin: '27AAPFU0939F1ZV', monthlyVolume: 250000 },
+      contacts: ['[REDACTED_EMAIL]', '[REDACTED_PHONE]'],
+      at: input.at,
+    });
+    expect(input.merchantData.pan).toBe('ABCPS1234K');
+  });
+
+  it('redacts error messages and stacks', () => {
+    const error = new TypeError('Bank rejected 50100123456789');
+
+    const output = redactDeep(error);
+
+    expect(output).toBeInstanceOf(Error);
+    expect(output.name).toBe('TypeError');
+    expect(output.message).toBe('Bank rejected [REDACTED_ACCOUNT_NUMBER]');
+    expect(output.stack).not.toContain('50100123456789');
+  });
+
+  it('survives circular references', () => {
+    const input: Record<string, any> = { phone: '9876543210' };
+    input.self = input;
+
+    expect(redactDeep(input).phone).toBe('[REDACTED_PHONE]');
+  });
+});
+
+describe('PromptSanitizer', () => {
+  it('swaps values for numbered placeholders and reuses them for repeats', () => {
+    const sanitizer = new PromptSanitizer();
+
+    const input = sanitizer.sanitize({
+      message: 'My PAN is ABCPS1234K and my partner\'s is AAAPZ9999Q. Again: ABCPS1234K',
+      step: 'business_info',
+      attempt: 2,
+    });
+
+    expect(input).toEqual({
+      message: 'My PAN is [PAN_1] and my partner\'s is [PAN_2]. Again: [PAN_1]',
+      step: 'business_info',
+      attempt: 2,
+    });
+  });
+
+  it('puts the original values back into model output', () => {
+    const sanitizer = new PromptSanitizer();
+    sanitizer.sanitizeText('Aadhaar 2345 6789 0123, IFSC SBIN0001234, gst 27AAPFU0939F1ZV');
+
+    expect(sanitizer.restore('{"aadhaar": "[AADHAAR_1]", "ifscCode": "[IFSC_1]"}')).toBe(
+      '{"aadhaar": "2345 6789 0123", "ifscCode": "SBIN0001234"}'
+    );
+  });
+
+  it('never sends the raw values to the chain', async () => {
+    const invoke = jest.fn(async (input: { message: string }) => `Saved ${input.message.match(/\[PHONE_1\]/)![0]}`);
+
+    const output = await invokeSanitized({ invoke }, { message: 'reach me on +91 98765 43210' });
+
+    expect(invoke.mock.calls[0][0].message).toBe('reach me on [PHONE_1]');
+    expect(output).toBe('Saved +91 98765 43210');
+  });
+});
+
+describe('streamSanitized', () => {
+  const collect = async (chunks: string[], input: Record<string, string>) => {
+    const stream = jest.fn(async (_input: Record<string, string>) => (async function* () {
+      yield* chunks;
+    })());
+
+    const output: string[] = [];
+    for await (const chunk of streamSanitized({ stream }, input)) {
+      output.push(chunk);
+    }
+    return { output, sent: stream.mock.calls[0][0] };
+  };
+
+  it('restores a placeholder split across chunks', async () => {
+    const { output, sent } = await collect(
+      ['Your account ', '[ACCOUNT_', 'NUMBER_1] is', ' saved'],
+      { message: 'a/c 50100123456789' }
+    );
+
+    expect(sent.message).toBe('a/c [ACCOUNT_NUMBER_1]');
+    expect(output.join('')).toBe('Your account 50100123456789 is saved');
+    expect(output.some(chunk => chunk.includes('['))).toBe(false);
+  });
+
+  it('passes through a bracket that turns out not to be a placeholder', async () => {
+    const { output } = await collect(['Step [', '2 of 5] done'], { message: 'hi' });
+
+    expect(output.join('')).toBe('Step [2 of 5] done');
+  });
+
+  it('flushes an unfinished bracket at the end of the stream', async () => {
+    const { output } = await collect(['Fees apply [see terms'], { message: 'hi' });
+
+    expect(output.join('')).toBe('Fees apply [see terms');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * BM25 Index
+ * In-memory keyword ranking for short documents, with no external service
+ */
+
+// Words too common to say anything about what a passage covers
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'need', 'of', 'on', 'or', 'our',
+  'so', 'still', 'that', 'the', 'this', 'to', 'we', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Strip plural endings so "cheques" matches "cheque"
+ */
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Lower-case terms of a text, without stop words
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem);
+
+export interface Bm25Options {
+  k1: number; // Term frequency saturation
+  b: number; // Length normalisation
+}
+
+export class Bm25Index<T> {
+  private documents: Array<{ item: T; terms: Map<string, number>; length: number }> = [];
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private options: Bm25Options = { k1: 1.2, b: 0.75 }) {}
+
+  /**
+   * Index an item under the given text
+   */
+  add(item: T, text: string): void {
+    const tokens = tokenize(text);
+    const terms = new Map<string, number>();
+
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1);
+    }
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+
+    this.documents.push({ item, terms, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * The best matching items for a query, highest score first.
+   * Items sharing no terms with the query are left out.
+   */
+  search(query: string, limit: number): Array<{ item: T; score: number }> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.length === 0) return [];
+
+    const { k1, b } = this.options;
+    const count = this.documents.length;
+    const averageLength = this.totalLength / count;
+
+    return this.documents
+      .map(({ item, terms, length }) => {
+        let score = 0;
+
+        for (const term of queryTerms) {
+          const frequency = terms.get(term);
+          if (!frequency) continue;
+
+          const documents = this.documentFrequency.get(term)!;
+          const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+          score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * length / averageLength));
+        }
+
+        return { item, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((first, second) => second.score - first.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Field History Helpers
+ * Builds provenance records for merchantData changes
+ */
+
+import { FieldChange, FieldSource } from '../stores/SessionStore';
+
+export interface FieldProvenance {
+  source: FieldSource;
+  confidence?: number;
+  documentId?: string;
+  provider?: string;
+}
+
+/**
+ * Compare two versions of merchantData and describe every field whose value changed
+ */
+export const diffFields = (
+  previous: Record<string, any>,
+  next: Record<string, any>,
+  provenance: FieldProvenance | ((field: string) => FieldProvenance)
+): FieldChange[] => {
+  const changedAt = new Date();
+  const changes: FieldChange[] = [];
+
+  for (const [field, value] of Object.entries(next)) {
+    if (isSameValue(previous[field], value)) continue;
+
+    changes.push({
+      field,
+      value,
+      previousValue: previous[field] ?? null,
+      changedAt,
+      ...(typeof provenance === 'function' ? provenance(field) : provenance),
+    });
+  }
+
+  return changes;
+};
+
+const isSameValue = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
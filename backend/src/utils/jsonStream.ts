@@ -0,0 +1,71 @@
+/**
+ * JSON Stream Helpers
+ * Read values out of JSON text while it is still being generated
+ */
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+};
+
+/**
+ * Returns a function to feed JSON text chunks into. Once the named string
+ * property starts, its decoded characters are passed to onText as they arrive;
+ * anything after the closing quote is ignored.
+ */
+export const createStringFieldReader = (
+  field: string,
+  onText: (text: string) => void
+): ((chunk: string) => void) => {
+  const opening = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let position = -1;
+  let finished = false;
+
+  return (chunk: string) => {
+    if (finished) return;
+    buffer += chunk;
+
+    if (position < 0) {
+      const match = opening.exec(buffer);
+      if (!match) return;
+      position = match.index + match[0].length;
+    }
+
+    let text = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+
+      if (char === '"') {
+        finished = true;
+        break;
+      }
+
+      if (char === '\\') {
+        // Wait for the rest of an escape sequence split across chunks
+        const next = buffer[position + 1];
+        if (next === undefined) break;
+
+        if (next === 'u') {
+          if (position + 6 > buffer.length) break;
+          text += String.fromCharCode(parseInt(buffer.slice(position + 2, position + 6), 16));
+          position += 6;
+        } else {
+          text += ESCAPES[next] ?? next;
+          position += 2;
+        }
+        continue;
+      }
+
+      text += char;
+      position++;
+    }
+
+    if (text) {
+      onText(text);
+    }
+  };
+};
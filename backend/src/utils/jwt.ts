@@ -0,0 +1,59 @@
+/**
+ * JWT Helpers
+ * Signing and verification of API access tokens
+ */
+
+import jwt from 'jsonwebtoken';
+import { Role, isRole } from './roles';
+
+export interface AuthUser {
+  userId: string;
+  role: Role;
+  phone?: string;
+}
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+
+  return 'development-only-jwt-secret';
+};
+
+/**
+ * Issue an access token for a user
+ */
+export const signToken = (user: AuthUser): string => {
+  const claims: Record<string, string> = { role: user.role };
+  if (user.phone) {
+    claims.phone = user.phone;
+  }
+
+  return jwt.sign(claims, getSecret(), {
+    subject: user.userId,
+    expiresIn: (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'],
+  });
+};
+
+/**
+ * Verify an access token and return the user it was issued to.
+ * Throws if the token is invalid or expired.
+ */
+export const verifyToken = (token: string): AuthUser => {
+  const payload = jwt.verify(token, getSecret()) as jwt.JwtPayload;
+
+  if (!payload.sub) {
+    throw new Error('Token has no subject');
+  }
+
+  if (!isRole(payload.role)) {
+    throw new Error('Token has no valid role');
+  }
+
+  return { userId: payload.sub, role: payload.role, phone: payload.phone };
+};
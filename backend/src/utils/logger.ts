@@ -3,9 +3,18 @@
  */
 
 import winston from 'winston';
+import { redact, redactDeep } from './redaction';
 
 const { combine, timestamp, printf, colorize } = winston.format;
 
+// Scrub PII from the message, stack and any metadata before a transport sees it
+const redactPii = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    info[key] = typeof info[key] === 'string' ? redact(info[key]) : redactDeep(info[key]);
+  }
+  return info;
+});
+
 // Define log format
 const logFormat = printf(({ level, message, timestamp }) => {
   return `${timestamp} [${level}]: ${message}`;
@@ -14,7 +23,10 @@ const logFormat = printf(({ level, message, timestamp }) => {
 // Create logger instance
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
+  // Test runs assert on behaviour, not log output
+  silent: process.env.NODE_ENV === 'test',
   format: combine(
+    redactPii(),
     timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
     logFormat
   ),
@@ -0,0 +1,183 @@
+/**
+ * PII Redaction
+ * Detects Indian identity, bank and contact details in free text. Used to scrub
+ * logs and to keep personal data out of prompts sent to the LLM.
+ */
+
+export type PiiType = 'EMAIL' | 'IFSC' | 'PAN' | 'AADHAAR' | 'PHONE' | 'ACCOUNT_NUMBER';
+
+// Order matters: earlier patterns claim their matches before broader digit patterns run
+const PII_PATTERNS: Array<{ type: PiiType; pattern: RegExp }> = [
+  { type: 'EMAIL', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // 4-letter bank code, a zero, then a 6-character branch code
+  { type: 'IFSC', pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g },
+  // 5 letters, 4 digits, 1 letter; the word boundary skips the PAN embedded in a GSTIN
+  { type: 'PAN', pattern: /\b[A-Z]{5}[0-9]{4}[A-Z]\b/g },
+  // Mobile numbers with an optional +91, 91 or 0 prefix, optionally split 5-5
+  { type: 'PHONE', pattern: /(?:\+91[\s-]?|(?<!\d)(?:91|0)?)[6-9]\d{4}[\s-]?\d{5}(?!\d)/g },
+  // 12 digits not starting with 0 or 1, optionally grouped 4-4-4
+  { type: 'AADHAAR', pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+  // Any 9-18 digits after an account label
+  {
+    type: 'ACCOUNT_NUMBER',
+    pattern: /(?<=\b(?:a\/c|acct|account)(?:\s*(?:no|number))?\.?[\s:#-]*)\d{9,18}\b/gi,
+  },
+  // Bare 9-18 digit runs, except 13-digit epoch-millisecond timestamps (2017-2033) found in logs
+  { type: 'ACCOUNT_NUMBER', pattern: /\b(?!1[5-9]\d{11}\b)\d{9,18}\b/g },
+];
+
+/**
+ * Replace every PII match in a string; the replacer receives the type and the matched text
+ */
+const replacePii = (text: string, replacer: (type: PiiType, match: string) => string): string =>
+  PII_PATTERNS.reduce(
+    (result, { type, pattern }) => result.replace(pattern, match => replacer(type, match)),
+    text
+  );
+
+/**
+ * Redact PII from a string, e.g. "PAN ABCDE1234F" -> "PAN [REDACTED_PAN]"
+ */
+export const redact = (text: string): string =>
+  replacePii(text, type => `[REDACTED_${type}]`);
+
+/**
+ * Redact PII from every string inside a value (objects and arrays are copied)
+ */
+export const redactDeep = <T>(value: T, seen = new WeakSet<object>()): T => {
+  if (typeof value === 'string') {
+    return redact(value) as unknown as T;
+  }
+
+  if (!value || typeof value !== 'object' || seen.has(value as object)) {
+    return value;
+  }
+  seen.add(value as object);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactDeep(item, seen)) as unknown as T;
+  }
+
+  if (value instanceof Error) {
+    const error = new Error(redact(value.message));
+    error.name = value.name;
+    error.stack = value.stack && redact(value.stack);
+    return error as unknown as T;
+  }
+
+  if (value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = redactDeep(item, seen);
+  }
+  return result as T;
+};
+
+/**
+ * Added to prompts whose output should carry placeholders through unchanged
+ */
+export const PLACEHOLDER_INSTRUCTION =
+  'Personal details appear as placeholders such as [PAN_1]. Copy placeholders exactly where the value belongs.';
+
+/**
+ * Swaps PII in prompt inputs for numbered placeholders and puts the original
+ * values back into the model's output. The model can still extract or refer to
+ * a value without ever seeing it. Use one instance per LLM call.
+ */
+export class PromptSanitizer {
+  private placeholders = new Map<string, string>();
+  private byValue = new Map<string, string>();
+  private counts: Partial<Record<PiiType, number>> = {};
+
+  /**
+   * Sanitise every string in a prompt input object
+   */
+  sanitize<T extends Record<string, any>>(input: T): T {
+    const result: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(input)) {
+      result[key] = typeof value === 'string'
+        ? this.sanitizeText(value)
+        : value;
+    }
+
+    return result as T;
+  }
+
+  sanitizeText(text: string): string {
+    return replacePii(text, (type, match) => {
+      const existing = this.byValue.get(match);
+      if (existing) {
+        return existing;
+      }
+
+      this.counts[type] = (this.counts[type] || 0) + 1;
+      const placeholder = `[${type}_${this.counts[type]}]`;
+      this.placeholders.set(placeholder, match);
+      this.byValue.set(match, placeholder);
+      return placeholder;
+    });
+  }
+
+  /**
+   * Put the original values back in place of their placeholders
+   */
+  restore(output: string): string {
+    let result = output;
+    for (const [placeholder, value] of this.placeholders) {
+      result = result.split(placeholder).join(value);
+    }
+    return result;
+  }
+}
+
+/**
+ * Invoke a chain with PII swapped out of its input and restored in its output.
+ * Every LangChain call that may carry merchant data should go through this.
+ */
+export const invokeSanitized = async <T extends Record<string, any>>(
+  chain: { invoke(input: T): Promise<string> },
+  input: T
+): Promise<string> => {
+  const sanitizer = new PromptSanitizer();
+  const output = await chain.invoke(sanitizer.sanitize(input));
+  return sanitizer.restore(output);
+};
+
+// Longest placeholder the sanitizer produces, e.g. "[ACCOUNT_NUMBER_12]"
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+/**
+ * Stream a chain's output with PII swapped out of its input and restored in
+ * each chunk. A trailing "[" that may start a placeholder split across chunks
+ * is held back until the placeholder is complete.
+ */
+export async function* streamSanitized<T extends Record<string, any>>(
+  chain: { stream(input: T): Promise<AsyncIterable<string>> },
+  input: T
+): AsyncGenerator<string> {
+  const sanitizer = new PromptSanitizer();
+  const stream = await chain.stream(sanitizer.sanitize(input));
+  let pending = '';
+
+  for await (const chunk of stream) {
+    pending += chunk;
+
+    const open = pending.lastIndexOf('[');
+    const holdFrom = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH
+      ? open
+      : pending.length;
+
+    if (holdFrom > 0) {
+      yield sanitizer.restore(pending.slice(0, holdFrom));
+      pending = pending.slice(holdFrom);
+    }
+  }
+
+  if (pending) {
+    yield sanitizer.restore(pending);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Roles and Permissions
+ * Maps each user role to the actions it may perform
+ */
+
+export type Role = 'merchant' | 'reviewer' | 'senior_reviewer' | 'admin';
+
+export type Permission =
+  | 'application:read'
+  | 'application:decide'
+  | 'application:override'
+  | 'pii:read';
+
+export const ROLES: Role[] = ['merchant', 'reviewer', 'senior_reviewer', 'admin'];
+
+/**
+ * Merchants have no staff permissions; they reach their own sessions
+ * through session ownership instead. Without pii:read, identity and bank
+ * details are masked in responses.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  merchant: [],
+  reviewer: ['application:read', 'application:decide'],
+  senior_reviewer: ['application:read', 'application:decide', 'application:override', 'pii:read'],
+  admin: ['application:read', 'application:decide', 'application:override', 'pii:read'],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as string[]).includes(value);
+
+/**
+ * Check whether a role grants a permission
+ */
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
@@ -0,0 +1,119 @@
+/**
+ * Sensitive Data Helpers
+ * Which fields hold identity and bank details, and how they are masked for display
+ */
+
+import { OnboardingSession } from '../stores/SessionStore';
+
+// merchantData names plus the snake_case keys DocumentProcessor extracts
+export const SENSITIVE_FIELDS = new Set([
+  'pan',
+  'aadhaar',
+  'accountNumber',
+  'account_number',
+  'ifscCode',
+  'ifsc',
+]);
+
+const VISIBLE_CHARS = 4;
+
+/**
+ * Mask all but the last four characters, like maskAccountNumber in ReviewSubmit
+ */
+export const maskValue = (value: unknown): unknown => {
+  if (value === null || value === undefined || value === '') {
+    return value;
+  }
+
+  const text = String(value);
+  if (text.length <= VISIBLE_CHARS) {
+    return '*'.repeat(text.length);
+  }
+
+  return '*'.repeat(text.length - VISIBLE_CHARS) + text.slice(-VISIBLE_CHARS);
+};
+
+/**
+ * Apply a function to the sensitive keys of a flat record, leaving the rest as is
+ */
+export const mapSensitiveFields = <T extends Record<string, any>>(
+  record: T | undefined,
+  fn: (value: unknown) => unknown
+): T | undefined => {
+  if (!record) {
+    return record;
+  }
+
+  const result: Record<string, any> = { ...record };
+  for (const key of Object.keys(result)) {
+    if (SENSITIVE_FIELDS.has(key)) {
+      result[key] = fn(result[key]);
+    }
+  }
+
+  return result as T;
+};
+
+export const maskFields = <T extends Record<string, any>>(record: T | undefined): T | undefined =>
+  mapSensitiveFields(record, maskValue);
+
+/**
+ * Apply a function to every sensitive value held anywhere in a session:
+ * merchant data, field history, extracted document data and AI data updates
+ */
+export const mapSessionSensitiveData = (
+  session: OnboardingSession,
+  fn: (value: unknown) => unknown
+): OnboardingSession => ({
+  ...session,
+  merchantData: mapSensitiveFields(session.merchantData, fn),
+  fieldHistory: session.fieldHistory.map(change => (
+    SENSITIVE_FIELDS.has(change.field)
+      ? { ...change, value: fn(change.value), previousValue: fn(change.previousValue) }
+      : change
+  )),
+  documents: session.documents.map(document => ({
+    ...document,
+    extractedData: mapSensitiveFields(document.extractedData, fn),
+  })),
+  conversationHistory: session.conversationHistory.map(message => (
+    message.metadata?.dataUpdates
+      ? {
+        ...message,
+        metadata: { ...message.metadata, dataUpdates: mapSensitiveFields(message.metadata.dataUpdates, fn) },
+      }
+      : message
+  )),
+});
+
+/**
+ * Mask a session for callers who may not see identity and bank details in full
+ */
+export const maskSession = (session: OnboardingSession): OnboardingSession =>
+  mapSessionSensitiveData(session, maskValue);
+
+/**
+ * Clients that were sent masked values may send them back unchanged.
+ * Drop those so the stored value is not overwritten with its mask.
+ */
+export const dropMaskedEchoes = (
+  incoming: Record<string, any> | undefined,
+  current: Record<string, any>
+): Record<string, any> | undefined => {
+  if (!incoming) {
+    return incoming;
+  }
+
+  const result = { ...incoming };
+  for (const key of Object.keys(result)) {
+    if (
+      SENSITIVE_FIELDS.has(key) &&
+      current[key] !== undefined &&
+      result[key] === maskValue(current[key])
+    ) {
+      delete result[key];
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,48 @@
+/**
+ * Server-Sent Events
+ * Minimal helper for writing an event stream to an Express response
+ */
+
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  readonly closed: boolean;
+}
+
+/**
+ * Switch the response to text/event-stream. Sends are ignored once the client has gone.
+ */
+export const openEventStream = (res: Response): EventStream => {
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(': stream open\n\n');
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+  };
+};
@@ -7,6 +7,7 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { LandingPage } from './components/LandingPage';
 import { OnboardingFlow } from './components/OnboardingFlow';
+import { LoginPage } from './components/LoginPage';
 import './styles/index.css';
 import './styles/landing.css';
 import './styles/onboarding.css';
@@ -19,6 +20,9 @@ const App: React.FC = () => {
           {/* Landing page route */}
           <Route path="/" element={<LandingPage />} />
 
+          {/* Mobile login and application picker */}
+          <Route path="/login" element={<LoginPage />} />
+
           {/* Main onboarding route */}
           <Route path="/onboarding" element={<OnboardingFlow />} />
 
@@ -0,0 +1,56 @@
+/**
+ * Auth API Service
+ * Token issuance for merchants
+ */
+
+import { apiClient } from './client';
+import {
+  APIResponse,
+  AuthTokenResponse,
+  OtpRequestResponse,
+  OtpVerifyResponse,
+} from '../types/onboarding';
+
+const TOKEN_KEY = 'auth_token';
+
+export const authAPI = {
+  /**
+   * Get an anonymous token for a merchant who has not signed in
+   */
+  async createGuestToken(): Promise<APIResponse<AuthTokenResponse>> {
+    return apiClient.post('/auth/guest');
+  },
+
+  /**
+   * Make sure a token is stored, requesting a guest token if needed
+   */
+  async ensureToken(): Promise<void> {
+    if (localStorage.getItem(TOKEN_KEY)) return;
+
+    const response = await this.createGuestToken();
+    if (response.success && response.data) {
+      localStorage.setItem(TOKEN_KEY, response.data.token);
+    }
+  },
+
+  /**
+   * Send a login code to a mobile number
+   */
+  async requestOtp(phone: string): Promise<APIResponse<OtpRequestResponse>> {
+    return apiClient.post('/auth/otp/request', { phone });
+  },
+
+  /**
+   * Verify a login code and store the returned token.
+   * Sessions started as a guest are moved to the verified number.
+   */
+  async verifyOtp(phone: string, otp: string): Promise<APIResponse<OtpVerifyResponse>> {
+    const response = await apiClient.post<APIResponse<OtpVerifyResponse>>('/auth/otp/verify', { phone, otp });
+    if (response.success && response.data) {
+      localStorage.setItem(TOKEN_KEY, response.data.token);
+    }
+    return response;
+  },
+};
+
+export default authAPI;
@@ -7,8 +7,117 @@ import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
+/**
+ * Raised when a versioned write is rejected because the session changed on the server
+ */
+export class ConflictError extends Error {
+  constructor(
+    public serverData: Record<string, any>,
+    public serverVersion: string | undefined
+  ) {
+    super('Your changes conflict with a newer version of this application');
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Raised when an application is submitted again; applicationId is the one issued the first time
+ */
+export class AlreadySubmittedError extends Error {
+  constructor(message: string, public applicationId: string | undefined) {
+    super(message);
+    this.name = 'AlreadySubmittedError';
+  }
+}
+
+/**
+ * Raised when the server rate-limits a request; retryAfterSeconds comes from Retry-After
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds: number | undefined) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Raised when a verification or submission needs a consent the merchant has not granted
+ */
+export class ConsentRequiredError extends Error {
+  constructor(
+    message: string,
+    public purpose: string,
+    public currentVersion: string | undefined
+  ) {
+    super(message);
+    this.name = 'ConsentRequiredError';
+  }
+}
+
+/**
+ * Raised for failures worth retrying: no response, a 5xx, or a duplicate
+ * request the server is still processing
+ */
+export class RetryableError extends Error {
+  constructor(message: string, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+/**
+ * Raised when a streaming request could not be opened (no fetch streaming in
+ * the browser, a network failure, or a server without the endpoint), so the
+ * caller can fall back to a plain request
+ */
+export class StreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamUnavailableError';
+  }
+}
+
+/**
+ * Reconciles local changes with the server's current data after a conflict.
+ * `base` is the data the local changes were made against. Return the data to
+ * retry with, or null to give up and surface the conflict.
+ */
+export type ConflictResolver = (
+  local: Record<string, any>,
+  server: Record<string, any>,
+  base: Record<string, any>
+) => Record<string, any> | null | Promise<Record<string, any> | null>;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// By default only the fields changed locally since the base are re-applied.
+// If the server changed one of those fields too, the conflict is surfaced.
+const reapplyLocalChanges: ConflictResolver = (local, server, base) => {
+  const changes: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(local)) {
+    if (sameValue(value, base[field])) continue;
+    if (!sameValue(server[field], base[field]) && !sameValue(server[field], value)) {
+      return null;
+    }
+    changes[field] = value;
+  }
+
+  return changes;
+};
+
+// Retries for requests sent with an Idempotency-Key, with exponential backoff
+const IDEMPOTENT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 class APIClient {
   private client: AxiosInstance;
+  private sessionVersions = new Map<string, string>();
+  // Merchant data as of the last versioned write, the base for resolving conflicts
+  private sessionData = new Map<string, Record<string, any>>();
+  private conflictResolver: ConflictResolver = reapplyLocalChanges;
 
   constructor() {
     this.client = axios.create({
@@ -54,9 +163,13 @@ class APIClient {
           localStorage.setItem('onboarding_session_id', sessionId);
         }
 
+        this.trackVersion(response.headers);
         return response;
       },
       (error: AxiosError) => {
+        if (error.response) {
+          this.trackVersion(error.response.headers);
+        }
         return Promise.reject(this.handleError(error));
       }
     );
@@ -65,36 +178,307 @@ class APIClient {
   private handleError(error: AxiosError) {
     if (error.response) {
       // Server responded with error status
-      const status = error.response.status;
-      const data: any = error.response.data;
-
-      switch (status) {
-        case 400:
-          return new Error(data?.error?.message || 'Invalid request');
-        case 401:
-          return new Error('Unauthorized. Please log in again.');
-        case 403:
-          return new Error('Access denied');
-        case 404:
-          return new Error('Resource not found');
-        case 422:
-          return new Error(data?.error?.message || 'Validation failed');
-        case 429:
-          return new Error('Too many requests. Please try again later.');
-        case 500:
-          return new Error('Server error. Please try again later.');
-        default:
-          return new Error(data?.error?.message || 'An error occurred');
-      }
+      return this.errorForStatus(error.response.status, error.response.data, error.response.headers);
     } else if (error.request) {
       // Request was made but no response
-      return new Error('Network error. Please check your connection.');
+      return new RetryableError('Network error. Please check your connection.');
     } else {
       // Something else happened
       return new Error(error.message || 'An unexpected error occurred');
     }
   }
 
+  // Map an error response to the error callers handle; header names are lowercase
+  private errorForStatus(status: number, data: any, headers: Record<string, any>) {
+    switch (status) {
+      case 400:
+        return new Error(data?.error?.message || 'Invalid request');
+      case 401:
+        return new Error('Unauthorized. Please log in again.');
+      case 403:
+        if (data?.error?.code === 'CONSENT_REQUIRED') {
+          return new ConsentRequiredError(
+            data.error.message,
+            data.error.details?.purpose,
+            data.error.details?.currentVersion
+          );
+        }
+        return new Error('Access denied');
+      case 404:
+        return new Error('Resource not found');
+      case 409:
+        if (data?.error?.code === 'IDEMPOTENCY_IN_PROGRESS') {
+          return new RetryableError('Your previous request is still being processed', 1);
+        }
+        if (data?.error?.code === 'ALREADY_SUBMITTED') {
+          return new AlreadySubmittedError(data.error.message, data.error.details?.applicationId);
+        }
+        return new ConflictError(
+          data?.error?.details?.merchantData || {},
+          headers['etag']
+        );
+      case 422:
+        return new Error(data?.error?.message || 'Validation failed');
+      case 429: {
+        const retryAfter = parseInt(headers['retry-after'], 10);
+        return new RateLimitError(
+          Number.isFinite(retryAfter)
+            ? `Too many requests. Please try again in ${retryAfter} seconds.`
+            : 'Too many requests. Please try again later.',
+          Number.isFinite(retryAfter) ? retryAfter : undefined
+        );
+      }
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        return new RetryableError('Server error. Please try again later.');
+      default:
+        return new Error(data?.error?.message || 'An error occurred');
+    }
+  }
+
+  // Remember the latest ETag (session version) seen for each session
+  private trackVersion(headers: Record<string, any>) {
+    const sessionId = headers['x-session-id'];
+    const etag = headers['etag'];
+    if (sessionId && etag) {
+      this.sessionVersions.set(sessionId, etag);
+    }
+  }
+
+  /**
+   * POST and read a Server-Sent Events response, calling onEvent for each event.
+   * Throws StreamUnavailableError if the stream could not be opened.
+   */
+  async stream(
+    url: string,
+    data: any,
+    onEvent: (event: string, data: any) => void
+  ): Promise<void> {
+    if (typeof fetch !== 'function' || typeof ReadableStream === 'undefined') {
+      throw new StreamUnavailableError('Streaming is not supported in this browser');
+    }
+
+    // Same headers the axios request interceptor adds
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    };
+    const sessionId = localStorage.getItem('onboarding_session_id');
+    if (sessionId) {
+      headers['X-Session-ID'] = sessionId;
+    }
+    const token = localStorage.getItem('auth_token');
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}${url}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(data),
+      });
+    } catch {
+      throw new StreamUnavailableError('Network error. Please check your connection.');
+    }
+
+    if (!response.ok) {
+      if (response.status === 404 || response.status === 405 || response.status === 501) {
+        throw new StreamUnavailableError('Streaming is not available');
+      }
+
+      const body = await response.json().catch(() => null);
+      throw this.errorForStatus(response.status, body, {
+        etag: response.headers.get('etag'),
+        'retry-after': response.headers.get('retry-after'),
+      });
+    }
+
+    if (!response.body || !(response.headers.get('content-type') || '').includes('text/event-stream')) {
+      throw new StreamUnavailableError('Streaming is not available');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        this.dispatchEvent(buffer.slice(0, boundary), onEvent);
+        buffer = buffer.slice(boundary + 2);
+      }
+    }
+  }
+
+  /**
+   * Open a WebSocket to the API and call onMessage with each JSON message.
+   * The connection is reopened with backoff when it drops; call the returned
+   * function to close it for good.
+   */
+  subscribe(
+    url: string,
+    params: Record<string, string>,
+    onMessage: (data: any) => void
+  ): () => void {
+    if (typeof WebSocket === 'undefined') {
+      return () => {};
+    }
+
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const open = () => {
+      // Browsers cannot set headers on a WebSocket, so the token goes in the query
+      const query = new URLSearchParams(params);
+      const token = localStorage.getItem('auth_token');
+      if (token) {
+        query.set('token', token);
+      }
+
+      socket = new WebSocket(`${API_BASE_URL.replace(/^http/, 'ws')}${url}?${query}`);
+      socket.onopen = () => {
+        attempts = 0;
+      };
+      socket.onmessage = (event) => {
+        try {
+          onMessage(JSON.parse(event.data));
+        } catch {
+          // Ignore messages that are not JSON
+        }
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempts, 30000);
+        attempts++;
+        retryTimer = setTimeout(open, delay);
+      };
+    };
+
+    open();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }
+
+  // Parse one SSE block; "session" events update the tracked version like response headers do
+  private dispatchEvent(block: string, onEvent: (event: string, data: any) => void) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    // Comment-only blocks keep the connection open and carry no data
+    if (dataLines.length === 0) return;
+
+    const data = JSON.parse(dataLines.join('\n'));
+    if (event === 'session') {
+      this.trackVersion({ 'x-session-id': data.sessionId, etag: data.etag });
+      return;
+    }
+
+    onEvent(event, data);
+  }
+
+  /**
+   * Set the callback used to reconcile local changes after a 409 conflict
+   */
+  onConflict(resolver: ConflictResolver) {
+    this.conflictResolver = resolver;
+  }
+
+  /**
+   * Send a request with a fresh Idempotency-Key, resending it with the same key
+   * if the network drops or the server fails, so the server applies it at most once
+   */
+  private async withIdempotencyKey<T>(send: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+    const headers = { 'Idempotency-Key': crypto.randomUUID() };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send(headers);
+      } catch (error) {
+        if (!(error instanceof RetryableError) || attempt >= IDEMPOTENT_RETRIES) {
+          throw error;
+        }
+
+        await sleep(
+          error.retryAfterSeconds !== undefined
+            ? error.retryAfterSeconds * 1000
+            : RETRY_BASE_DELAY_MS * 2 ** attempt
+        );
+      }
+    }
+  }
+
+  /**
+   * Write merchant data guarded by If-Match. On a conflict the resolver is
+   * asked to merge the local `data` with the server's, and the write is retried once.
+   * With `idempotent`, each attempt also carries an Idempotency-Key.
+   */
+  async versioned<T>(
+    method: 'post' | 'patch',
+    url: string,
+    sessionId: string,
+    body: { data: Record<string, any>; [key: string]: any },
+    options: { idempotent?: boolean } = {}
+  ): Promise<T> {
+    const request = async (payload: typeof body, headers: Record<string, string> = {}) => {
+      const version = this.sessionVersions.get(sessionId);
+      const response = await this.client.request<T>({
+        method,
+        url,
+        data: payload,
+        headers: version ? { ...headers, 'If-Match': version } : headers,
+      });
+      return response.data;
+    };
+
+    const send = async (payload: typeof body, base: Record<string, any>) => {
+      const result = options.idempotent
+        ? await this.withIdempotencyKey((headers) => request(payload, headers))
+        : await request(payload);
+      this.sessionData.set(sessionId, { ...base, ...payload.data });
+      return result;
+    };
+
+    try {
+      return await send(body, this.sessionData.get(sessionId) || {});
+    } catch (error) {
+      if (!(error instanceof ConflictError)) {
+        throw error;
+      }
+
+      const base = this.sessionData.get(sessionId) || {};
+      this.sessionData.set(sessionId, error.serverData);
+
+      const merged = await this.conflictResolver(body.data, error.serverData, base);
+      if (!merged) {
+        throw error;
+      }
+      return send({ ...body, data: merged }, error.serverData);
+    }
+  }
+
   // HTTP Methods
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.get<T>(url, config);
@@ -106,6 +490,17 @@ class APIClient {
     return response.data;
   }
 
+  // POST that is safe to retry: see withIdempotencyKey
+  async postIdempotent<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+    return this.withIdempotencyKey(async (headers) => {
+      const response = await this.client.post<T>(url, data, {
+        ...config,
+        headers: { ...config?.headers, ...headers },
+      });
+      return response.data;
+    });
+  }
+
   async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.put<T>(url, data, config);
     return response.data;
@@ -137,19 +532,22 @@ class APIClient {
       });
     }
 
-    const response = await this.client.post<T>(url, formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-      onUploadProgress: (progressEvent) => {
-        if (onProgress && progressEvent.total) {
-          const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-          onProgress(progress);
-        }
-      },
-    });
+    return this.withIdempotencyKey(async (headers) => {
+      const response = await this.client.post<T>(url, formData, {
+        headers: {
+          ...headers,
+          'Content-Type': 'multipart/form-data',
+        },
+        onUploadProgress: (progressEvent) => {
+          if (onProgress && progressEvent.total) {
+            const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
+            onProgress(progress);
+          }
+        },
+      });
 
-    return response.data;
+      return response.data;
+    });
   }
 }
 
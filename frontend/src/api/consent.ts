@@ -0,0 +1,54 @@
+/**
+ * Consent API Service
+ * Consent texts and the merchant's consent ledger
+ */
+
+import { apiClient } from './client';
+import {
+  APIResponse,
+  ConsentPurpose,
+  ConsentText,
+  ConsentStatus,
+  ConsentRecord,
+} from '../types/onboarding';
+
+export const consentAPI = {
+  /**
+   * Current consent texts, one per purpose
+   */
+  async getTexts(): Promise<APIResponse<{ texts: ConsentText[] }>> {
+    return apiClient.get('/consent/texts');
+  },
+
+  /**
+   * Consent status and ledger for a session
+   */
+  async getConsents(
+    sessionId: string
+  ): Promise<APIResponse<{ consents: ConsentStatus[]; ledger: ConsentRecord[] }>> {
+    return apiClient.get(`/consent/${sessionId}`);
+  },
+
+  /**
+   * Grant consent; `version` must be the version of the text shown to the merchant
+   */
+  async grant(
+    sessionId: string,
+    purpose: ConsentPurpose,
+    version: string
+  ): Promise<APIResponse<{ record: ConsentRecord }>> {
+    return apiClient.post(`/consent/${sessionId}/grant`, { purpose, version });
+  },
+
+  /**
+   * Withdraw a previously granted consent
+   */
+  async withdraw(
+    sessionId: string,
+    purpose: ConsentPurpose
+  ): Promise<APIResponse<{ record: ConsentRecord }>> {
+    return apiClient.post(`/consent/${sessionId}/withdraw`, { purpose });
+  },
+};
+
+export default consentAPI;
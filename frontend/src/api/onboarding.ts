@@ -7,12 +7,20 @@ import { apiClient } from './client';
 import {
   APIResponse,
   SendMessageResponse,
+  AIResponse,
   UploadDocumentResponse,
   ValidateFieldResponse,
   EnrichDataResponse,
   OnboardingSession,
   MerchantData,
   DocumentType,
+  FieldHistoryResponse,
+  SessionSummary,
+  LanguageCode,
+  SessionLanguage,
+  SupportedLanguage,
+  TelemetryEvent,
+  ProactiveIntervention,
 } from '../types/onboarding';
 
 export const onboardingAPI = {
@@ -25,6 +33,39 @@ export const onboardingAPI = {
     });
   },
 
+  /**
+   * List the signed-in merchant's sessions
+   */
+  async listSessions(): Promise<APIResponse<{ sessions: SessionSummary[] }>> {
+    return apiClient.get('/onboarding/sessions');
+  },
+
+  /**
+   * Erase a session and its personal data
+   */
+  async deleteSession(
+    sessionId: string
+  ): Promise<APIResponse<{ erasedAt: string; deleted: Record<string, any> }>> {
+    return apiClient.delete(`/onboarding/session/${sessionId}`);
+  },
+
+  /**
+   * List the languages the agent can converse in
+   */
+  async listLanguages(): Promise<APIResponse<{ languages: SupportedLanguage[] }>> {
+    return apiClient.get('/onboarding/languages');
+  },
+
+  /**
+   * Choose the language the agent replies in
+   */
+  async setLanguage(
+    sessionId: string,
+    language: LanguageCode
+  ): Promise<APIResponse<{ language: SessionLanguage }>> {
+    return apiClient.put(`/onboarding/session/${sessionId}/language`, { language });
+  },
+
   /**
    * Send a message to the AI agent
    */
@@ -40,6 +81,52 @@ export const onboardingAPI = {
     });
   },
 
+  /**
+   * Send a message and stream the reply, calling onToken as text arrives.
+   * Throws StreamUnavailableError when the caller should fall back to sendMessage.
+   */
+  async streamMessage(
+    sessionId: string,
+    message: string,
+    onToken: (text: string) => void
+  ): Promise<SendMessageResponse> {
+    const response: AIResponse = { message: '' };
+    let result: SendMessageResponse | null = null;
+    let failure: Error | null = null;
+
+    await apiClient.stream('/onboarding/send-message/stream', { sessionId, message }, (event, data) => {
+      switch (event) {
+        case 'token':
+          onToken(data.text);
+          break;
+        case 'suggestedActions':
+          response.suggestedActions = data;
+          break;
+        case 'dataUpdates':
+          response.dataUpdates = data;
+          break;
+        case 'nextStep':
+          response.nextStep = data || undefined;
+          break;
+        case 'citations':
+          response.citations = data.length > 0 ? data : undefined;
+          break;
+        case 'done':
+          response.message = data.message;
+          result = { response, updatedContext: data.updatedContext };
+          break;
+        case 'error':
+          failure = new Error(data.message || 'Failed to send message');
+          break;
+      }
+    });
+
+    if (failure) throw failure;
+    if (!result) throw new Error('The reply was interrupted. Please try again.');
+
+    return result;
+  },
+
   /**
    * Upload and process a document
    */
@@ -93,6 +180,31 @@ export const onboardingAPI = {
     });
   },
 
+  /**
+   * Send a batch of behaviour events
+   */
+  async sendTelemetry(
+    sessionId: string,
+    events: TelemetryEvent[]
+  ): Promise<APIResponse<{ received: number }>> {
+    return apiClient.post('/onboarding/telemetry', { sessionId, sentAt: Date.now(), events });
+  },
+
+  /**
+   * Receive proactive help the server pushes for a session. Returns a
+   * function that closes the channel.
+   */
+  subscribeToInterventions(
+    sessionId: string,
+    onIntervention: (intervention: ProactiveIntervention) => void
+  ): () => void {
+    return apiClient.subscribe('/onboarding/interventions', { sessionId }, (message) => {
+      if (message?.type === 'intervention' && message.intervention) {
+        onIntervention(message.intervention);
+      }
+    });
+  },
+
   /**
    * Get current session progress
    */
@@ -100,6 +212,18 @@ export const onboardingAPI = {
     return apiClient.get(`/onboarding/progress/${sessionId}`);
   },
 
+  /**
+   * Get field-level change history, optionally for a single field
+   */
+  async getHistory(
+    sessionId: string,
+    field?: keyof MerchantData
+  ): Promise<APIResponse<FieldHistoryResponse>> {
+    return apiClient.get(`/onboarding/history/${sessionId}`, {
+      params: field ? { field } : undefined,
+    });
+  },
+
   /**
    * Update merchant data
    */
@@ -107,7 +231,7 @@ export const onboardingAPI = {
     sessionId: string,
     data: Partial<MerchantData>
   ): Promise<APIResponse<any>> {
-    return apiClient.patch(`/onboarding/data/${sessionId}`, { data });
+    return apiClient.versioned('patch', `/onboarding/data/${sessionId}`, sessionId, { data });
   },
 
   /**
@@ -117,10 +241,13 @@ export const onboardingAPI = {
     sessionId: string,
     data: Partial<MerchantData>
   ): Promise<APIResponse<any>> {
-    return apiClient.post('/onboarding/submit', {
+    return apiClient.versioned(
+      'post',
+      '/onboarding/submit',
       sessionId,
-      data,
-    });
+      { sessionId, data },
+      { idempotent: true }
+    );
   },
 
   /**
@@ -130,7 +257,7 @@ export const onboardingAPI = {
     sessionId: string,
     data: Partial<MerchantData>
   ): Promise<APIResponse<any>> {
-    return apiClient.post('/onboarding/save-draft', {
+    return apiClient.versioned('post', '/onboarding/save-draft', sessionId, {
       sessionId,
       data,
     });
@@ -148,10 +275,10 @@ export const onboardingAPI = {
    */
   async verifyInfo(
     sessionId: string,
-    verificationType: 'pan' | 'gstin' | 'bank_account',
+    verificationType: 'pan' | 'gstin' | 'bank_account' | 'aadhaar',
     data: any
   ): Promise<APIResponse<any>> {
-    return apiClient.post('/onboarding/verify', {
+    return apiClient.postIdempotent('/onboarding/verify', {
       sessionId,
       verificationType,
       data,
@@ -4,16 +4,28 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ConversationMessage, OnboardingStep } from '../types/onboarding';
+import {
+  ConversationMessage,
+  OnboardingStep,
+  LanguageCode,
+  SupportedLanguage,
+  ProactiveIntervention,
+} from '../types/onboarding';
 
 interface AIAssistantProps {
   conversationHistory: ConversationMessage[];
   suggestedActions?: string[];
   onSendMessage: (message: string) => void;
   isProcessing: boolean;
+  streamingMessage?: string | null;
+  languages?: SupportedLanguage[];
+  language?: LanguageCode;
+  onChangeLanguage?: (language: LanguageCode) => void;
   minimized: boolean;
   onToggleMinimize: () => void;
   currentStep: OnboardingStep;
+  intervention?: ProactiveIntervention | null;
+  onDismissIntervention?: () => void;
 }
 
 export const AIAssistant: React.FC<AIAssistantProps> = ({
@@ -21,9 +33,15 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
   suggestedActions,
   onSendMessage,
   isProcessing,
+  streamingMessage,
+  languages,
+  language,
+  onChangeLanguage,
   minimized,
   onToggleMinimize,
   currentStep,
+  intervention,
+  onDismissIntervention,
 }) => {
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -33,7 +51,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [conversationHistory]);
+  }, [conversationHistory, streamingMessage]);
 
   // Simulate typing indicator
   useEffect(() => {
@@ -72,6 +90,13 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
     return names[step] || step;
   };
 
+  // Accepting pushed help asks the agent for its first suggested action
+  const handleAcceptIntervention = () => {
+    if (!intervention) return;
+    onSendMessage(intervention.suggestedActions[0] || intervention.message);
+    onDismissIntervention?.();
+  };
+
   return (
     <div className={`ai-assistant ${minimized ? 'minimized' : ''}`}>
       {/* Header */}
@@ -88,11 +113,35 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
             </p>
           </div>
         </div>
+        {languages && languages.length > 0 && onChangeLanguage && (
+          <select
+            className="language-select"
+            aria-label="Reply language"
+            value={language || 'en'}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => onChangeLanguage(e.target.value as LanguageCode)}
+          >
+            {languages.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.nativeName}
+              </option>
+            ))}
+          </select>
+        )}
         <button className="minimize-button">
           {minimized ? '▲' : '▼'}
         </button>
       </div>
 
+      {/* Help pushed by the server, shown even while the chat is minimized */}
+      {intervention && onDismissIntervention && (
+        <ProactiveHelpTooltip
+          message={intervention.message}
+          onAccept={handleAcceptIntervention}
+          onDismiss={onDismissIntervention}
+        />
+      )}
+
       {/* Chat Body */}
       {!minimized && (
         <>
@@ -145,6 +194,14 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                       ))}
                     </div>
                   )}
+                  {message.metadata?.citations && (
+                    <p className="message-sources">
+                      Sources:{' '}
+                      {message.metadata.citations
+                        .map((citation) => citation.section)
+                        .join('; ')}
+                    </p>
+                  )}
                   <span className="timestamp">
                     {new Date(message.timestamp).toLocaleTimeString([], {
                       hour: '2-digit',
@@ -158,8 +215,21 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
               </div>
             ))}
 
+            {/* Reply still being streamed */}
+            {streamingMessage && (
+              <div className="message agent streaming">
+                <div className="message-avatar">🤖</div>
+                <div className="message-content">
+                  <p>
+                    {streamingMessage}
+                    <span className="streaming-cursor" />
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Typing Indicator */}
-            {isTyping && (
+            {isTyping && !streamingMessage && (
               <div className="message agent">
                 <div className="message-avatar">🤖</div>
                 <div className="typing-indicator">
@@ -0,0 +1,107 @@
+/**
+ * Consent Prompt Component
+ * Asks the merchant for a consent that later checks depend on
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ConsentPurpose, ConsentText } from '../types/onboarding';
+import { consentAPI } from '../api/consent';
+
+interface ConsentPromptProps {
+  sessionId?: string | null;
+  purpose: ConsentPurpose;
+  onGranted: () => void;
+}
+
+export const ConsentPrompt: React.FC<ConsentPromptProps> = ({
+  sessionId,
+  purpose,
+  onGranted,
+}) => {
+  const [consentText, setConsentText] = useState<ConsentText | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [granting, setGranting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A grant of the current text from earlier in the session is not asked for again
+  const load = async () => {
+    if (!sessionId) return;
+    setLoadFailed(false);
+
+    try {
+      const [texts, consents] = await Promise.all([
+        consentAPI.getTexts(),
+        consentAPI.getConsents(sessionId),
+      ]);
+
+      const status = consents.data?.consents.find(consent => consent.purpose === purpose);
+      if (status?.granted && status.textVersion === status.currentVersion) {
+        onGranted();
+        return;
+      }
+
+      const text = texts.data?.texts.find(text => text.purpose === purpose);
+      if (!text) throw new Error(`No consent text for ${purpose}`);
+      setConsentText(text);
+    } catch (err) {
+      console.error('Failed to load consent:', err);
+      setLoadFailed(true);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [sessionId, purpose]);
+
+  const handleGrant = async () => {
+    if (!sessionId || !consentText) return;
+
+    setGranting(true);
+    setError(null);
+
+    try {
+      await consentAPI.grant(sessionId, purpose, consentText.version);
+      onGranted();
+    } catch (err) {
+      setError(`Could not record your consent: ${(err as Error).message}`);
+    } finally {
+      setGranting(false);
+    }
+  };
+
+  return (
+    <div className="info-box consent-prompt">
+      <div className="info-icon">🔐</div>
+      <div className="info-content">
+        {loadFailed ? (
+          <>
+            <h4>We need your permission</h4>
+            <div className="field-error">
+              The consent text could not be loaded, so we cannot ask for your permission yet.
+            </div>
+            <button className="text-button" onClick={load}>
+              Try again
+            </button>
+          </>
+        ) : consentText ? (
+          <>
+            <h4>{consentText.title}</h4>
+            <p>{consentText.text}</p>
+            <button
+              className="primary-button"
+              onClick={handleGrant}
+              disabled={granting}
+            >
+              {granting ? 'Saving...' : 'I agree'}
+            </button>
+            {error && <div className="field-error">{error}</div>}
+          </>
+        ) : (
+          <p>Loading...</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConsentPrompt;
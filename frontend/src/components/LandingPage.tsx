@@ -45,7 +45,9 @@ export const LandingPage: React.FC = () => {
               <a href="#how-it-works">How it Works</a>
               <a href="#pricing">Pricing</a>
               <a href="#contact">Contact</a>
-              <button className="btn-secondary">Login</button>
+              <button className="btn-secondary" onClick={() => navigate('/login')}>
+                Login
+              </button>
               <button className="btn-primary" onClick={handleGetStarted}>
                 Get Started
               </button>
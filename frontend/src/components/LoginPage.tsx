@@ -0,0 +1,182 @@
+/**
+ * Login Page Component
+ * Mobile OTP login, then a choice of the merchant's applications to continue
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SessionSummary } from '../types/onboarding';
+import { authAPI } from '../api/auth';
+import { onboardingAPI } from '../api/onboarding';
+
+type LoginStep = 'phone' | 'code' | 'sessions';
+
+// Sessions that can be picked up again where they were left
+const RESUMABLE = new Set<SessionSummary['status']>(['in_progress', 'paused']);
+
+export const LoginPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [step, setStep] = useState<LoginStep>('phone');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequestCode = () =>
+    run(async () => {
+      await authAPI.requestOtp(phone);
+      setStep('code');
+    });
+
+  const handleVerifyCode = () =>
+    run(async () => {
+      // A guest token, if any, lets the server move this device's sessions to the number
+      await authAPI.verifyOtp(phone, code);
+
+      const response = await onboardingAPI.listSessions();
+      const list = response.data?.sessions || [];
+      if (!list.some(session => RESUMABLE.has(session.status))) {
+        startNew();
+        return;
+      }
+
+      setSessions(list);
+      setStep('sessions');
+    });
+
+  const resume = (sessionId: string) => {
+    localStorage.setItem('onboarding_session_id', sessionId);
+    navigate('/onboarding');
+  };
+
+  const startNew = () => {
+    localStorage.removeItem('onboarding_session_id');
+    navigate('/onboarding');
+  };
+
+  return (
+    <div className="login-page">
+      {step === 'phone' && (
+        <>
+          <h2>Log in with your mobile number</h2>
+          <p>We'll send you a code so you can continue your application on this device.</p>
+
+          <div className="form-field">
+            <label>Mobile Number</label>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="98765 43210"
+              autoFocus
+            />
+          </div>
+
+          <button
+            className="primary-button"
+            onClick={handleRequestCode}
+            disabled={!phone || loading}
+          >
+            {loading ? 'Sending...' : 'Send Code →'}
+          </button>
+        </>
+      )}
+
+      {step === 'code' && (
+        <>
+          <h2>Enter the code</h2>
+          <p>We sent a 6-digit code to {phone}.</p>
+
+          <div className="form-field">
+            <label>Verification Code</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              maxLength={6}
+              autoFocus
+            />
+          </div>
+
+          <div className="actions">
+            <button
+              className="primary-button"
+              onClick={handleVerifyCode}
+              disabled={code.length !== 6 || loading}
+            >
+              {loading ? 'Checking...' : 'Log In →'}
+            </button>
+            <button className="text-button" onClick={handleRequestCode} disabled={loading}>
+              Send a new code
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'sessions' && (
+        <>
+          <h2>Your applications</h2>
+          <p>Pick up where you left off, or start a new application.</p>
+
+          <ul className="session-list">
+            {sessions.map(session => (
+              <li key={session.sessionId} className={`session-item status-${session.status}`}>
+                <div>
+                  <h4>{session.businessName || 'Untitled application'}</h4>
+                  <p>
+                    {describeStatus(session)} · Last active{' '}
+                    {new Date(session.lastActivityAt).toLocaleString('en-IN')}
+                  </p>
+                </div>
+                {RESUMABLE.has(session.status) && (
+                  <button className="primary-button" onClick={() => resume(session.sessionId)}>
+                    Continue →
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <button className="secondary-button" onClick={startNew}>
+            Start a new application
+          </button>
+        </>
+      )}
+
+      {error && <div className="field-error">{error}</div>}
+    </div>
+  );
+};
+
+/**
+ * Helper function to describe where an application stands
+ */
+function describeStatus(session: SessionSummary): string {
+  switch (session.status) {
+    case 'paused':
+      return 'Saved draft';
+    case 'completed':
+      return session.applicationId ? `Submitted (${session.applicationId})` : 'Submitted';
+    case 'abandoned':
+      return 'Expired';
+    default:
+      return `In progress: ${session.currentStep.replace(/_/g, ' ')}`;
+  }
+}
+
+export default LoginPage;
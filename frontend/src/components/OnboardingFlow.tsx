@@ -9,11 +9,13 @@ import { DocumentUpload } from './DocumentUpload';
 import { SmartForm } from './SmartForm';
 import { ProgressTracker } from './ProgressTracker';
 import { ReviewSubmit } from './ReviewSubmit';
+import { ConsentPrompt } from './ConsentPrompt';
 import {
   OnboardingStep,
   MerchantData,
 } from '../types/onboarding';
 import { useOnboardingAgent } from '../hooks/useOnboardingAgent';
+import { useBehaviorTelemetry, TrackEvent } from '../hooks/useBehaviorTelemetry';
 
 export const OnboardingFlow: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<OnboardingStep>(
@@ -21,15 +23,26 @@ export const OnboardingFlow: React.FC = () => {
   );
   const [merchantData, setMerchantData] = useState<Partial<MerchantData>>({});
   const [chatMinimized, setChatMinimized] = useState(false);
+  // PAN and bank checks, from the verification step or the assistant, need bureau_check
+  const [bureauConsent, setBureauConsent] = useState(false);
 
   const {
+    sessionId,
     sendMessage,
     uploadDocument,
     conversationHistory,
     suggestedActions,
     isProcessing,
+    streamingMessage,
+    language,
+    languages,
+    changeLanguage,
+    intervention,
+    dismissIntervention,
+    submitApplication,
   } = useOnboardingAgent();
 
+  const track = useBehaviorTelemetry(sessionId, currentStep);
 
   const handleStepChange = (step: OnboardingStep) => {
     setCurrentStep(step);
@@ -40,6 +53,11 @@ export const OnboardingFlow: React.FC = () => {
     setMerchantData(prev => ({ ...prev, ...updates }));
   };
 
+  const handleSubmit = async () => {
+    await submitApplication(merchantData);
+    handleStepChange(OnboardingStep.SUBMITTED);
+  };
+
   const handleDocumentUpload = async (file: File, documentType: string) => {
     const result = await uploadDocument(file, documentType as any);
 
@@ -67,6 +85,7 @@ export const OnboardingFlow: React.FC = () => {
             merchantData={merchantData}
             onUpdate={handleDataUpdate}
             onNext={() => handleStepChange(OnboardingStep.DOCUMENT_UPLOAD)}
+            onTrack={track}
           />
         )}
 
@@ -77,15 +96,25 @@ export const OnboardingFlow: React.FC = () => {
           />
         )}
 
+        {(currentStep === OnboardingStep.FORM_COMPLETION ||
+          currentStep === OnboardingStep.VERIFICATION) && !bureauConsent && (
+          <ConsentPrompt
+            sessionId={sessionId}
+            purpose="bureau_check"
+            onGranted={() => setBureauConsent(true)}
+          />
+        )}
+
         {currentStep === OnboardingStep.FORM_COMPLETION && (
           <SmartForm
             merchantData={merchantData}
             onUpdate={handleDataUpdate}
             onNext={() => handleStepChange(OnboardingStep.VERIFICATION)}
+            onTrack={track}
           />
         )}
 
-        {currentStep === OnboardingStep.VERIFICATION && (
+        {currentStep === OnboardingStep.VERIFICATION && bureauConsent && (
           <VerificationStep
             merchantData={merchantData}
             onNext={() => handleStepChange(OnboardingStep.REVIEW)}
@@ -95,7 +124,8 @@ export const OnboardingFlow: React.FC = () => {
         {currentStep === OnboardingStep.REVIEW && (
           <ReviewSubmit
             merchantData={merchantData}
-            onSubmit={() => handleStepChange(OnboardingStep.SUBMITTED)}
+            sessionId={sessionId}
+            onSubmit={handleSubmit}
           />
         )}
 
@@ -110,9 +140,15 @@ export const OnboardingFlow: React.FC = () => {
         suggestedActions={suggestedActions}
         onSendMessage={sendMessage}
         isProcessing={isProcessing}
+        streamingMessage={streamingMessage}
+        languages={languages}
+        language={language?.code}
+        onChangeLanguage={changeLanguage}
         minimized={chatMinimized}
         onToggleMinimize={() => setChatMinimized(!chatMinimized)}
         currentStep={currentStep}
+        intervention={intervention}
+        onDismissIntervention={dismissIntervention}
       />
 
       {/* Floating Action Hints */}
@@ -194,7 +230,8 @@ const BusinessInfoStep: React.FC<{
   merchantData: Partial<MerchantData>;
   onUpdate: (data: Partial<MerchantData>) => void;
   onNext: () => void;
-}> = ({ merchantData, onUpdate, onNext }) => {
+  onTrack: TrackEvent;
+}> = ({ merchantData, onUpdate, onNext, onTrack }) => {
   const [businessName, setBusinessName] = useState(
     merchantData.businessName || ''
   );
@@ -235,6 +272,8 @@ const BusinessInfoStep: React.FC<{
             setBusinessName(e.target.value);
             onUpdate({ businessName: e.target.value });
           }}
+          onFocus={() => onTrack({ type: 'field_focus', field: 'businessName' })}
+          onBlur={() => onTrack({ type: 'field_blur', field: 'businessName' })}
           placeholder="Enter your registered business name"
         />
       </div>
@@ -250,6 +289,8 @@ const BusinessInfoStep: React.FC<{
           type="text"
           value={gstin}
           onChange={(e) => handleGSTINChange(e.target.value.toUpperCase())}
+          onFocus={() => onTrack({ type: 'field_focus', field: 'gstin' })}
+          onBlur={() => onTrack({ type: 'field_blur', field: 'gstin' })}
           placeholder="27AABCU9603R1ZM"
           maxLength={15}
         />
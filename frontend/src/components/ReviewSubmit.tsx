@@ -3,34 +3,71 @@
  * Final review of all information before submission
  */
 
-import React, { useState } from 'react';
-import { MerchantData } from '../types/onboarding';
+import React, { useState, useEffect } from 'react';
+import { MerchantData, ConsentText } from '../types/onboarding';
+import { consentAPI } from '../api/consent';
 
 interface ReviewSubmitProps {
   merchantData: Partial<MerchantData>;
-  onSubmit: () => void;
+  sessionId?: string | null;
+  onSubmit: () => Promise<void>;
 }
 
 export const ReviewSubmit: React.FC<ReviewSubmitProps> = ({
   merchantData,
+  sessionId,
   onSubmit,
 }) => {
   const [agreed, setAgreed] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [termsText, setTermsText] = useState<ConsentText | null>(null);
+  const [termsFailed, setTermsFailed] = useState(false);
+
+  // The agreement label comes from the server so the ledger records the version
+  // shown. Without it no consent can be recorded, so submission stays blocked.
+  const loadTerms = () => {
+    setTermsFailed(false);
+    consentAPI.getTexts()
+      .then(response => {
+        const terms = response.data?.texts.find(text => text.purpose === 'terms');
+        if (!terms) throw new Error('No terms text');
+        setTermsText(terms);
+      })
+      .catch(err => {
+        console.error('Failed to load consent texts:', err);
+        setTermsFailed(true);
+      });
+  };
+
+  useEffect(loadTerms, []);
 
   const handleSubmit = async () => {
     if (!agreed) {
       alert('Please accept the terms and conditions to continue');
       return;
     }
+    if (!sessionId || !termsText) {
+      alert('Your session is not ready yet. Please try again in a moment.');
+      return;
+    }
 
     setSubmitting(true);
 
-    // Simulate API submission
-    setTimeout(() => {
-      onSubmit();
+    try {
+      await consentAPI.grant(sessionId, 'terms', termsText.version);
+    } catch (err) {
+      alert(`Could not record your consent: ${(err as Error).message}`);
       setSubmitting(false);
-    }, 2000);
+      return;
+    }
+
+    try {
+      await onSubmit();
+    } catch (err) {
+      alert(`Could not submit your application: ${(err as Error).message}`);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const sections = [
@@ -167,15 +204,23 @@ export const ReviewSubmit: React.FC<ReviewSubmitProps> = ({
             <input
               type="checkbox"
               checked={agreed}
+              disabled={!termsText}
               onChange={(e) => setAgreed(e.target.checked)}
             />
-            <span>
-              I have read and agree to the terms and conditions, and confirm that
-              all information provided is true and accurate. I understand this is
-              for a <strong>Proprietorship business</strong> applying for Payment Gateway
-              services under Indian Payment Aggregator regulations.
-            </span>
+            {termsText ? (
+              <span>{termsText.text}</span>
+            ) : (
+              <span>Loading the agreement...</span>
+            )}
           </label>
+          {termsFailed && (
+            <div className="field-error">
+              The agreement could not be loaded, so your application cannot be submitted yet.
+              <button className="text-button" onClick={loadTerms}>
+                Try again
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Submit Actions */}
@@ -183,7 +228,7 @@ export const ReviewSubmit: React.FC<ReviewSubmitProps> = ({
           <button
             className="primary-button large"
             onClick={handleSubmit}
-            disabled={!agreed || submitting}
+            disabled={!agreed || !termsText || submitting}
           >
             {submitting ? (
               <>
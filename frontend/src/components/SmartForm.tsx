@@ -7,17 +7,20 @@
 import React, { useState } from 'react';
 import { MerchantData } from '../types/onboarding';
 import { ContextualHelp } from './AIAssistant';
+import { TrackEvent } from '../hooks/useBehaviorTelemetry';
 
 interface SmartFormProps {
   merchantData: Partial<MerchantData>;
   onUpdate: (data: Partial<MerchantData>) => void;
   onNext: () => void;
+  onTrack?: TrackEvent;
 }
 
 export const SmartForm: React.FC<SmartFormProps> = ({
   merchantData,
   onUpdate,
   onNext,
+  onTrack,
 }) => {
   const [formData, setFormData] = useState<Partial<MerchantData>>(merchantData);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -171,6 +174,10 @@ export const SmartForm: React.FC<SmartFormProps> = ({
     setErrors({ ...errors, [field]: error });
     setValidating({ ...validating, [field]: false });
 
+    if (error) {
+      onTrack?.({ type: 'validation_error', field });
+    }
+
     return !error;
   };
 
@@ -232,6 +239,15 @@ export const SmartForm: React.FC<SmartFormProps> = ({
     }
   };
 
+  // Focus and blur bubble up from every field, named by its name attribute
+  const handleFocusChange = (type: 'field_focus' | 'field_blur') =>
+    (e: React.FocusEvent<HTMLDivElement>) => {
+      const field = (e.target as HTMLInputElement).name as keyof MerchantData;
+      if (field) {
+        onTrack?.({ type, field });
+      }
+    };
+
   const calculateProgress = () => {
     const totalFields = 13; // Number of required fields
     const filledFields = Object.values(formData).filter(v => v && String(v).trim()).length;
@@ -239,7 +255,11 @@ export const SmartForm: React.FC<SmartFormProps> = ({
   };
 
   return (
-    <div className="smart-form">
+    <div
+      className="smart-form"
+      onFocus={handleFocusChange('field_focus')}
+      onBlur={handleFocusChange('field_blur')}
+    >
       <div className="form-header">
         <h2>Complete Your Business Details</h2>
         <p>I've pre-filled some information from your documents. Please review and complete the remaining fields.</p>
@@ -267,6 +287,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             label="Owner Name"
             required
             value={formData.ownerName || ''}
+            name="ownerName"
             onChange={(v) => handleFieldChange('ownerName', v)}
             onBlur={() => handleBlur('ownerName')}
             error={touched.ownerName ? errors.ownerName : ''}
@@ -278,6 +299,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             label="PAN Number"
             required
             value={formData.pan || ''}
+            name="pan"
             onChange={(v) => handleFieldChange('pan', v.toUpperCase())}
             onBlur={() => handleBlur('pan')}
             error={touched.pan ? errors.pan : ''}
@@ -293,6 +315,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               required
               type="email"
               value={formData.email || ''}
+              name="email"
               onChange={(v) => handleFieldChange('email', v)}
               onBlur={() => handleBlur('email')}
               error={touched.email ? errors.email : ''}
@@ -305,6 +328,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               required
               type="tel"
               value={formData.phone || ''}
+              name="phone"
               onChange={(v) => handleFieldChange('phone', v)}
               onBlur={() => handleBlur('phone')}
               error={touched.phone ? errors.phone : ''}
@@ -323,6 +347,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             label="Business Address"
             required
             value={formData.address || ''}
+            name="address"
             onChange={(v) => handleFieldChange('address', v)}
             onBlur={() => handleBlur('address')}
             error={touched.address ? errors.address : ''}
@@ -336,6 +361,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               label="City"
               required
               value={formData.city || ''}
+              name="city"
               onChange={(v) => handleFieldChange('city', v)}
               placeholder="Enter city"
             />
@@ -345,6 +371,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               required
               type="select"
               value={formData.state || ''}
+              name="state"
               onChange={(v) => handleFieldChange('state', v)}
               options={indianStates.map(s => ({ value: s, label: s }))}
               placeholder="Select state"
@@ -355,6 +382,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             label="Pincode"
             required
             value={formData.pincode || ''}
+            name="pincode"
             onChange={(v) => handleFieldChange('pincode', v)}
             onBlur={() => handleBlur('pincode')}
             error={touched.pincode ? errors.pincode : ''}
@@ -375,6 +403,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             label="Account Holder Name"
             required
             value={formData.accountHolderName || ''}
+            name="accountHolderName"
             onChange={(v) => handleFieldChange('accountHolderName', v)}
             onBlur={() => handleBlur('accountHolderName')}
             error={touched.accountHolderName ? errors.accountHolderName : ''}
@@ -387,6 +416,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               label="Bank Account Number"
               required
               value={formData.accountNumber || ''}
+              name="accountNumber"
               onChange={(v) => handleFieldChange('accountNumber', v)}
               onBlur={() => handleBlur('accountNumber')}
               error={touched.accountNumber ? errors.accountNumber : ''}
@@ -399,6 +429,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               required
               type="select"
               value={formData.accountType || ''}
+              name="accountType"
               onChange={(v) => handleFieldChange('accountType', v)}
               options={[
                 { value: 'current', label: 'Current Account' },
@@ -413,6 +444,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
               label="IFSC Code"
               required
               value={formData.ifscCode || ''}
+              name="ifscCode"
               onChange={(v) => handleFieldChange('ifscCode', v.toUpperCase())}
               onBlur={() => handleBlur('ifscCode')}
               error={touched.ifscCode ? errors.ifscCode : ''}
@@ -425,6 +457,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             <FormField
               label="Bank Name"
               value={formData.bankName || ''}
+              name="bankName"
               onChange={(v) => handleFieldChange('bankName', v)}
               placeholder="Auto-filled from IFSC"
               disabled
@@ -441,6 +474,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             required
             type="select"
             value={formData.category || ''}
+            name="category"
             onChange={(v) => handleFieldChange('category', v)}
             options={businessCategories}
             placeholder="Select your business category"
@@ -450,6 +484,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
           <FormField
             label="Business Description"
             value={formData.description || ''}
+            name="description"
             onChange={(v) => handleFieldChange('description', v)}
             placeholder="Brief description of your business and products/services"
             helpText="Helps us understand your business better (optional)"
@@ -459,6 +494,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
           <FormField
             label="Website URL"
             value={formData.website || ''}
+            name="website"
             onChange={(v) => handleFieldChange('website', v)}
             placeholder="https://www.yourbusiness.com"
             helpText="Your business website (optional)"
@@ -468,6 +504,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             <FormField
               label="Expected Monthly Transaction Volume"
               value={formData.monthlyVolume || ''}
+              name="monthlyVolume"
               onChange={(v) => handleFieldChange('monthlyVolume', v)}
               onBlur={() => handleBlur('monthlyVolume')}
               error={touched.monthlyVolume ? errors.monthlyVolume : ''}
@@ -480,6 +517,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
             <FormField
               label="Average Transaction Size"
               value={formData.averageTicketSize || ''}
+              name="averageTicketSize"
               onChange={(v) => handleFieldChange('averageTicketSize', v)}
               onBlur={() => handleBlur('averageTicketSize')}
               error={touched.averageTicketSize ? errors.averageTicketSize : ''}
@@ -493,6 +531,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
           <FormField
             label="GST Number (Optional)"
             value={formData.gstin || ''}
+            name="gstin"
             onChange={(v) => handleFieldChange('gstin', v.toUpperCase())}
             onBlur={() => handleBlur('gstin')}
             error={touched.gstin ? errors.gstin : ''}
@@ -533,6 +572,7 @@ export const SmartForm: React.FC<SmartFormProps> = ({
  */
 interface FormFieldProps {
   label: string;
+  name?: string;
   value: string | number;
   onChange: (value: any) => void;
   onBlur?: () => void;
@@ -552,6 +592,7 @@ interface FormFieldProps {
 
 const FormField: React.FC<FormFieldProps> = ({
   label,
+  name,
   value,
   onChange,
   onBlur,
@@ -586,6 +627,7 @@ const FormField: React.FC<FormFieldProps> = ({
 
       {type === 'select' ? (
         <select
+          name={name}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           onBlur={onBlur}
@@ -601,6 +643,7 @@ const FormField: React.FC<FormFieldProps> = ({
         </select>
       ) : multiline ? (
         <textarea
+          name={name}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           onBlur={onBlur}
@@ -615,6 +658,7 @@ const FormField: React.FC<FormFieldProps> = ({
           {prefix && <span className="field-prefix">{prefix}</span>}
           <input
             type={type}
+            name={name}
             value={value}
             onChange={(e) => onChange(e.target.value)}
             onBlur={onBlur}
@@ -0,0 +1,109 @@
+/**
+ * useBehaviorTelemetry Hook
+ * Batches behaviour events (field focus and blur, idle time, validation
+ * errors, step changes) and sends them to the server, where they become the
+ * metrics the agent's proactive help is based on
+ */
+
+import { useEffect, useCallback, useRef } from 'react';
+import {
+  OnboardingStep,
+  TelemetryEvent,
+  DEFAULT_CONFIG,
+} from '../types/onboarding';
+import { onboardingAPI } from '../api/onboarding';
+
+const FLUSH_INTERVAL_MS = 10000;
+
+// No input for this long counts as idle; the idle event is sent when input resumes
+const IDLE_AFTER_MS = 15000;
+
+// Matches the server's batch limit
+const MAX_BATCH_EVENTS = 100;
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+
+export type TrackEvent = (event: Omit<TelemetryEvent, 'at'>) => void;
+
+export const useBehaviorTelemetry = (
+  sessionId: string | null,
+  currentStep: OnboardingStep
+): TrackEvent => {
+  const enabled = DEFAULT_CONFIG.features.proactiveHelp;
+  const queue = useRef<TelemetryEvent[]>([]);
+  const sessionRef = useRef(sessionId);
+  sessionRef.current = sessionId;
+
+  const track = useCallback<TrackEvent>((event) => {
+    if (!enabled) return;
+    queue.current.push({ ...event, at: Date.now() });
+  }, [enabled]);
+
+  // Telemetry is best effort: a failed batch is dropped rather than retried
+  const flush = useCallback(async () => {
+    const id = sessionRef.current;
+    if (!id || queue.current.length === 0) return;
+
+    while (queue.current.length > 0) {
+      const batch = queue.current.splice(0, MAX_BATCH_EVENTS);
+      try {
+        await onboardingAPI.sendTelemetry(id, batch);
+      } catch (err) {
+        console.warn('Failed to send telemetry:', err);
+        return;
+      }
+    }
+  }, []);
+
+  // Send batches periodically and whenever the page is hidden
+  useEffect(() => {
+    if (!enabled || !sessionId) return;
+
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      flush();
+    };
+  }, [enabled, sessionId, flush]);
+
+  // Step changes are sent straight away so time on the new step starts now
+  useEffect(() => {
+    if (!enabled) return;
+
+    track({ type: 'step_enter', step: currentStep });
+    flush();
+
+    return () => track({ type: 'step_exit', step: currentStep });
+  }, [enabled, currentStep, track, flush]);
+
+  // Idle periods, reported when the merchant comes back
+  useEffect(() => {
+    if (!enabled) return;
+
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivity >= IDLE_AFTER_MS) {
+        track({ type: 'idle', durationMs: now - lastActivity });
+      }
+      lastActivity = now;
+    };
+
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+    };
+  }, [enabled, track]);
+
+  return track;
+};
+
+export default useBehaviorTelemetry;
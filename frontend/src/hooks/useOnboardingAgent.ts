@@ -9,8 +9,15 @@ import {
   AIResponse,
   MerchantData,
   DocumentType,
+  LanguageCode,
+  SessionLanguage,
+  SupportedLanguage,
+  ProactiveIntervention,
+  DEFAULT_CONFIG,
 } from '../types/onboarding';
 import { onboardingAPI } from '../api/onboarding';
+import { StreamUnavailableError, ConflictError, AlreadySubmittedError } from '../api/client';
+import { authAPI } from '../api/auth';
 
 interface UseOnboardingAgentResult {
   sessionId: string | null;
@@ -18,6 +25,12 @@ interface UseOnboardingAgentResult {
   suggestedActions: string[];
   isProcessing: boolean;
   agentResponse: AIResponse | null;
+  streamingMessage: string | null;
+  language: SessionLanguage | null;
+  languages: SupportedLanguage[];
+  changeLanguage: (language: LanguageCode) => Promise<void>;
+  intervention: ProactiveIntervention | null;
+  dismissIntervention: () => void;
   sendMessage: (message: string) => Promise<void>;
   uploadDocument: (file: File, documentType: DocumentType) => Promise<any>;
   updateField: (field: keyof MerchantData, value: any) => Promise<void>;
@@ -33,6 +46,10 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
   const [suggestedActions, setSuggestedActions] = useState<string[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [agentResponse, setAgentResponse] = useState<AIResponse | null>(null);
+  const [streamingMessage, setStreamingMessage] = useState<string | null>(null);
+  const [language, setLanguage] = useState<SessionLanguage | null>(null);
+  const [languages, setLanguages] = useState<SupportedLanguage[]>([]);
+  const [intervention, setIntervention] = useState<ProactiveIntervention | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
   const messageIdCounter = useRef(0);
@@ -42,8 +59,22 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
     initializeSession();
   }, []);
 
+  // Proactive help is pushed by the server while the session is open
+  useEffect(() => {
+    if (!sessionId || !DEFAULT_CONFIG.features.proactiveHelp) return;
+
+    return onboardingAPI.subscribeToInterventions(sessionId, setIntervention);
+  }, [sessionId]);
+
   const initializeSession = async () => {
     try {
+      // Sessions are bound to the signed-in merchant, so get a token first
+      await authAPI.ensureToken();
+
+      if (DEFAULT_CONFIG.features.multiLanguage) {
+        loadLanguages();
+      }
+
       // Check if there's a saved session
       const savedSessionId = localStorage.getItem('onboarding_session_id');
 
@@ -57,6 +88,7 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
             if (response.data.conversationHistory) {
               setConversationHistory(response.data.conversationHistory);
             }
+            setLanguage(response.data.language || null);
             return;
           }
         } catch (err) {
@@ -81,6 +113,18 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
     }
   };
 
+  const loadLanguages = async () => {
+    try {
+      const response = await onboardingAPI.listLanguages();
+      if (response.success && response.data) {
+        setLanguages(response.data.languages);
+      }
+    } catch (err) {
+      // The assistant still works in the detected language without the picker
+      console.error('Failed to load languages:', err);
+    }
+  };
+
   const sendInitialMessage = async (sessId: string) => {
     try {
       const response = await onboardingAPI.sendMessage(
@@ -133,27 +177,49 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
       addMessage('user', message);
 
       try {
-        const response = await onboardingAPI.sendMessage(sessionId, message, {
-          conversationHistory: conversationHistory.slice(-5), // Last 5 messages for context
-        });
+        let aiMessage: AIResponse;
+        let updatedLanguage: SessionLanguage | undefined;
 
-        if (response.success && response.data) {
-          const aiMessage = response.data.response;
-          setAgentResponse(aiMessage);
-
-          // Add AI response
-          addMessage('agent', aiMessage.message, {
-            suggestedActions: aiMessage.suggestedActions,
-            intent: aiMessage.intent,
-            dataUpdates: aiMessage.dataUpdates,
+        try {
+          // Show the reply as it is generated
+          let partial = '';
+          const streamed = await onboardingAPI.streamMessage(sessionId, message, (text) => {
+            partial += text;
+            setStreamingMessage(partial);
           });
+          aiMessage = streamed.response;
+          updatedLanguage = streamed.updatedContext.language;
+        } catch (err) {
+          if (!(err instanceof StreamUnavailableError)) throw err;
 
-          // Update suggested actions
-          if (aiMessage.suggestedActions) {
-            setSuggestedActions(aiMessage.suggestedActions);
+          // Streaming is not available, so wait for the whole reply
+          const response = await onboardingAPI.sendMessage(sessionId, message, {
+            conversationHistory: conversationHistory.slice(-5), // Last 5 messages for context
+          });
+
+          if (!response.success || !response.data) {
+            throw new Error(response.error?.message || 'Failed to send message');
           }
-        } else {
-          throw new Error(response.error?.message || 'Failed to send message');
+          aiMessage = response.data.response;
+          updatedLanguage = response.data.updatedContext.language;
+        }
+
+        setAgentResponse(aiMessage);
+        if (updatedLanguage) {
+          setLanguage(updatedLanguage);
+        }
+
+        // Add AI response
+        addMessage('agent', aiMessage.message, {
+          suggestedActions: aiMessage.suggestedActions,
+          intent: aiMessage.intent,
+          dataUpdates: aiMessage.dataUpdates,
+          citations: aiMessage.citations,
+        });
+
+        // Update suggested actions
+        if (aiMessage.suggestedActions) {
+          setSuggestedActions(aiMessage.suggestedActions);
         }
       } catch (err) {
         const error = err as Error;
@@ -162,12 +228,32 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
         // Add error message
         addMessage('agent', `I apologize, but I encountered an error: ${error.message}. Please try again.`);
       } finally {
+        setStreamingMessage(null);
         setIsProcessing(false);
       }
     },
     [sessionId, conversationHistory]
   );
 
+  const changeLanguage = useCallback(
+    async (code: LanguageCode) => {
+      if (!sessionId) return;
+
+      try {
+        const response = await onboardingAPI.setLanguage(sessionId, code);
+        if (response.success && response.data) {
+          setLanguage(response.data.language);
+        }
+      } catch (err) {
+        setError(err as Error);
+        console.error('Failed to change language:', err);
+      }
+    },
+    [sessionId]
+  );
+
+  const dismissIntervention = useCallback(() => setIntervention(null), []);
+
   const uploadDocument = useCallback(
     async (file: File, documentType: DocumentType) => {
       if (!sessionId) {
@@ -223,6 +309,15 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
       try {
         await onboardingAPI.updateData(sessionId, { [field]: value });
       } catch (err) {
+        if (err instanceof ConflictError) {
+          // The same field was changed elsewhere, so the merchant decides which value stays
+          setError(err);
+          addMessage(
+            'agent',
+            `Your ${String(field)} was changed elsewhere while you were editing, so your value was not saved. Please enter it again to keep it.`
+          );
+          return;
+        }
         console.error('Failed to update field:', err);
       }
     },
@@ -285,6 +380,13 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
           throw new Error(response.error?.message || 'Submission failed');
         }
       } catch (err) {
+        // A repeat submit (a retry after a lost response, say) finds the application already in
+        if (err instanceof AlreadySubmittedError) {
+          addMessage('agent', 'Your application has already been submitted. Our team will review it shortly.');
+          localStorage.removeItem('onboarding_session_id');
+          return;
+        }
+
         const error = err as Error;
         setError(error);
         addMessage('agent', `Failed to submit application: ${error.message}. Please try again.`);
@@ -302,6 +404,12 @@ export const useOnboardingAgent = (): UseOnboardingAgentResult => {
     suggestedActions,
     isProcessing,
     agentResponse,
+    streamingMessage,
+    language,
+    languages,
+    changeLanguage,
+    intervention,
+    dismissIntervention,
     sendMessage,
     uploadDocument,
     updateField,
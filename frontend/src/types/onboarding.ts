@@ -23,6 +23,7 @@ export interface MerchantData {
 
   // Contact Information
   ownerName: string;
+  aadhaar?: string; // Only collected with Aadhaar eKYC consent
   email: string;
   phone: string;
 
@@ -63,15 +64,46 @@ export interface ConversationMessage {
     confidence?: number;
     suggestedActions?: string[];
     dataExtracted?: Partial<MerchantData>;
+    citations?: Citation[];
   };
 }
 
+/**
+ * A passage of the onboarding documentation an answer was based on
+ */
+export interface Citation {
+  passageId: string;
+  source: string;
+  section: string;
+  score: number;
+}
+
+// Conversation Language Types
+
+export type LanguageCode = 'en' | 'hi' | 'mr' | 'ta' | 'bn' | 'te' | 'gu' | 'kn';
+
+export interface SupportedLanguage {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+}
+
+/**
+ * The language the agent replies in. A detected language follows the
+ * merchant's messages; one they chose stays until they change it.
+ */
+export interface SessionLanguage {
+  code: LanguageCode;
+  source: 'user' | 'detected';
+}
+
 export interface AgentContext {
   sessionId: string;
   userId?: string;
   currentStep: OnboardingStep;
   merchantData: Partial<MerchantData>;
   conversationHistory: ConversationMessage[];
+  language?: SessionLanguage;
   userBehavior: UserBehaviorMetrics;
   extractedDocuments: ExtractedDocument[];
 }
@@ -132,6 +164,7 @@ export interface AIResponse {
   nextStep?: OnboardingStep;
   intent?: string;
   confidence?: number;
+  citations?: Citation[];
 }
 
 export interface DocumentProcessingResult {
@@ -186,6 +219,7 @@ export interface OnboardingSession {
   documents: ExtractedDocument[];
   conversationHistory: ConversationMessage[];
   interventions: ProactiveIntervention[];
+  language?: SessionLanguage;
   status: 'in_progress' | 'completed' | 'abandoned' | 'paused';
 }
 
@@ -251,6 +285,76 @@ export interface EnrichDataResponse {
   confidence: number;
 }
 
+export interface AuthTokenResponse {
+  token: string;
+  userId: string;
+}
+
+export interface OtpRequestResponse {
+  message: string;
+  expiresIn: number;
+}
+
+export interface OtpVerifyResponse extends AuthTokenResponse {
+  phone: string;
+  claimedSessions: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  status: OnboardingSession['status'];
+  currentStep: OnboardingStep;
+  businessName?: string;
+  applicationId?: string;
+  startedAt: string;
+  lastActivityAt: string;
+}
+
+export type ConsentPurpose = 'aadhaar_ekyc' | 'bureau_check' | 'terms' | 'marketing';
+
+export interface ConsentText {
+  purpose: ConsentPurpose;
+  version: string;
+  title: string;
+  text: string;
+  required: boolean;
+}
+
+export interface ConsentStatus {
+  purpose: ConsentPurpose;
+  granted: boolean;
+  textVersion?: string;
+  currentVersion: string;
+  recordedAt?: string;
+}
+
+export interface ConsentRecord {
+  id: string;
+  sessionId: string;
+  purpose: ConsentPurpose;
+  action: 'granted' | 'withdrawn';
+  textVersion: string;
+  recordedAt: string;
+}
+
+export type FieldSource = 'user' | 'ocr' | 'external_api' | 'ai';
+
+export interface FieldChange {
+  field: string;
+  value: any;
+  previousValue: any;
+  source: FieldSource;
+  confidence?: number;
+  documentId?: string;
+  provider?: string;
+  changedAt: Date;
+}
+
+export interface FieldHistoryResponse {
+  sessionId: string;
+  changes: FieldChange[];
+}
+
 // Event Types for Analytics
 
 export type OnboardingEvent =
@@ -276,6 +380,24 @@ export interface AnalyticsEvent {
   metadata?: Record<string, any>;
 }
 
+// Behaviour telemetry the agent's proactive help is based on
+
+export type TelemetryEventType =
+  | 'field_focus'
+  | 'field_blur'
+  | 'idle'
+  | 'validation_error'
+  | 'step_enter'
+  | 'step_exit';
+
+export interface TelemetryEvent {
+  type: TelemetryEventType;
+  at: number; // Date.now() when it happened
+  field?: keyof MerchantData; // field_focus, field_blur and validation_error
+  step?: OnboardingStep; // step_enter and step_exit
+  durationMs?: number; // idle
+}
+
 // Configuration Types
 
 export interface OnboardingConfig {
@@ -307,7 +429,7 @@ export const DEFAULT_CONFIG: OnboardingConfig = {
     autoFill: true,
     voiceInput: true,
     proactiveHelp: true,
-    multiLanguage: false,
+    multiLanguage: true,
   },
   thresholds: {
     dropOffRiskThreshold: 0.7,